@@ -0,0 +1,390 @@
+/**
+ * Sound: effects for what happens in the game, and background music that speeds up with the level.
+ *
+ * The game is listened to rather than told to make sounds: each new state is compared with the one before it
+ * to find the moves, rotations, locks, clears, level ups and the game over it brought, and each of those is
+ * played as a short run of synthesized tones. The music is a loop scheduled a little ahead on the audio clock,
+ * its tempo rising with the level. Everything is played through a mixer of three volume buses (sound effects
+ * and music, both feeding a master bus that mutes), over an AudioDevice: a thin wrapper of the Web Audio API
+ * that a test can replace with a fake. Every function here is pure, except the mixer and the Web Audio device.
+ */
+
+import { State } from "./engine";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Something in the game that makes a sound.
+ */
+export type SoundEffect =
+  | 'MOVE' | 'ROTATE' | 'LOCK'
+  | 'SINGLE' | 'DOUBLE' | 'TRIPLE' | 'TETRIS' | 'TSPIN'
+  | 'LEVEL_UP' | 'GAME_OVER';
+
+
+/**
+ * A volume bus of the mixer: the sound effects, the music, and the master bus both of them feed.
+ */
+export type Bus = 'MASTER' | 'SFX' | 'MUSIC';
+
+
+/**
+ * A synthesized tone.
+ */
+export type Tone = Readonly<{
+  /**
+   * The pitch, in Hz.
+   */
+  frequency: number;
+
+  /**
+   * When the tone starts, in seconds after the time it is played at, and how long it lasts.
+   */
+  offset: number;
+  duration: number;
+
+  /**
+   * The shape of the wave.
+   */
+  wave: 'sine' | 'square' | 'triangle' | 'sawtooth';
+
+  /**
+   * The loudness of the tone before the bus volumes, from 0 to 1.
+   */
+  gain: number;
+}>;
+
+
+/**
+ * The volume settings the player keeps.
+ */
+export type Volumes = Readonly<{
+  /**
+   * The volume of the sound effects and of the music, from 0 to 1.
+   */
+  sfx: number;
+  music: number;
+
+  /**
+   * Whether all sound is muted.
+   */
+  muted: boolean;
+}>;
+
+
+/**
+ * Represents the immutable state of the music: where it is in the loop, and when its next note is due.
+ */
+export type MusicState = Readonly<{
+  /**
+   * The index of the next note of the loop.
+   */
+  note: number;
+
+  /**
+   * The audio clock time of the next note, in seconds, or null when the music is stopped.
+   */
+  nextTime: number | null;
+}>;
+
+
+/**
+ * A sound output: the audio clock, and the buses tones are played through.
+ */
+export type AudioDevice = Readonly<{
+  /**
+   * Reads the audio clock.
+   * @returns The time, in seconds.
+   */
+  now: () => number;
+
+  /**
+   * Sets the volume of a bus.
+   * @param bus The bus.
+   * @param volume The volume, from 0 to 1.
+   */
+  setVolume: (bus: Bus, volume: number) => void;
+
+  /**
+   * Plays a tone through a bus.
+   * @param bus The bus, SFX or MUSIC.
+   * @param tone The tone.
+   * @param at The audio clock time the tone's offset counts from, in seconds.
+   */
+  playTone: (bus: Bus, tone: Tone, at: number) => void;
+
+  /**
+   * Resumes the output, which browsers keep suspended until the page has been interacted with.
+   */
+  resume: () => void;
+}>;
+
+
+/**
+ * Plays the game's sounds through an AudioDevice.
+ */
+export type Mixer = Readonly<{
+  /**
+   * Reads the audio clock.
+   * @returns The time, in seconds.
+   */
+  now: () => number;
+
+  /**
+   * Applies the player's volume settings to the buses.
+   * @param volumes The volume settings.
+   */
+  setVolumes: (volumes: Volumes) => void;
+
+  /**
+   * Plays sound effects straight away.
+   * @param sounds The sound effects.
+   */
+  play: (sounds: readonly SoundEffect[]) => void;
+
+  /**
+   * Plays notes of the music.
+   * @param tones The notes.
+   * @param at The audio clock time their offsets count from, in seconds.
+   */
+  playMusic: (tones: readonly Tone[], at: number) => void;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Music Configuration
+ *
+ * BEAT_S: The length of a beat on level 1, in seconds.
+ * TEMPO_STEP: How much faster the music gets on each level, relative to level 1.
+ * MAX_TEMPO_LEVEL: The level the music stops speeding up at.
+ * LOOKAHEAD_S: How far ahead of the audio clock notes are scheduled, so that they play on time between frames.
+ * GAIN: The loudness of each note, before the music volume.
+ */
+export const Music = {
+  BEAT_S: 0.3,
+  TEMPO_STEP: 0.06,
+  MAX_TEMPO_LEVEL: 20,
+  LOOKAHEAD_S: 0.2,
+  GAIN: 0.2,
+} as const;
+
+
+/**
+ * The volume settings until the player changes them.
+ */
+export const DEFAULT_VOLUMES: Volumes = { sfx: 0.6, music: 0.3, muted: false };
+
+
+/**
+ * The music loop (the first part of Korobeiniki): each note as a MIDI note number and its length in beats.
+ */
+const MELODY: readonly (readonly [number, number])[] = [
+  [76, 1], [71, 0.5], [72, 0.5], [74, 1], [72, 0.5], [71, 0.5],
+  [69, 1], [69, 0.5], [72, 0.5], [76, 1], [74, 0.5], [72, 0.5],
+  [71, 1.5], [72, 0.5], [74, 1], [76, 1],
+  [72, 1], [69, 1], [69, 2],
+  [74, 1.5], [77, 0.5], [81, 1], [79, 0.5], [77, 0.5],
+  [76, 1.5], [72, 0.5], [76, 1], [74, 0.5], [72, 0.5],
+  [71, 1], [71, 0.5], [72, 0.5], [74, 1], [76, 1],
+  [72, 1], [69, 1], [69, 2],
+];
+
+
+/**
+ * Builds a short sound effect out of notes played one after the other.
+ * Pure function.
+ * @param wave The shape of the wave.
+ * @param gain The loudness of each note.
+ * @param notes Each note as its pitch in Hz and its length in seconds.
+ * @returns The tones.
+ */
+const arpeggio = (wave: Tone['wave'], gain: number, notes: readonly (readonly [number, number])[]): Tone[] =>
+  notes.map(([frequency, duration], i) => ({
+    frequency,
+    duration,
+    wave,
+    gain,
+    offset: notes.slice(0, i).reduce((sum, [, length]) => sum + length, 0),
+  }));
+
+
+/**
+ * The tones of each sound effect. The line clears rise with their tier.
+ */
+export const SOUND_TONES: Readonly<Record<SoundEffect, readonly Tone[]>> = {
+  MOVE: arpeggio('square', 0.08, [[220, 0.03]]),
+  ROTATE: arpeggio('square', 0.08, [[330, 0.04]]),
+  LOCK: arpeggio('triangle', 0.3, [[110, 0.08]]),
+  SINGLE: arpeggio('square', 0.15, [[523, 0.08], [659, 0.1]]),
+  DOUBLE: arpeggio('square', 0.15, [[523, 0.07], [659, 0.07], [784, 0.1]]),
+  TRIPLE: arpeggio('square', 0.15, [[523, 0.06], [659, 0.06], [784, 0.06], [988, 0.12]]),
+  TETRIS: arpeggio('sawtooth', 0.15, [[523, 0.06], [659, 0.06], [784, 0.06], [1047, 0.06], [1319, 0.2]]),
+  TSPIN: arpeggio('sawtooth', 0.15, [[392, 0.06], [587, 0.06], [784, 0.06], [1175, 0.2]]),
+  LEVEL_UP: arpeggio('triangle', 0.25, [[440, 0.1], [554, 0.1], [659, 0.1], [880, 0.25]]),
+  GAME_OVER: arpeggio('triangle', 0.3, [[392, 0.25], [330, 0.25], [262, 0.25], [196, 0.6]]),
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- SOUND EFFECTS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Finds the sound effects a new state brought, compared with the state before it.
+ * Pure function.
+ * A lock sounds its clear as well: a T-spin, or the tier of the lines cleared. Nothing sounds after the game
+ * is over, or when the game starts again.
+ * @param previous The state before.
+ * @param s The new state.
+ * @returns The sound effects, in the order they are played.
+ */
+export const soundsOf = (previous: State, s: State): SoundEffect[] => {
+  if (previous.gameEnd || s.pieces < previous.pieces) return [];
+  if (s.gameEnd) return ['GAME_OVER'];
+
+  if (s.pieces > previous.pieces) {
+    const clear = s.lastLock?.clear ?? null;
+    const tiers: readonly SoundEffect[] = ['SINGLE', 'DOUBLE', 'TRIPLE', 'TETRIS'];
+    const cleared: SoundEffect[] = clear === null ? []
+      : clear.spin !== 'NONE' ? ['TSPIN']
+      : clear.lines > 0 ? [tiers[Math.min(clear.lines, 4) - 1]]
+      : [];
+    return ['LOCK', ...cleared, ...(s.currentLevel > previous.currentLevel ? ['LEVEL_UP' as const] : [])];
+  }
+
+  const samePiece = s.phase === 'FALLING' && previous.phase === 'FALLING'
+    && s.currentBlockType === previous.currentBlockType && s.holdUsed === previous.holdUsed;
+  if (!samePiece) return [];
+  if (s.rotation !== previous.rotation) return ['ROTATE'];
+  return s.block[0].x !== previous.block[0].x ? ['MOVE'] : [];
+};
+
+/** ---------------------------------------------------------------- END OF SOUND EFFECTS ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- MUSIC ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The music before it has started.
+ */
+export const initialMusic: MusicState = { note: 0, nextTime: null };
+
+
+/**
+ * Gets the length of a beat of the music on a level.
+ * Pure function.
+ * @param level The level.
+ * @returns The length of a beat, in seconds.
+ */
+export const beatLength = (level: number): number =>
+  Music.BEAT_S / (1 + (Math.min(Math.max(level, 1), Music.MAX_TEMPO_LEVEL) - 1) * Music.TEMPO_STEP);
+
+
+/**
+ * Converts a MIDI note number to its pitch.
+ * Pure function.
+ * @param note The MIDI note number, 69 for A4.
+ * @returns The pitch, in Hz.
+ */
+const pitchOf = (note: number): number => 440 * 2 ** ((note - 69) / 12);
+
+
+/**
+ * Schedules the notes of the music that are due before the lookahead runs out.
+ * Pure function.
+ * Stopping keeps the place in the loop; the music picks up from there, straight away, when it plays again.
+ * @param music The music so far.
+ * @param now The audio clock time, in seconds.
+ * @param level The level, which sets the tempo.
+ * @param playing Whether the music should be playing, i.e. the game is running.
+ * @returns The updated music, and the notes to play, their offsets counted from now.
+ */
+export const stepMusic = (music: MusicState, now: number, level: number, playing: boolean): { music: MusicState, tones: Tone[] } => {
+  if (!playing) return { music: { ...music, nextTime: null }, tones: [] };
+
+  const beat = beatLength(level);
+  const schedule = (state: { note: number, nextTime: number }, tones: Tone[]): { music: MusicState, tones: Tone[] } => {
+    if (state.nextTime >= now + Music.LOOKAHEAD_S) return { music: state, tones };
+    const [note, beats] = MELODY[state.note];
+    const tone: Tone = { frequency: pitchOf(note), offset: state.nextTime - now, duration: beats * beat * 0.9, wave: 'square', gain: Music.GAIN };
+    return schedule({ note: (state.note + 1) % MELODY.length, nextTime: state.nextTime + beats * beat }, [...tones, tone]);
+  };
+  return schedule({ note: music.note, nextTime: music.nextTime === null || music.nextTime < now ? now : music.nextTime }, []);
+};
+
+/** ---------------------------------------------------------------- END OF MUSIC ------------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- MIXER ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates the mixer of the game's sounds over a device, which should be done once the page has been interacted with.
+ * Impure function.
+ * It resumes and plays through the device.
+ * @param device The sound output, e.g. the Web Audio device, or a fake in tests.
+ * @returns The mixer.
+ */
+export const createMixer = (device: AudioDevice): Mixer => {
+  device.resume();
+  return {
+    now: device.now,
+    setVolumes: volumes => {
+      device.setVolume('MASTER', volumes.muted ? 0 : 1);
+      device.setVolume('SFX', volumes.sfx);
+      device.setVolume('MUSIC', volumes.music);
+    },
+    play: sounds => {
+      const at = device.now();
+      sounds.forEach(sound => SOUND_TONES[sound].forEach(tone => device.playTone('SFX', tone, at)));
+    },
+    playMusic: (tones, at) => tones.forEach(tone => device.playTone('MUSIC', tone, at)),
+  };
+};
+
+
+/**
+ * Creates a device over a Web Audio context: a gain node for each bus, and an oscillator with a fading
+ * envelope for each tone.
+ * Impure function.
+ * It builds an audio graph in the context.
+ * @param context The audio context.
+ * @returns The device.
+ */
+export const createWebAudio = (context: AudioContext): AudioDevice => {
+  const master = context.createGain();
+  const buses: Readonly<Record<Bus, GainNode>> = { MASTER: master, SFX: context.createGain(), MUSIC: context.createGain() };
+  master.connect(context.destination);
+  buses.SFX.connect(master);
+  buses.MUSIC.connect(master);
+
+  const playTone = (bus: Bus, tone: Tone, at: number) => {
+    const start = at + tone.offset;
+    const end = start + tone.duration;
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    oscillator.type = tone.wave;
+    oscillator.frequency.setValueAtTime(tone.frequency, start);
+    envelope.gain.setValueAtTime(tone.gain, start);
+    envelope.gain.exponentialRampToValueAtTime(0.001, end);  // Fades out rather than clicking off
+    oscillator.connect(envelope).connect(buses[bus]);
+    oscillator.start(start);
+    oscillator.stop(end);
+  };
+
+  return {
+    now: () => context.currentTime,
+    setVolume: (bus, volume) => buses[bus].gain.setValueAtTime(volume, context.currentTime),
+    playTone,
+    resume: () => { if (context.state === 'suspended') void context.resume(); },
+  };
+};
+
+/** ---------------------------------------------------------------- END OF MIXER ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,81 @@
+/**
+ * Lets the bot play games without a browser and prints how well it did, to compare weights.
+ *
+ * Usage: npm run bot -- [--games N] [--pieces N] [--seed N] [--weights HEIGHT,LINES,HOLES,BUMPINESS] [--mode MODE]
+ *
+ * Game i is played with the seed plus i, so the same options always play the same games.
+ */
+
+import { DEFAULT_WEIGHTS, parseWeights, playGame } from "./bot";
+import { isGameMode } from "./modes";
+
+/** ---------------------------------------------------------------- OPTIONS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Reads the value following a flag.
+ * Pure function.
+ * @param args The command line arguments.
+ * @param flag The flag, e.g. "--games".
+ * @returns The value, or undefined when the flag is missing.
+ */
+const option = (args: readonly string[], flag: string): string | undefined => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+
+/**
+ * Reads a whole number option.
+ * Pure function.
+ * @param args The command line arguments.
+ * @param flag The flag.
+ * @param fallback The value when the flag is missing or invalid.
+ * @returns The number.
+ */
+const wholeOption = (args: readonly string[], flag: string, fallback: number): number => {
+  const value = Number(option(args, flag));
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+/** ---------------------------------------------------------------- END OF OPTIONS ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- ENTRY POINT ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Plays the games asked for on the command line and prints a line for each, then the averages.
+ * Impure function.
+ * It writes to the console.
+ * @param args The command line arguments.
+ * @returns The exit code.
+ */
+const bench = (args: readonly string[]): number => {
+  const weightsText = option(args, '--weights');
+  const weights = weightsText === undefined ? DEFAULT_WEIGHTS : parseWeights(weightsText);
+  if (weights === undefined) {
+    console.error('Usage: npm run bot -- [--games N] [--pieces N] [--seed N] [--weights HEIGHT,LINES,HOLES,BUMPINESS] [--mode MODE]');
+    return 2;
+  }
+
+  const games = wholeOption(args, '--games', 10);
+  const pieces = wholeOption(args, '--pieces', 500);
+  const seed = wholeOption(args, '--seed', 0);
+  const mode = option(args, '--mode');
+  const settings = isGameMode(mode) ? { mode } : {};
+
+  const results = Array.from({ length: games }, (_, i) => {
+    const s = playGame((seed + i) >>> 0, settings, weights, pieces);
+    console.log(`Seed ${(seed + i) >>> 0}: ${s.pieces} pieces, ${s.clearedRows} lines, score ${s.score}${s.gameEnd && !s.completed ? '  TOPPED OUT' : ''}`);
+    return s;
+  });
+
+  const average = (value: (s: typeof results[number]) => number) =>
+    (results.reduce((sum, s) => sum + value(s), 0) / Math.max(results.length, 1)).toFixed(1);
+  console.log(`Average: ${average(s => s.pieces)} pieces, ${average(s => s.clearedRows)} lines, score ${average(s => s.score)}`);
+  return 0;
+};
+
+process.exitCode = bench(process.argv.slice(2));
+
+/** ---------------------------------------------------------------- END OF ENTRY POINT ------------------------------------------------------------------------------------------------- */
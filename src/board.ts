@@ -0,0 +1,680 @@
+/**
+ * The board view: the component that draws one game, its hold and next queue, and its score.
+ *
+ * A view is created over the elements it draws into, so a page can show as many boards as it has players.
+ * The game is first turned into a scene, a plain description of everything on screen; the view is then given
+ * the scene it drew last along with the new one, and only touches what differs between them. The board itself
+ * is drawn by a renderer, which is told only the cells that changed: the SVG renderer keeps one element per
+ * cell and updates it in place, and the Canvas2D renderer paints over the changed cells. Every cell is the same
+ * size, so a board of more columns or rows is drawn larger; the renderer is resized whenever the board's size
+ * changes. The effects of a lock (see effects.ts) are part of the scene: flashes and trails as cells, particles
+ * drawn over the board.
+ */
+
+import { EffectLook, Particle, effectCells, particlesOf } from "./effects";
+import { Cell, State, dropPosition, piecesLeft } from "./engine";
+import { PIECES, PieceKey } from "./pieces";
+import { Puzzle, describeGoal } from "./puzzle";
+import type { Block } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * An svg element on the page.
+ */
+export type SvgCanvas = SVGGraphicsElement & HTMLElement;
+
+
+/**
+ * A way of drawing the board.
+ */
+export type RendererKind = typeof RENDERER_KINDS[number];
+
+
+/**
+ * What a cell of the board shows: its contents, the outline of the ghost or of the bot's hint, or an effect.
+ */
+export type CellLook = Cell | 'GHOST' | 'HINT' | EffectLook;
+
+
+/**
+ * A cell of the board that looks different from the last time it was drawn.
+ */
+export type CellChange = Readonly<{
+  x: number;
+  y: number;
+  look: CellLook;
+}>;
+
+
+/**
+ * Represents everything a board view shows of a game.
+ */
+export type Scene = Readonly<{
+  /**
+   * What each cell of the board shows, row by row from the top.
+   */
+  cells: readonly (readonly CellLook[])[];
+
+  /**
+   * The particles flying over the board.
+   */
+  particles: readonly Particle[];
+
+  /**
+   * The types of the upcoming blocks shown, nearest first.
+   */
+  queue: readonly PieceKey[];
+
+  /**
+   * The held block, and whether hold has been used for the block in play.
+   */
+  held: PieceKey | null;
+  holdUsed: boolean;
+
+  /**
+   * The texts of the score, the level, the lines cleared and the last clear.
+   */
+  score: string;
+  level: string;
+  lines: string;
+  clear: string;
+}>;
+
+
+/**
+ * Draws the cells of a board.
+ */
+export type Renderer = Readonly<{
+  /**
+   * The element the board is drawn in, e.g. to listen to pointer events on.
+   */
+  element: HTMLElement;
+
+  /**
+   * Draws the cells that changed.
+   * @param changes The cells, with what they show now.
+   */
+  drawCells: (changes: readonly CellChange[]) => void;
+
+  /**
+   * Draws the particles over the cells, in place of the ones drawn before.
+   * @param particles The particles.
+   */
+  drawParticles: (particles: readonly Particle[]) => void;
+
+  /**
+   * Sizes the board for a number of columns and rows, leaving every cell empty.
+   * @param columns The number of columns.
+   * @param rows The number of rows.
+   */
+  resize: (columns: number, rows: number) => void;
+}>;
+
+
+/**
+ * The elements a board view draws into.
+ */
+export type BoardElements = Readonly<{
+  /**
+   * The board itself.
+   */
+  board: Renderer;
+
+  /**
+   * The held block.
+   */
+  hold: SvgCanvas;
+
+  /**
+   * The next queue.
+   */
+  preview: SvgCanvas;
+
+  /**
+   * The text fields of the score, the level, the lines cleared and the last clear.
+   */
+  score: HTMLElement;
+  level: HTMLElement;
+  lines: HTMLElement;
+  clear: HTMLElement;
+}>;
+
+
+/**
+ * A board view.
+ */
+export type BoardView = Readonly<{
+  /**
+   * The element the board is drawn in.
+   */
+  element: HTMLElement;
+
+  /**
+   * Draws a scene, touching only what differs from the scene drawn before it.
+   * @param previous The scene drawn last, or null to draw everything.
+   * @param scene The scene to draw.
+   */
+  draw: (previous: Scene | null, scene: Scene) => void;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** -------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Viewport Configuration
+ *
+ * This object defines the dimensions of the cells of the main canvas and of the preview section
+ * in a Tetris game. The main canvas is as many cells wide and high as the board of the game.
+ *
+ * CELL_SIZE: Width and height of a cell of the main game canvas in pixels.
+ * PREVIEW_WIDTH: Width of the preview canvas in pixels (also used for the hold canvas).
+ * PREVIEW_HEIGHT: Height of the preview canvas in pixels (also used for the hold canvas), i.e. of the nearest piece in the next queue.
+ * QUEUE_SCALE: The size of the pieces further down the next queue, relative to the nearest one.
+ * METER_WIDTH: Width of the incoming garbage meter in pixels.
+ */
+export const Viewport = {
+  CELL_SIZE: 20,
+  PREVIEW_WIDTH: 160,
+  PREVIEW_HEIGHT: 80,
+  QUEUE_SCALE: 0.6,
+  METER_WIDTH: 12,
+} as const;
+
+/**
+ * Block Dimensions
+ *
+ * This object stores the dimensions of a single block in the Tetris grid,
+ * based on the Viewport configuration.
+ *
+ * WIDTH: The width of a single block in pixels.
+ * HEIGHT: The height of a single block in pixels.
+ */
+const Block = {
+  WIDTH: Viewport.CELL_SIZE,
+  HEIGHT: Viewport.CELL_SIZE,
+};
+
+/**
+ * The fill colour of every kind of filled cell: the guideline colour of each Tetromino, a colour of its own for
+ * each pentomino and tromino, and grey for garbage.
+ * Used for locked cells, the current block and the previews.
+ */
+export const CELL_COLORS: Readonly<Record<Exclude<Cell, 'EMPTY'>, string>> = {
+  I: "cyan",
+  O: "yellow",
+  T: "purple",
+  S: "limegreen",
+  Z: "red",
+  J: "blue",
+  L: "orange",
+  F5: "teal",
+  I5: "deepskyblue",
+  L5: "darkorange",
+  N5: "olive",
+  P5: "hotpink",
+  T5: "darkviolet",
+  U5: "gold",
+  V5: "royalblue",
+  W5: "seagreen",
+  X5: "crimson",
+  Y5: "sienna",
+  Z5: "indianred",
+  I3: "aquamarine",
+  V3: "plum",
+  GARBAGE: "gray",
+};
+
+
+/**
+ * The ways of drawing the board: SVG elements (the default), or a Canvas2D.
+ */
+export const RENDERER_KINDS = ['SVG', 'CANVAS'] as const;
+
+
+/**
+ * The styles the outlines of the ghost and the hint, and the effects, are drawn with on a Canvas2D, as in style.css for SVG.
+ */
+const OUTLINE_STYLES = {
+  GHOST: { fill: null, stroke: "white", dash: [4, 2] },
+  HINT: { fill: "rgba(255, 255, 0, 0.25)", stroke: "yellow", dash: [2, 2] },
+  FLASH: { fill: "white", stroke: "white", dash: [] },
+  TRAIL: { fill: "rgba(255, 255, 255, 0.2)", stroke: "rgba(255, 255, 255, 0.2)", dash: [] },
+} as const;
+
+/** -------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- SCENES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks whether a value names a way of drawing the board.
+ * Pure function.
+ * @param value The value to check, e.g. a URL parameter.
+ * @returns True if the value is a RendererKind.
+ */
+export const isRendererKind = (value: unknown): value is RendererKind => (RENDERER_KINDS as readonly unknown[]).includes(value);
+
+
+/**
+ * Describes everything a board view shows of a state.
+ * Pure function.
+ * The effects are drawn over everything, the block in play over the hint, and the hint over the ghost.
+ * Between a lock and the next block coming into play, there is no block in play, so none of the three is drawn.
+ * A puzzle's queue only shows the pieces it has left.
+ * @param s The state.
+ * @param nextPieces How many blocks of the next queue to show.
+ * @param hint Where the bot would place the block, if a hint is shown.
+ * @param reducedMotion Whether the effects are toned down.
+ * @returns The scene.
+ */
+export const sceneOf = (s: State, nextPieces: number, hint: Block | null = null, reducedMotion = false): Scene => {
+  const falling = s.phase === 'FALLING';
+  const block = falling ? s.block : [];
+  const ghost = falling && s.showGhost ? dropPosition(s.block, s.grid) : [];
+  const shownHint = falling ? hint : null;
+  const effects = effectCells(s, reducedMotion);
+  const covers = (cells: Block, x: number, y: number) => cells.some(p => p.x === x && p.y === y);
+  return {
+    cells: s.grid.map((row, y) => row.map((cell, x): CellLook =>
+      effects.find(e => e.x === x && e.y === y)?.look
+        ?? (covers(block, x, y) ? s.currentBlockType
+        : shownHint && covers(shownHint, x, y) ? 'HINT'
+        : covers(ghost, x, y) ? 'GHOST'
+        : cell)
+    )),
+    particles: particlesOf(s, reducedMotion),
+    queue: s.nextQueue.slice(0, Math.min(nextPieces, piecesLeft(s) ?? nextPieces)),
+    held: s.heldBlockType,
+    holdUsed: s.holdUsed,
+    score: `${s.score}`,
+    level: `${s.currentLevel}`,
+    lines: `${s.clearedRows}`,
+    clear: s.lastClear ? `${s.lastClear.label}${s.lastClear.combo > 0 ? ` (${s.lastClear.combo} REN)` : ''}` : '',
+  };
+};
+
+
+/**
+ * Describes what a board view shows of a puzzle being edited: its board and the start of its queue.
+ * Pure function.
+ * @param puzzle The puzzle.
+ * @param nextPieces How many pieces of the queue to show.
+ * @returns The scene.
+ */
+export const puzzleSceneOf = (puzzle: Puzzle, nextPieces: number): Scene => ({
+  cells: puzzle.board,
+  particles: [],
+  queue: puzzle.queue.slice(0, nextPieces),
+  held: null,
+  holdUsed: false,
+  score: '0',
+  level: '',
+  lines: '0',
+  clear: describeGoal(puzzle.goal),
+});
+
+
+/**
+ * Finds the cells that look different in a scene from the scene before it.
+ * Pure function.
+ * @param previous The scene drawn last, or null when nothing has been drawn yet.
+ * @param scene The scene to draw.
+ * @returns The changed cells; every cell when nothing has been drawn yet.
+ */
+export const cellChanges = (previous: Scene | null, scene: Scene): CellChange[] =>
+  scene.cells.flatMap((row, y) => row
+    .map((look, x) => ({ x, y, look }))
+    .filter(({ x, y, look }) => previous === null || previous.cells[y]?.[x] !== look)
+  );
+
+/**
+ * Finds the cells under particles drawn before, so a renderer that paints over its cells can rub the particles out.
+ * Pure function.
+ * @param particles The particles drawn with the previous scene.
+ * @param scene The scene to draw.
+ * @returns The cells each particle touched, with what they show in the scene.
+ */
+export const underParticles = (particles: readonly Particle[], scene: Scene): CellChange[] =>
+  particles
+    .flatMap(p => [-1, 0, 1].flatMap(dy => [-1, 0, 1].map(dx => ({ x: Math.floor(p.x + dx * p.size), y: Math.floor(p.y + dy * p.size) }))))
+    .filter(({ x, y }, i, cells) => scene.cells[y]?.[x] !== undefined && cells.findIndex(c => c.x === x && c.y === y) === i)
+    .map(({ x, y }) => ({ x, y, look: scene.cells[y][x] }));
+
+/** ---------------------------------------------------------------- END OF SCENES ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- SVG RENDERING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates an SVG element with the given properties.
+ *
+ * See https://developer.mozilla.org/en-US/docs/Web/SVG/Element for valid
+ * element names and properties.
+ *
+ * Functional programming style.
+ * It uses Object.entries() and .forEach() to iterate over the properties and set them on the element.
+ *
+ * @param namespace Namespace of the SVG element
+ * @param name SVGElement name
+ * @param props Properties to set on the SVG element
+ * @returns SVG element
+ */
+const createSvgElement = (
+  namespace: string | null,
+  name: string,
+  props: Record<string, string> = {}
+) => {
+  const elem = document.createElementNS(namespace, name) as SVGElement;
+  Object.entries(props).forEach(([k, v]) => elem.setAttribute(k, v));
+  return elem;
+};
+
+
+/**
+ * Draws a single block centred in a slot of a preview canvas, scaled down for the far end of the next queue.
+ * Impure function.
+ * It appends to the given svg element.
+ * @param canvas The preview svg element to draw into.
+ * @param block The block to draw.
+ * @param style The style of the block's cells.
+ * @param top The top of the slot, in pixels.
+ * @param scale The size of the block relative to the full preview size.
+ * @returns void
+ */
+const drawPreview = (canvas: SvgCanvas, block: Block, style: string, top: number, scale: number) => {
+  const width = Block.WIDTH * scale;
+  const height = Block.HEIGHT * scale;
+
+  // Calculate the min and max x and y coordinates of the block
+  const minX = Math.min(...block.map(p => p.x));
+  const maxX = Math.max(...block.map(p => p.x));
+  const minY = Math.min(...block.map(p => p.y));
+  const maxY = Math.max(...block.map(p => p.y));
+
+  // Calculate the dimensions of the block's bounding box
+  const totalBlockWidth = (maxX - minX + 1) * width;
+  const totalBlockHeight = (maxY - minY + 1) * height;
+
+  // Calculate centering offsets
+  const xOffset = (Viewport.PREVIEW_WIDTH - totalBlockWidth) / 2;
+  const yOffset = top + (Viewport.PREVIEW_HEIGHT * scale - totalBlockHeight) / 2;
+
+  block.forEach(p => {
+    const cube = createSvgElement(canvas.namespaceURI, "rect", {
+      height: `${height}`,
+      width: `${width}`,
+      x: `${(p.x - minX) * width + xOffset}`, // Shift by minX and add xOffset
+      y: `${(p.y - minY) * height + yOffset}`, // Shift by minY and add yOffset
+      style,
+    });
+    canvas.appendChild(cube);
+  });
+};
+
+
+/**
+ * Gets the cells of a piece in its spawn orientation, for a preview.
+ * Pure function.
+ * @param type The piece.
+ * @returns The cells of the piece.
+ */
+const previewBlock = (type: PieceKey): Block => PIECES[type].cells.map(p => ({ ...p }));
+
+
+/**
+ * Renders a single block centred in a preview canvas (the held block).
+ * Impure function.
+ * It clears and redraws the given svg element.
+ * @param canvas The preview svg element to draw into.
+ * @param block The block to draw, or an empty array to leave the canvas empty.
+ * @param style The style of the block's cells.
+ * @returns void
+ */
+const renderPreview = (canvas: SvgCanvas, block: Block, style: string) => {
+  canvas.innerHTML = '';  // Clear previous preview
+  if (block.length > 0) drawPreview(canvas, block, style, 0, 1);
+};
+
+
+/**
+ * Renders the next queue as a vertical stack, the nearest block at full size and the others smaller below it.
+ * Impure function.
+ * It clears, resizes and redraws the given svg element.
+ * @param canvas The preview svg element to draw into.
+ * @param queue The types of the upcoming blocks, nearest first.
+ * @param length How many of them to show.
+ * @returns void
+ */
+const renderQueue = (canvas: SvgCanvas, queue: readonly PieceKey[], length: number) => {
+  const shown = queue.slice(0, length);
+  const slot = Viewport.PREVIEW_HEIGHT * Viewport.QUEUE_SCALE;
+  canvas.innerHTML = '';  // Clear previous preview
+  canvas.setAttribute("height", `${Viewport.PREVIEW_HEIGHT + (shown.length - 1) * slot}`);
+  shown.forEach((type, i) =>
+    drawPreview(
+      canvas,
+      previewBlock(type),
+      `fill: ${CELL_COLORS[type]}`,
+      i === 0 ? 0 : Viewport.PREVIEW_HEIGHT + (i - 1) * slot,
+      i === 0 ? 1 : Viewport.QUEUE_SCALE
+    )
+  );
+};
+
+
+/**
+ * Renders a meter of the garbage waiting to rise, one block high per row, filling up from the bottom.
+ * Impure function.
+ * It clears and redraws the given svg element.
+ * @param meter The svg element to draw into.
+ * @param rows The rows of garbage waiting.
+ * @param boardRows The number of rows of the board beside the meter, which the meter is as high as.
+ * @returns void
+ */
+export const renderGarbageMeter = (meter: SvgCanvas, rows: number, boardRows: number) => {
+  const height = Math.min(rows, boardRows) * Block.HEIGHT;
+  meter.setAttribute("width", `${Viewport.METER_WIDTH}`);
+  meter.setAttribute("height", `${boardRows * Block.HEIGHT}`);
+  meter.innerHTML = '';
+  if (rows > 0) {
+    meter.appendChild(createSvgElement(meter.namespaceURI, "rect", {
+      width: `${Viewport.METER_WIDTH}`,
+      height: `${height}`,
+      x: "0",
+      y: `${boardRows * Block.HEIGHT - height}`,
+      class: "incoming",
+    }));
+  }
+};
+
+/**
+ * Creates the SVG renderer of a board: one rect per cell, made when the board is sized and updated in place when its cell changes.
+ * Impure function.
+ * It fills the svg element with the cells when the board is sized.
+ * The rects are kept in the svg element row by row, so the rect of a cell is found from the width of the element.
+ * @param svg The svg element of the board.
+ * @returns The renderer.
+ */
+export const createSvgRenderer = (svg: SvgCanvas): Renderer => {
+  const sparks = createSvgElement(svg.namespaceURI, "g", { class: "particles" });
+
+  const resize = (columns: number, rows: number) => {
+    svg.setAttribute("height", `${rows * Block.HEIGHT}`);
+    svg.setAttribute("width", `${columns * Block.WIDTH}`);
+    const rects = Array.from({ length: rows * columns }, (_, i) => createSvgElement(svg.namespaceURI, "rect", {
+      height: `${Block.HEIGHT}`,
+      width: `${Block.WIDTH}`,
+      x: `${(i % columns) * Block.WIDTH}`,
+      y: `${Math.floor(i / columns) * Block.HEIGHT}`,
+      visibility: "hidden",
+    }));
+    svg.replaceChildren(...rects, sparks);
+  };
+
+  const drawCells = (changes: readonly CellChange[]) =>
+    changes.forEach(({ x, y, look }) => {
+      const columns = Number(svg.getAttribute("width")) / Block.WIDTH;
+      const rect = svg.children[y * columns + x];
+      const outlined = look === 'GHOST' || look === 'HINT' || look === 'FLASH' || look === 'TRAIL';
+      rect.setAttribute("visibility", look === 'EMPTY' ? "hidden" : "visible");
+      rect.setAttribute("class", outlined ? look.toLowerCase() : "");
+      rect.setAttribute("style", look === 'EMPTY' || outlined ? "" : `fill: ${CELL_COLORS[look]}`);
+    });
+
+  const drawParticles = (particles: readonly Particle[]) =>
+    sparks.replaceChildren(...particles.map(p => createSvgElement(svg.namespaceURI, "circle", {
+      cx: `${p.x * Block.WIDTH}`,
+      cy: `${p.y * Block.HEIGHT}`,
+      r: `${p.size * Block.WIDTH}`,
+      style: `fill: ${CELL_COLORS[p.type]}`,
+    })));
+
+  return { element: svg, drawCells, drawParticles, resize };
+};
+
+/** ---------------------------------------------------------------- END OF SVG RENDERING ------------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CANVAS RENDERING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates the Canvas2D renderer of a board, which clears each changed cell and paints it again.
+ * Impure function.
+ * It sizes the canvas element when the board is sized.
+ * Every cell is painted inside its own square, outline included, so painting one never spoils its neighbours.
+ * Particles are painted over the cells; the board view repaints the cells under the old ones to rub them out.
+ * @param canvas The canvas element of the board.
+ * @returns The renderer.
+ */
+export const createCanvasRenderer = (canvas: HTMLCanvasElement): Renderer => {
+  const context = canvas.getContext("2d")!;
+
+  const resize = (columns: number, rows: number) => {
+    canvas.width = columns * Block.WIDTH;
+    canvas.height = rows * Block.HEIGHT;
+    context.lineWidth = 2;  // Sizing a canvas resets its context
+  };
+
+  const drawCells = (changes: readonly CellChange[]) =>
+    changes.forEach(({ x, y, look }) => {
+      const left = x * Block.WIDTH;
+      const top = y * Block.HEIGHT;
+      context.clearRect(left, top, Block.WIDTH, Block.HEIGHT);
+      if (look === 'EMPTY') return;
+
+      const style = look === 'GHOST' || look === 'HINT' || look === 'FLASH' || look === 'TRAIL'
+        ? OUTLINE_STYLES[look]
+        : { fill: CELL_COLORS[look], stroke: "black", dash: [] };
+      if (style.fill !== null) {
+        context.fillStyle = style.fill;
+        context.fillRect(left, top, Block.WIDTH, Block.HEIGHT);
+      }
+      context.strokeStyle = style.stroke;
+      context.setLineDash([...style.dash]);
+      context.strokeRect(left + 1, top + 1, Block.WIDTH - 2, Block.HEIGHT - 2);
+    });
+
+  const drawParticles = (particles: readonly Particle[]) =>
+    particles.forEach(p => {
+      context.fillStyle = CELL_COLORS[p.type];
+      context.beginPath();
+      context.arc(p.x * Block.WIDTH, p.y * Block.HEIGHT, p.size * Block.WIDTH, 0, 2 * Math.PI);
+      context.fill();
+    });
+
+  return { element: canvas, drawCells, drawParticles, resize };
+};
+
+
+/**
+ * Creates the renderer of a board. The Canvas2D renderer takes the place of the svg element on the page,
+ * keeping its id and class so the page's styles still apply.
+ * Impure function.
+ * It may replace the svg element in the DOM.
+ * @param kind The way of drawing the board.
+ * @param svg The svg element of the board on the page.
+ * @returns The renderer.
+ */
+export const createRenderer = (kind: RendererKind, svg: SvgCanvas): Renderer => {
+  if (kind === 'SVG') return createSvgRenderer(svg);
+
+  const canvas = document.createElement("canvas");
+  canvas.id = svg.id;
+  canvas.setAttribute("class", svg.getAttribute("class") ?? "");
+  svg.replaceWith(canvas);
+  return createCanvasRenderer(canvas);
+};
+
+/** ---------------------------------------------------------------- END OF CANVAS RENDERING ------------------------------------------------------------------------------------------------- */
+/* ----------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- BOARD VIEW ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates a board view over the elements it draws into, and sizes them.
+ * Impure function.
+ * It modifies the DOM.
+ * @param elements The elements to draw into.
+ * @returns The board view.
+ */
+export const createBoardView = (elements: BoardElements): BoardView => {
+  const { board, hold, preview } = elements;
+  preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+  hold.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
+  hold.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+
+  /**
+   * Draws a scene, touching only what differs from the scene drawn before it.
+   * When the board has a different size from the one drawn before, it is sized again and drawn whole.
+   *
+   * In MVC terms, this updates the View using the Model.
+   * Functional programming style.
+   * It uses the .filter() and .forEach() methods, which are more functional in nature.
+   *
+   * Impure function.
+   * It contains side effects like rendering to the DOM and modifying the DOM.
+   * Cannnot be pure.
+   * It cannot be made pure because it needs to modify the DOM.
+   *
+   * @param previous The scene drawn last, or null to draw everything.
+   * @param scene The scene to draw.
+   * @returns void
+   */
+  const draw = (previous: Scene | null, scene: Scene) => {
+    const resized = previous === null
+      || previous.cells.length !== scene.cells.length || previous.cells[0].length !== scene.cells[0].length;
+    if (resized) board.resize(scene.cells[0].length, scene.cells.length);
+
+    const drawn = resized ? null : previous;
+    const changes = [...cellChanges(drawn, scene), ...(drawn ? underParticles(drawn.particles, scene) : [])];
+    if (changes.length > 0) board.drawCells(changes);
+    if (scene.particles.length > 0 || (drawn !== null && drawn.particles.length > 0)) board.drawParticles(scene.particles);
+
+    (['score', 'level', 'lines', 'clear'] as const)
+      .filter(key => previous === null || previous[key] !== scene[key])
+      .forEach(key => { elements[key].innerText = scene[key]; });
+
+    if (previous === null || previous.queue.join() !== scene.queue.join()) {
+      renderQueue(preview, scene.queue, scene.queue.length);
+    }
+    if (previous === null || previous.held !== scene.held || previous.holdUsed !== scene.holdUsed) {
+      renderPreview(
+        hold,
+        scene.held ? previewBlock(scene.held) : [],
+        scene.holdUsed || !scene.held ? "fill: gray; opacity: 0.5" : `fill: ${CELL_COLORS[scene.held]}`
+      );
+    }
+  };
+
+  return { element: board.element, draw };
+};
+
+/** ---------------------------------------------------------------- END OF BOARD VIEW ------------------------------------------------------------------------------------------------- */
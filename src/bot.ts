@@ -0,0 +1,362 @@
+/**
+ * A heuristic bot: it finds every placement the block in play can reach, scores the board each one leaves,
+ * and plays the best as the same actions a player would send.
+ *
+ * Placements are found by rotating the block where it is, shifting it as far as it goes each way and dropping
+ * it, checking every position with the engine's willCollide and isOutOfBound. Each placement is scored together
+ * with the best placement of the next block after it, by a weighted sum of the aggregate height, the holes,
+ * the bumpiness and the lines cleared. Every function here is pure, so the bot runs headless as well as in the page.
+ */
+
+import {
+  Action, Board, GameSettings, State, clearFullRows, createGame, dropPosition,
+  isOutOfBound, piecesLeft, spawnBlock, step, willCollide
+} from "./engine";
+import type { PieceKey } from "./pieces";
+import { Rotation, RotationState, rotateWithKicks } from "./srs";
+import type { Block } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The weight of each feature of a board, added up to score it. Higher scores are better.
+ */
+export type BotWeights = Readonly<{
+  /**
+   * The weight of the sum of the heights of every column.
+   */
+  height: number;
+
+  /**
+   * The weight of the lines cleared.
+   */
+  lines: number;
+
+  /**
+   * The weight of the empty cells with a filled cell somewhere above them.
+   */
+  holes: number;
+
+  /**
+   * The weight of the sum of the differences in height between neighbouring columns.
+   */
+  bumpiness: number;
+}>;
+
+
+/**
+ * A placement of a block: where it lands, and the actions that put it there.
+ */
+export type Placement = Readonly<{
+  /**
+   * The actions, ending with the hard drop.
+   */
+  actions: readonly Action[];
+
+  /**
+   * The cells of the block where it lands.
+   */
+  block: Block;
+
+  /**
+   * The type of the block placed, which is not the block in play when the placement starts with a hold.
+   */
+  type: PieceKey;
+}>;
+
+
+/**
+ * Represents the immutable state of the bot while it plays a game.
+ */
+export type BotState = Readonly<{
+  /**
+   * The actions of the placement being played that have not been sent yet.
+   */
+  planned: readonly Action[];
+
+  /**
+   * The count of blocks locked when the placement was planned, so the bot plans again for every new block.
+   */
+  pieces: number;
+
+  /**
+   * The frames to wait before the next action.
+   */
+  wait: number;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Bot configuration.
+ *
+ * MOVE_FRAMES: The engine frames the bot shows a block in its place before hard dropping it, when it plays in the page.
+ */
+export const BotConfig = {
+  MOVE_FRAMES: 4,
+} as const;
+
+
+/**
+ * Weights that play well, found by Yiyuan Lee's genetic search for this set of features.
+ */
+export const DEFAULT_WEIGHTS: BotWeights = {
+  height: -0.510066,
+  lines: 0.760666,
+  holes: -0.35663,
+  bumpiness: -0.184483,
+};
+
+
+/**
+ * The bot before it has planned anything.
+ */
+export const initialBot: BotState = { planned: [], pieces: -1, wait: 0 };
+
+
+/**
+ * The rotations tried for each placement, with the action that performs them.
+ */
+const TURNS: readonly Readonly<{ rotation: Rotation | null, actions: readonly Action[] }>[] = [
+  { rotation: null, actions: [] },
+  { rotation: 'CW', actions: ['ROTATE_CW'] },
+  { rotation: '180', actions: ['ROTATE_180'] },
+  { rotation: 'CCW', actions: ['ROTATE_CCW'] },
+];
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- PLACEMENTS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks whether a block is a legal position on a board.
+ * Pure function.
+ * @param block The block.
+ * @param grid The board.
+ * @returns True if the block is inside the board and overlaps nothing.
+ */
+const fits = (block: Block, grid: Board): boolean => !isOutOfBound(block, grid) && !willCollide(block, grid);
+
+
+/**
+ * Shifts a block one column at a time for as long as it fits.
+ * Pure function.
+ * It is recursive rather than looping.
+ * @param block The block.
+ * @param grid The board.
+ * @param dx The direction, -1 for left and 1 for right.
+ * @param actions The actions that led to the block.
+ * @returns Every position reached, with the actions to reach it.
+ */
+const shifts = (block: Block, grid: Board, dx: number, actions: readonly Action[]): { block: Block, actions: readonly Action[] }[] => {
+  const moved = block.map(p => ({ x: p.x + dx, y: p.y }));
+  if (!fits(moved, grid)) return [];
+  const reached = { block: moved, actions: [...actions, dx < 0 ? 'LEFT' : 'RIGHT'] as const satisfies readonly Action[] };
+  return [reached, ...shifts(moved, grid, dx, reached.actions)];
+};
+
+
+/**
+ * Finds every placement a block can reach by rotating where it is, shifting sideways and hard dropping.
+ * Pure function.
+ * Placements that land on the same cells are only listed once, with the shortest actions.
+ * @param grid The board.
+ * @param block The block, where it is.
+ * @param type The type of the block.
+ * @param rotation The rotation state of the block.
+ * @param prefix The actions before the block can be moved, e.g. a hold.
+ * @returns The placements.
+ */
+export const placements = (
+  grid: Board,
+  block: Block,
+  type: PieceKey,
+  rotation: RotationState,
+  prefix: readonly Action[] = []
+): Placement[] => {
+  const all = TURNS.flatMap(turn => {
+    const turned = turn.rotation === null
+      ? block
+      : rotateWithKicks(block, type, rotation, turn.rotation, candidate => fits(candidate, grid))?.block;
+    if (!turned) return [];
+    const actions = [...prefix, ...turn.actions];
+    return [{ block: turned, actions }, ...shifts(turned, grid, -1, actions), ...shifts(turned, grid, 1, actions)];
+  }).map(({ block: moved, actions }): Placement => ({ block: dropPosition(moved, grid), actions: [...actions, 'HARD_DROP'], type }));
+
+  const cellsOf = (p: Placement) => p.block.map(c => `${c.x},${c.y}`).sort().join(' ');
+  return all
+    .filter((p, i) => all.findIndex(q => cellsOf(q) === cellsOf(p)) === i)  // The first found is the shortest
+    .filter(p => fits(p.block, grid));
+};
+
+/** ---------------------------------------------------------------- END OF PLACEMENTS ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- EVALUATION ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Locks a placement into a board and clears the full rows.
+ * Pure function.
+ * @param grid The board.
+ * @param placement The placement.
+ * @returns The new board, the lines cleared, and whether the lock tops out (fills the top row).
+ */
+const lockPlacement = (grid: Board, placement: Placement): { grid: Board, lines: number, toppedOut: boolean } => {
+  const locked = grid.map((row, y) =>
+    row.map((cell, x) => placement.block.some(p => p.x === x && p.y === y) ? placement.type : cell)
+  );
+  const { newGrid, clearedRows } = clearFullRows(locked);
+  return { grid: newGrid, lines: clearedRows, toppedOut: locked[0].some(cell => cell !== 'EMPTY') };
+};
+
+
+/**
+ * Scores a board by its features.
+ * Pure function.
+ * @param grid The board.
+ * @param lines The lines cleared on the way to it.
+ * @param weights The weights of the features.
+ * @returns The score; higher is better.
+ */
+export const evaluate = (grid: Board, lines: number, weights: BotWeights): number => {
+  const columns = grid[0].map((_, x) => grid.map(row => row[x]));
+  const tops = columns.map(column => column.findIndex(cell => cell !== 'EMPTY'));
+  const heights = tops.map(top => (top < 0 ? 0 : grid.length - top));
+  const holes = columns.reduce((sum, column, x) =>
+    sum + (tops[x] < 0 ? 0 : column.slice(tops[x]).filter(cell => cell === 'EMPTY').length), 0);
+  const bumpiness = heights.slice(1).reduce((sum, h, x) => sum + Math.abs(h - heights[x]), 0);
+
+  return weights.height * heights.reduce((sum, h) => sum + h, 0)
+    + weights.lines * lines
+    + weights.holes * holes
+    + weights.bumpiness * bumpiness;
+};
+
+
+/**
+ * Finds the best placement for the block in play, looking one block ahead.
+ * Pure function.
+ * Every placement of the block in play (and, when hold can be used, of the block it would swap in) is scored by
+ * the best board the next block can leave after it. In a puzzle, hold cannot bring in a block once the queue has
+ * run out, and the block after is the held one (which comes last), or none. Placements that top out are never chosen.
+ * @param s The state.
+ * @param weights The weights of the features.
+ * @returns The best placement, or null when every placement tops out.
+ */
+export const plan = (s: State, weights: BotWeights): Placement | null => {
+  const left = piecesLeft(s);
+  const following = (remaining: number | null, queued: PieceKey, held: PieceKey | null): PieceKey | null =>
+    (remaining === null || remaining > 0 ? queued : held);
+  const options = [
+    { placements: placements(s.grid, s.block, s.currentBlockType, s.rotation), next: following(left, s.nextQueue[0], s.heldBlockType) },
+    ...(s.holdUsed || (s.heldBlockType === null && left === 0) ? [] : s.heldBlockType === null
+      ? [{
+        placements: placements(s.grid, spawnBlock(s.nextQueue[0], s.grid[0].length), s.nextQueue[0], '0', ['HOLD']),
+        next: following(left === null ? null : left - 1, s.nextQueue[1], s.currentBlockType),
+      }]
+      : [{
+        placements: placements(s.grid, spawnBlock(s.heldBlockType, s.grid[0].length), s.heldBlockType, '0', ['HOLD']),
+        next: following(left, s.nextQueue[0], s.currentBlockType),
+      }]),
+  ];
+
+  const scored = options.flatMap(option => option.placements.map(placement => {
+    const after = lockPlacement(s.grid, placement);
+    if (after.toppedOut) return { placement, score: -Infinity };
+
+    const next = option.next;
+    const ahead = (next === null ? [] : placements(after.grid, spawnBlock(next, s.grid[0].length), next, '0'))
+      .map(next => lockPlacement(after.grid, next))
+      .filter(next => !next.toppedOut)
+      .map(next => evaluate(next.grid, after.lines + next.lines, weights));
+    return { placement, score: ahead.length > 0 ? Math.max(...ahead) : evaluate(after.grid, after.lines, weights) };
+  }));
+
+  const best = scored.reduce<{ placement: Placement, score: number } | null>(
+    (acc, candidate) => (candidate.score > -Infinity && (acc === null || candidate.score > acc.score) ? candidate : acc),
+    null
+  );
+  return best && best.placement;
+};
+
+/**
+ * Reads weights written as four numbers separated by commas, in the order height, lines, holes, bumpiness.
+ * Pure function.
+ * @param text The weights, e.g. "-0.51,0.76,-0.36,-0.18" from the command line or the page URL.
+ * @returns The weights, or undefined when the text is not four numbers.
+ */
+export const parseWeights = (text: string): BotWeights | undefined => {
+  const values = text.split(',').map(value => (value.trim() === '' ? NaN : Number(value)));
+  if (values.length !== 4 || !values.every(Number.isFinite)) return undefined;
+  const [height, lines, holes, bumpiness] = values;
+  return { height, lines, holes, bumpiness };
+};
+
+/** ---------------------------------------------------------------- END OF EVALUATION ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- PLAYING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Plays one engine frame of autoplay: plans a placement for each new block and sends its moves at once,
+ * then hard drops it BotConfig.MOVE_FRAMES frames later.
+ * Pure function.
+ * The moves are sent on the frame they are planned, before gravity pulls the block off the path they were planned from,
+ * so the block lands where the hint shows even at 20G; falling straight down in the meantime does not move its landing.
+ * Nothing is sent while the game is paused or over, or between blocks. When no placement is safe, the block is simply hard dropped.
+ * @param bot The bot so far.
+ * @param s The state of the game.
+ * @param weights The weights of the features.
+ * @returns The updated bot, and the actions to apply this frame.
+ */
+export const stepBot = (bot: BotState, s: State, weights: BotWeights): { bot: BotState, actions: Action[] } => {
+  if (s.gameEnd || s.gamePaused || s.phase !== 'FALLING') return { bot, actions: [] };
+
+  if (bot.pieces !== s.pieces) {
+    const actions = plan(s, weights)?.actions ?? ['HARD_DROP'];
+    return { bot: { planned: actions.slice(-1), pieces: s.pieces, wait: BotConfig.MOVE_FRAMES }, actions: actions.slice(0, -1) };
+  }
+  if (bot.wait > 0) return { bot: { ...bot, wait: bot.wait - 1 }, actions: [] };
+
+  const [action, ...rest] = bot.planned;
+  return action === undefined
+    ? { bot, actions: [] }
+    : { bot: { ...bot, planned: rest }, actions: [action] };
+};
+
+
+/**
+ * Lets the engine clock run until the next block comes into play, or the game ends.
+ * Pure function.
+ * It is recursive rather than looping.
+ * @param s The state, e.g. just after a lock.
+ * @returns The state with a block in play.
+ */
+const untilNextBlock = (s: State): State => (s.gameEnd || s.phase === 'FALLING' ? s : untilNextBlock(step(s, 'TICK')));
+
+
+/**
+ * Lets the bot play a game on its own, without gravity, for benchmarking.
+ * Only the line clear and entry delays pass between blocks.
+ * Pure function.
+ * @param seed The seed of the game.
+ * @param settings The settings of the game.
+ * @param weights The weights of the features.
+ * @param maxPieces The number of blocks after which the game is stopped, if it has not ended before.
+ * @returns The state when the game ended or was stopped.
+ */
+export const playGame = (seed: number, settings: Partial<GameSettings>, weights: BotWeights, maxPieces: number): State =>
+  Array.from({ length: maxPieces }).reduce<State>(
+    s => (s.gameEnd ? s : untilNextBlock((plan(s, weights)?.actions ?? ['HARD_DROP']).reduce(step, s))),
+    createGame({ seed, settings })
+  );
+
+/** ---------------------------------------------------------------- END OF PLAYING ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,189 @@
+/**
+ * Runs a game without a browser and prints the final board.
+ *
+ * Usage: npm run cli -- <file> [--seed N] [--mode MODE] [--randomizer KIND] [--gravity CURVE] [--level N] [--linesPerLevel N] [--softDropFactor N] [--lineClearDelay MS] [--entryDelay MS] [--width N] [--height N] [--pieces SET]
+ *
+ * The file is either an exported replay (JSON), which is played to its end with the seed and settings it
+ * was recorded with, or an input script (see script.ts), which is run on a new game created from the options.
+ */
+
+import { readFileSync } from "node:fs";
+import { Constants, GameSettings, State, REPLAY_ENGINE, createGame, isAction, isGameSettings, step, toAscii } from "./engine";
+import { isGameMode } from "./modes";
+import { isRandomizerKind } from "./randomizer";
+import { isGravityCurve } from "./levels";
+import { isPieceSetKind } from "./pieces";
+import { parseReplay, seekPlayback, startPlayback, stepPlayback } from "./replay";
+import { parseScript } from "./script";
+
+/** ---------------------------------------------------------------- OPTIONS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Reads the value following a flag.
+ * Pure function.
+ * @param args The command line arguments.
+ * @param flag The flag, e.g. "--seed".
+ * @returns The value, or undefined when the flag is missing.
+ */
+const option = (args: readonly string[], flag: string): string | undefined => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+
+/**
+ * Reads a positive whole number option.
+ * Pure function.
+ * @param args The command line arguments.
+ * @param flag The flag.
+ * @returns The number, or undefined when the flag is missing or invalid.
+ */
+const positiveOption = (args: readonly string[], flag: string): number | undefined => {
+  const value = Number(option(args, flag));
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+};
+
+
+/**
+ * Reads a delay option, in milliseconds.
+ * Pure function.
+ * @param args The command line arguments.
+ * @param flag The flag.
+ * @returns The delay, or undefined when the flag is missing or invalid.
+ */
+const delayOption = (args: readonly string[], flag: string): number | undefined => {
+  const value = Number(option(args, flag));
+  return option(args, flag) !== undefined && Number.isInteger(value) && value >= 0 ? value : undefined;
+};
+
+
+/**
+ * Reads a board size option, in cells.
+ * Pure function.
+ * @param args The command line arguments.
+ * @param flag The flag.
+ * @param min The smallest size allowed.
+ * @param max The largest size allowed.
+ * @returns The size, or undefined when the flag is missing, invalid or out of range.
+ */
+const sizeOption = (args: readonly string[], flag: string, min: number, max: number): number | undefined => {
+  const value = positiveOption(args, flag);
+  return value !== undefined && value >= min && value <= max ? value : undefined;
+};
+
+
+/**
+ * Reads the settings given on the command line; the engine fills in the rest with its defaults.
+ * Pure function.
+ * @param args The command line arguments.
+ * @returns The settings that were given.
+ */
+const settingsOptions = (args: readonly string[]): Partial<GameSettings> => {
+  const mode = option(args, '--mode');
+  const randomizer = option(args, '--randomizer');
+  const gravity = option(args, '--gravity');
+  const pieces = option(args, '--pieces');
+  const width = sizeOption(args, '--width', Constants.MIN_BOARD_WIDTH, Constants.MAX_BOARD_WIDTH);
+  const height = sizeOption(args, '--height', Constants.MIN_BOARD_HEIGHT, Constants.MAX_BOARD_HEIGHT);
+  return {
+    ...(isGameMode(mode) ? { mode } : {}),
+    ...(isRandomizerKind(randomizer) ? { randomizer } : {}),
+    ...(isGravityCurve(gravity) ? { gravityCurve: gravity } : {}),
+    ...(positiveOption(args, '--level') ? { startLevel: positiveOption(args, '--level') } : {}),
+    ...(positiveOption(args, '--linesPerLevel') ? { linesPerLevel: positiveOption(args, '--linesPerLevel') } : {}),
+    ...(positiveOption(args, '--softDropFactor') ? { softDropFactor: positiveOption(args, '--softDropFactor') } : {}),
+    ...(delayOption(args, '--lineClearDelay') !== undefined ? { lineClearDelayMs: delayOption(args, '--lineClearDelay') } : {}),
+    ...(delayOption(args, '--entryDelay') !== undefined ? { entryDelayMs: delayOption(args, '--entryDelay') } : {}),
+    ...(width !== undefined ? { boardWidth: width } : {}),
+    ...(height !== undefined ? { boardHeight: height } : {}),
+    ...(isPieceSetKind(pieces) ? { pieceSet: pieces } : {}),
+  };
+};
+
+/** ---------------------------------------------------------------- END OF OPTIONS ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- RUNNING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Runs a replay or an input script to its end.
+ * Pure function.
+ * A file that is valid JSON is read as a replay; anything else is read as a script.
+ * @param text The contents of the file.
+ * @param args The command line arguments, used for the seed and settings of a script.
+ * @returns The final state, or the reason the file was rejected.
+ */
+const run = (text: string, args: readonly string[]): { state: State } | { error: string } => {
+  const isJson = (() => {
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+
+  if (isJson) {
+    const parsed = parseReplay(text, isGameSettings, isAction);
+    if ('error' in parsed) return parsed;
+
+    // Seeking stops on the last recorded frame, so the actions recorded on it still need one more step
+    const end = seekPlayback(REPLAY_ENGINE, startPlayback(REPLAY_ENGINE, parsed.replay), parsed.replay.frames);
+    return { state: end.finished ? end.state : stepPlayback(REPLAY_ENGINE, end).state };
+  }
+
+  const script = parseScript(text);
+  if ('error' in script) return script;
+
+  const seed = Number(option(args, '--seed') ?? 0);
+  const game = createGame({ seed: Number.isInteger(seed) ? seed >>> 0 : 0, settings: settingsOptions(args) });
+  return { state: script.actions.reduce(step, game) };
+};
+
+/** ---------------------------------------------------------------- END OF RUNNING ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- ENTRY POINT ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Reads the file named on the command line, runs it and prints the result.
+ * A file that cannot be read is reported like any other error, rather than thrown.
+ * Impure function.
+ * It reads the file system and writes to the console.
+ * @param args The command line arguments.
+ * @returns The exit code.
+ */
+const cli = (args: readonly string[]): number => {
+  const [file] = args;
+  if (file === undefined || file.startsWith('--')) {
+    console.error('Usage: npm run cli -- <replay.json | script.txt> [--seed N] [--mode MODE] [--randomizer KIND] [--gravity CURVE] [--level N] [--linesPerLevel N] [--softDropFactor N] [--lineClearDelay MS] [--entryDelay MS] [--width N] [--height N] [--pieces SET]');
+    return 2;
+  }
+
+  const text = (() => {
+    try {
+      return readFileSync(file, 'utf8');
+    } catch (error) {
+      console.error(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  })();
+  if (text === null) return 1;
+
+  const result = run(text, args);
+  if ('error' in result) {
+    console.error(result.error);
+    return 1;
+  }
+
+  const s = result.state;
+  console.log(toAscii(s));
+  console.log(`Score: ${s.score}  Lines: ${s.clearedRows}  Level: ${s.currentLevel}  Frames: ${s.frame}${s.completed ? '  COMPLETE' : s.gameEnd ? '  GAME OVER' : ''}`);
+  return 0;
+};
+
+process.exitCode = cli(process.argv.slice(2));
+
+/** ---------------------------------------------------------------- END OF ENTRY POINT ------------------------------------------------------------------------------------------------- */
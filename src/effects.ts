@@ -0,0 +1,192 @@
+/**
+ * The visual effects timeline: what the board shows on top of the game while a lock plays out.
+ *
+ * Every effect is worked out from the last lock and the engine's frame count, never from the wall clock, so
+ * effects freeze while the game is paused, replay frame for frame, and look the same in every renderer.
+ * The rows a lock fills flash and are then wiped away from the centre during the line clear phase, the cells
+ * of a locked block flash for a few frames, a hard drop leaves a short trail, and a Tetris or a T-spin clear
+ * throws out particles. With reduced motion, the cleared rows only light up until they go, and nothing else moves.
+ * Every function here is pure.
+ */
+
+import { State } from "./engine";
+import type { PieceKey } from "./pieces";
+import { nextRandom } from "./randomizer";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * What an effect makes a cell show: a bright flash, or a fading hard drop trail.
+ */
+export type EffectLook = 'FLASH' | 'TRAIL';
+
+
+/**
+ * A cell of the board an effect is drawn over.
+ */
+export type EffectCell = Readonly<{
+  x: number;
+  y: number;
+
+  /**
+   * What the cell shows, or EMPTY when the effect wipes the cell out.
+   */
+  look: EffectLook | 'EMPTY';
+}>;
+
+
+/**
+ * A particle thrown out by a clear, in cell units from the top left of the board.
+ */
+export type Particle = Readonly<{
+  x: number;
+  y: number;
+
+  /**
+   * The radius of the particle, in cells.
+   */
+  size: number;
+
+  /**
+   * The type of the block whose clear threw it out, which gives its colour.
+   */
+  type: PieceKey;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Effects Configuration, in engine frames and cells.
+ *
+ * FLASH_FRAMES: How long each flash of the cleared rows lasts before they blink off, for the first half of the line clear.
+ * LOCK_FRAMES: How long the cells of a locked block flash.
+ * TRAIL_FRAMES: How long a hard drop trail takes to fade.
+ * PARTICLE_FRAMES: How long the particles of a clear fly for.
+ * PARTICLE_COUNT: How many particles a clear throws out.
+ * PARTICLE_SIZE: The radius of a new particle, which shrinks to nothing.
+ * PARTICLE_SPEED: The highest sideways and upwards speed of a particle, in cells per frame.
+ * GRAVITY: How fast particles fall back, in cells per frame per frame.
+ */
+export const Effects = {
+  FLASH_FRAMES: 3,
+  LOCK_FRAMES: 4,
+  TRAIL_FRAMES: 6,
+  PARTICLE_FRAMES: 30,
+  PARTICLE_COUNT: 24,
+  PARTICLE_SIZE: 0.25,
+  PARTICLE_SPEED: 0.3,
+  GRAVITY: 0.02,
+} as const;
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- EFFECTS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Gets the cells the rows filled by the last lock show during the line clear phase.
+ * Pure function.
+ * They flash on and off for the first half of the phase, then are wiped away from the centre column outwards.
+ * With reduced motion they stay lit until they are removed.
+ * @param s The state.
+ * @param reducedMotion Whether motion is reduced.
+ * @returns The cells of the cleared rows, or none outside the line clear phase.
+ */
+const clearingCells = (s: State, reducedMotion: boolean): EffectCell[] => {
+  if (s.phase !== 'LINE_CLEAR' || !s.lastLock) return [];
+
+  const progress = s.phaseTimer / Math.max(s.settings.lineClearDelayMs, 1);
+  const age = s.frame - s.lastLock.frame;
+  const lit = reducedMotion || Math.floor(age / Effects.FLASH_FRAMES) % 2 === 0;
+  const width = s.grid[0].length;
+  const centre = (width - 1) / 2;
+  const wiped = (x: number) => !reducedMotion && progress >= 0.5 && Math.abs(x - centre) < (progress - 0.5) * 2 * (centre + 1);
+
+  return s.lastLock.rows.flatMap(y => Array.from({ length: width }, (_, x): EffectCell => ({
+    x,
+    y,
+    look: wiped(x) ? 'EMPTY' : progress < 0.5 && !lit ? 'EMPTY' : 'FLASH',
+  })));
+};
+
+
+/**
+ * Gets the cells of the lock flash and of the hard drop trail of the last lock.
+ * Pure function.
+ * Both stay where the block locked, so they end as soon as cleared rows are removed and the board shifts.
+ * The trail runs up each column of the block to where it was dropped from, and shortens towards the block as it fades.
+ * @param s The state.
+ * @returns The cells of the lock flash and the trail, or none once they have faded.
+ */
+const lockCells = (s: State): EffectCell[] => {
+  const lock = s.lastLock;
+  if (!lock || (lock.rows.length > 0 && s.phase !== 'LINE_CLEAR')) return [];
+
+  const age = s.frame - lock.frame;
+  const flash = age < Effects.LOCK_FRAMES
+    ? lock.block.filter(p => !lock.rows.includes(p.y)).map((p): EffectCell => ({ x: p.x, y: p.y, look: 'FLASH' }))
+    : [];
+  const drop = lock.dropFrom && age < Effects.TRAIL_FRAMES ? lock.block[0].y - lock.dropFrom[0].y : 0;
+  const length = Math.ceil(drop * (1 - age / Effects.TRAIL_FRAMES));
+  const trail = lock.dropFrom && length > 0
+    ? lock.block.flatMap(p => Array.from({ length }, (_, i) => ({ x: p.x, y: p.y - 1 - i })))
+      .filter(({ x, y }) => y >= 0 && !lock.block.some(p => p.x === x && p.y === y) && s.grid[y][x] === 'EMPTY')
+      .map((cell): EffectCell => ({ ...cell, look: 'TRAIL' }))
+    : [];
+  return [...trail, ...flash];
+};
+
+
+/**
+ * Gets every cell an effect is drawn over.
+ * Pure function.
+ * @param s The state.
+ * @param reducedMotion Whether motion is reduced, leaving only the still cleared rows.
+ * @returns The cells, each at most once, the line clear over the lock flash over the trail.
+ */
+export const effectCells = (s: State, reducedMotion: boolean): EffectCell[] => {
+  const cells = [...(reducedMotion ? [] : lockCells(s)), ...clearingCells(s, reducedMotion)];
+  return cells.filter((cell, i) => !cells.slice(i + 1).some(later => later.x === cell.x && later.y === cell.y));
+};
+
+
+/**
+ * Gets the particles thrown out by the last lock, when it cleared a Tetris or cleared lines with a T-spin.
+ * Pure function.
+ * The particles start along the cleared rows with speeds drawn from a generator seeded by the frame of the lock,
+ * so they fly the same way every time the game is replayed.
+ * @param s The state.
+ * @param reducedMotion Whether motion is reduced, which shows no particles.
+ * @returns Where each particle is now, or none once they have landed.
+ */
+export const particlesOf = (s: State, reducedMotion: boolean): Particle[] => {
+  const lock = s.lastLock;
+  const age = lock ? s.frame - lock.frame : Effects.PARTICLE_FRAMES;
+  if (reducedMotion || !lock || !lock.clear || age >= Effects.PARTICLE_FRAMES) return [];
+  if (lock.clear.lines === 0 || (lock.clear.lines < 4 && lock.clear.spin === 'NONE')) return [];  // A T-spin without lines has no rows to throw from
+
+  const draws = Array.from({ length: Effects.PARTICLE_COUNT * 3 }).reduce<{ rng: number, values: number[] }>(acc => {
+    const [value, rng] = nextRandom(acc.rng);
+    return { rng, values: [...acc.values, value] };
+  }, { rng: lock.frame >>> 0, values: [] }).values;
+
+  return Array.from({ length: Effects.PARTICLE_COUNT }, (_, i): Particle => {
+    const [across, sideways, upwards] = draws.slice(i * 3, i * 3 + 3);
+    const row = lock.rows[i % lock.rows.length];
+    const vx = (sideways * 2 - 1) * Effects.PARTICLE_SPEED;
+    const vy = -upwards * Effects.PARTICLE_SPEED;
+    return {
+      x: across * s.grid[0].length + vx * age,
+      y: row + 0.5 + vy * age + Effects.GRAVITY * age * age / 2,
+      size: Effects.PARTICLE_SIZE * (1 - age / Effects.PARTICLE_FRAMES),
+      type: lock.type,
+    };
+  });
+};
+
+/** ---------------------------------------------------------------- END OF EFFECTS ------------------------------------------------------------------------------------------------- */
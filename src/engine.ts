@@ -0,0 +1,1424 @@
+/**
+ * The headless game engine.
+ *
+ * Everything that decides how the game plays lives here: the state, the actions, and the pure reducer
+ * that applies an action to a state. Nothing in this module touches the DOM or the clock, so a game can be
+ * created and stepped anywhere, e.g. in the browser (see main.ts), in Node (see cli.ts) or in unit tests.
+ *
+ * createGame starts a game, step applies one action, and toAscii prints the board.
+ */
+
+/** -------------------------------------------------------------- IMPORTS ----------------------------------------------------------------------------------------------------- */
+
+import { RandomizerKind, RandomizerState, createRandomizer, isRandomizerKind, isRandomizerState, nextPiece, nextRandom } from "./randomizer";
+import { Rotation, RotationState, isRotationState, rotateWithKicks } from "./srs";
+import { GravityCurve, getTickRate, isGravityCurve, levelForLines } from "./levels";
+import { GameMode, MODE_RULES, capLevel, isGameMode, isModeComplete } from "./modes";
+import { ClearEvent, ScoringState, detectTSpin, dropPoints, initialScoring, scoreLock } from "./scoring";
+import { Replay, ReplayEngine, createReplay, recordAction, recordFrame } from "./replay";
+import { PIECES, PIECE_SETS, PieceKey, PieceSetKind, isPieceKey, isPieceSetKind, spawnOrigin } from "./pieces";
+import { Puzzle, isPuzzle, isPuzzleSolved } from "./puzzle";
+import type { Block } from "./types";
+
+/** -------------------------------------------------------------- END OF IMPORTS ----------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------ */
+
+/** -------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Constants Configuration
+ *
+ * This object contains various constants used throughout the Tetris game.
+ *
+ * FRAME_MS: The interval in milliseconds at which the game state is updated (one engine frame).
+ * MIN_BOARD_WIDTH, MAX_BOARD_WIDTH: The narrowest and widest boards a game can be played on, in columns.
+ * MIN_BOARD_HEIGHT, MAX_BOARD_HEIGHT: The lowest and highest boards a game can be played on, in rows.
+ * LOCK_DELAY_MS: How long a block may rest on the stack before it locks.
+ * MAX_LOCK_RESETS: How many moves or rotations may restart the lock delay before the block locks on contact.
+ * NEXT_QUEUE_SIZE: How many upcoming blocks the next queue holds.
+ * GARBAGE_SALT: Mixed into the seed for the garbage holes, so they do not follow the pieces.
+ */
+export const Constants = {
+  FRAME_MS: 16,
+  MIN_BOARD_WIDTH: 6,
+  MAX_BOARD_WIDTH: 20,
+  MIN_BOARD_HEIGHT: 12,
+  MAX_BOARD_HEIGHT: 40,
+  LOCK_DELAY_MS: 500,
+  MAX_LOCK_RESETS: 15,
+  NEXT_QUEUE_SIZE: 6,
+  GARBAGE_SALT: 0x9e3779b9,
+} as const;
+
+
+/**
+ * Every action the game reducer understands. TICK is the engine clock; the others come from the player.
+ */
+export const ACTIONS = [
+  'TICK', 'LEFT', 'RIGHT', 'SOFT_DROP_START', 'SOFT_DROP_END', 'HARD_DROP',
+  'ROTATE_CW', 'ROTATE_CCW', 'ROTATE_180', 'HOLD', 'TOGGLE_GHOST', 'PAUSE', 'RESTART',
+] as const;
+
+
+/**
+ * The settings used unless others are requested (see GameSettings).
+ */
+export const DEFAULT_SETTINGS: GameSettings = {
+  mode: 'MARATHON',
+  randomizer: 'BAG_7',
+  gravityCurve: 'GUIDELINE',
+  startLevel: 1,
+  linesPerLevel: 10,
+  softDropFactor: 20,
+  lineClearDelayMs: 300,
+  entryDelayMs: 100,
+  boardWidth: 10,
+  boardHeight: 20,
+  pieceSet: 'TETROMINO',
+  puzzle: null,
+};
+
+/** -------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Represents the state of a cell: empty, garbage, or filled by a locked block of the given type.
+ */
+export type Cell = 'EMPTY' | 'GARBAGE' | PieceKey;
+
+
+/**
+ * Represents the game field as a 2D array of Cells, indexed by row then column.
+ */
+export type Board = Cell[][];
+
+
+/**
+ * Represents the settings a game is started with. Restarting keeps the same settings.
+ */
+export type GameSettings = Readonly<{
+  /**
+   * The game mode, which decides when the game is complete.
+   */
+  mode: GameMode;
+
+  /**
+   * The piece randomizer strategy.
+   */
+  randomizer: RandomizerKind;
+
+  /**
+   * The gravity curve that maps each level to a falling speed.
+   */
+  gravityCurve: GravityCurve;
+
+  /**
+   * The level the game starts on.
+   */
+  startLevel: number;
+
+  /**
+   * The number of cleared lines needed for each level-up.
+   */
+  linesPerLevel: number;
+
+  /**
+   * How many times faster the block falls while soft drop is held.
+   */
+  softDropFactor: number;
+
+  /**
+   * How long cleared rows stay on the board before the rows above fall into their place, in milliseconds.
+   */
+  lineClearDelayMs: number;
+
+  /**
+   * How long after a block locks (and after any line clear) the next block comes into play, in milliseconds (ARE).
+   */
+  entryDelayMs: number;
+
+  /**
+   * The number of columns of the board, between MIN_BOARD_WIDTH and MAX_BOARD_WIDTH.
+   */
+  boardWidth: number;
+
+  /**
+   * The number of rows of the board, between MIN_BOARD_HEIGHT and MAX_BOARD_HEIGHT.
+   */
+  boardHeight: number;
+
+  /**
+   * The set of pieces the randomizer draws from.
+   */
+  pieceSet: PieceSetKind;
+
+  /**
+   * The puzzle the game plays, or null for a game on an empty board with pieces from the randomizer.
+   * A puzzle replaces the board, the randomizer and the piece set with its own, and its board must be the size of the game's.
+   */
+  puzzle: Puzzle | null;
+}>;
+
+
+/**
+ * What the game is doing: a block is in play, cleared rows are waiting to be removed, or the next block is waiting to come into play.
+ */
+export type Phase = 'FALLING' | 'LINE_CLEAR' | 'ENTRY';
+
+
+/**
+ * Represents the last lock, which the renderer animates.
+ */
+export type LockEvent = Readonly<{
+  /**
+   * The frame the block locked on.
+   */
+  frame: number;
+
+  /**
+   * The cells of the block that locked, and its type.
+   */
+  block: Block;
+  type: PieceKey;
+
+  /**
+   * Where the block was before it was hard dropped, or null when it locked where it fell.
+   */
+  dropFrom: Block | null;
+
+  /**
+   * The rows the lock filled, top to bottom, as they were before they were cleared.
+   */
+  rows: readonly number[];
+
+  /**
+   * The clear scored by the lock, or null when it scored none.
+   */
+  clear: ClearEvent | null;
+}>;
+
+
+/**
+ * Represents the immutable state of the game.
+ */
+export type State = Readonly<{
+  /**
+   * Indicates whether the game has ended.
+   */
+  gameEnd: boolean;
+
+  /**
+   * Indicates whether the game ended by reaching the goal of its mode, rather than by topping out.
+   */
+  completed: boolean;
+
+  /**
+   * The current block in play, represented as an array of Points.
+   */
+  block: Block;
+
+  /**
+   * The grid representing the game field. Each cell records which type of block filled it.
+   */
+  grid: Board;
+
+  /**
+   * The player's current score.
+   */
+  score: number;
+
+  /**
+   * The highest score achieved in this game session.
+   */
+  highscore: number;
+
+  /**
+   * The types of the blocks that will come into play next, nearest first. It always holds NEXT_QUEUE_SIZE blocks,
+   * however many are shown: the queue only draws ahead of the randomizer, so it never changes the sequence.
+   */
+  nextQueue: readonly PieceKey[];
+
+  /**
+   * The total number of rows that have been cleared in this game.
+   */
+  clearedRows: number;
+
+  /**
+   * The number of blocks locked in this game.
+   */
+  pieces: number;
+
+  /**
+   * The current level of the game.
+   */
+  currentLevel: number;
+
+  /**
+   * The type of the current block in play.
+   */
+  currentBlockType: PieceKey;
+
+  /**
+   * The SRS rotation state of the current block in play.
+   */
+  rotation: RotationState;
+
+  /**
+   * The type of the block in the hold slot, or null when the slot is empty.
+   */
+  heldBlockType: PieceKey | null;
+
+  /**
+   * Indicates whether hold has already been used for the current block. Reset when the block locks.
+   */
+  holdUsed: boolean;
+
+  /**
+   * Indicates whether soft drop is held, which makes the block fall softDropFactor times faster.
+   */
+  softDropping: boolean;
+
+  /**
+   * Milliseconds accumulated towards the next gravity step.
+   */
+  gravityTimer: number;
+
+  /**
+   * Milliseconds the current block has been resting on the stack or the floor.
+   */
+  lockTimer: number;
+
+  /**
+   * How many times a move or rotation has restarted the lock delay since the block reached its lowest row.
+   */
+  lockResets: number;
+
+  /**
+   * The lowest row the bottom of the current block has reached, used to refill the lock resets.
+   */
+  lowestRow: number;
+
+  /**
+   * The kick used by the last successful rotation, or null if the block has moved or fallen since.
+   * Needed to recognise T-spins when the block locks.
+   */
+  lastKick: number | null;
+
+  /**
+   * The combo and back-to-back streaks used for scoring.
+   */
+  scoring: ScoringState;
+
+  /**
+   * The most recent scoring clear (e.g. "T-SPIN DOUBLE"), shown in the sidebar.
+   */
+  lastClear: ClearEvent | null;
+
+  /**
+   * Indicates whether the ghost piece (the landing position of the current block) is drawn.
+   */
+  showGhost: boolean;
+
+  /**
+   * Indicates whether the game is paused.
+   */
+  gamePaused: boolean;
+
+  /**
+   * The settings the game was started with.
+   */
+  settings: GameSettings;
+
+  /**
+   * The seed the game was started with. Restarting with the same seed replays the same piece sequence.
+   */
+  seed: number;
+
+  /**
+   * The state of the piece randomizer, which draws every new block.
+   */
+  randomizer: RandomizerState<PieceKey>;
+
+  /**
+   * The number of engine frames played (frames while paused or after the game ended are not counted).
+   */
+  frame: number;
+
+  /**
+   * The state of the pseudo random number generator that places the holes in garbage rows.
+   */
+  garbageRng: number;
+
+  /**
+   * Milliseconds accumulated towards the next garbage row, in modes where garbage rises on a timer.
+   */
+  garbageTimer: number;
+
+  /**
+   * The rows (top to bottom) holding the garbage the game started with that has not been cleared yet.
+   */
+  digRows: readonly number[];
+
+  /**
+   * What the game is doing. Only a FALLING block can be moved, rotated, dropped or held.
+   */
+  phase: Phase;
+
+  /**
+   * Milliseconds spent in the line clear or entry phase so far.
+   */
+  phaseTimer: number;
+
+  /**
+   * The last lock, or null before the first.
+   */
+  lastLock: LockEvent | null;
+}>;
+
+
+/**
+ * Represents an action that flows into the game reducer.
+ */
+export type Action = typeof ACTIONS[number];
+
+
+/**
+ * Represents a recorded game of this Tetris.
+ */
+export type GameReplay = Replay<GameSettings, Action>;
+
+
+/**
+ * Represents a live game together with its recording.
+ */
+export type Session = Readonly<{
+  /**
+   * The state of the game.
+   */
+  state: State;
+
+  /**
+   * The replay recorded since the game (re)started.
+   */
+  recording: GameReplay;
+}>;
+
+
+/**
+ * Represents how a game is created: its seed, and any settings that differ from DEFAULT_SETTINGS.
+ */
+export type GameConfig = Readonly<{
+  /**
+   * The seed for the piece randomizer.
+   */
+  seed: number;
+
+  /**
+   * The settings of the game. Missing settings take their default value.
+   */
+  settings?: Partial<GameSettings>;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- TETRONIMO OPERATIONS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates a block of the given type at its spawn position: centred on a board of the given width,
+ * with its top row of cells on the top row (see spawnOrigin).
+ * Pure function.
+ * It copies the points of the piece's shape, so PIECES is never modified.
+ * @param type The type of the block.
+ * @param width The width of the board.
+ * @returns A new block at the spawn position.
+ */
+export const spawnBlock = (type: PieceKey, width: number): Block => {
+  const origin = spawnOrigin(type, width);
+  return PIECES[type].cells.map(p => ({ x: origin.x + p.x, y: origin.y + p.y }));
+};
+
+
+/**
+ * Tops up the next queue with blocks drawn from the given randomizer.
+ * Pure function.
+ * The randomizer state is passed in and the advanced randomizer is returned alongside the queue,
+ * so the same queue and randomizer always produce the same blocks.
+ * It is recursive rather than looping, and returns a new array.
+ * @param queue The next queue.
+ * @param randomizer The randomizer to draw from.
+ * @returns The queue holding NEXT_QUEUE_SIZE blocks, and the next randomizer state.
+ */
+const fillQueue = (
+  queue: readonly PieceKey[],
+  randomizer: RandomizerState<PieceKey>
+): { queue: readonly PieceKey[], randomizer: RandomizerState<PieceKey> } => {
+  if (queue.length >= Constants.NEXT_QUEUE_SIZE) return { queue, randomizer };
+  const drawn = nextPiece(randomizer);
+  return fillQueue([...queue, drawn.piece], drawn.randomizer);
+};
+
+
+/**
+ * Takes the nearest block off the next queue, and draws one more to take the last place.
+ * Pure function.
+ * Every block that comes into play from the queue goes through here, so each lock or hold draws exactly once.
+ * @param queue The next queue.
+ * @param randomizer The randomizer to draw from.
+ * @param width The width of the board.
+ * @returns A new block at its spawn position, its type, the rest of the queue and the next randomizer state.
+ */
+const popQueue = (
+  queue: readonly PieceKey[],
+  randomizer: RandomizerState<PieceKey>,
+  width: number
+): { block: Block, type: PieceKey, queue: readonly PieceKey[], randomizer: RandomizerState<PieceKey> } => {
+  const [type, ...rest] = queue;
+  return { block: spawnBlock(type, width), type, ...fillQueue(rest, randomizer) };
+};
+
+/** ---------------------------------------------------------------- END OF TETRONIMO OPERATIONS ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------ */
+
+
+/** ---------------------------------------------------------------- GAME INITIALISATION ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Generates an empty game grid.
+ * Pure function.
+ * The function always returns the same output given the same input.
+ * It also doesn't have any side effects like altering global variables or performing I/O operations.
+ * The function returns a new array each time it is called. 
+ * The new array is constructed entirely within the function and does not modify or depend on external state.
+ * Functional programming style.
+ * Uses Array.from to generate the array, which is a more functional approach compared to using loops
+ * @param width The number of columns.
+ * @param height The number of rows.
+ * @returns An empty game grid.
+ */
+const emptyGrid = (width: number, height: number): Board => 
+  Array.from({ length: height }, () => Array(width).fill('EMPTY'));
+
+
+/**
+ * Sets the initial state of the game.
+ * Pure function.
+ * The same seed and settings always produce the same initial state: the first block comes off the next queue
+ * like every other, and every piece drawn afterwards follows from the randomizer stored in it.
+ * Functional programming style.
+ * Uses array methods like .fill and .map to generate new arrays, avoiding imperative loops.
+ * @param seed The seed for the piece randomizer.
+ * @param settings The settings of the game.
+ * @returns The initial state of the game.
+ */
+const initialState = (seed: number, settings: GameSettings = DEFAULT_SETTINGS): State => {
+  const { puzzle } = settings;
+  const { pieces, kind } = puzzle === null
+    ? { pieces: PIECE_SETS[settings.pieceSet].pieces, kind: settings.randomizer }
+    : { pieces: puzzle.queue, kind: 'FIXED' as const };
+  const drawn = fillQueue([], createRandomizer(kind, seed, pieces));
+  const { block, type, queue: nextQueue, randomizer } = popQueue(drawn.queue, drawn.randomizer, settings.boardWidth);
+  const { garbageRows } = MODE_RULES[settings.mode];
+  const board = puzzle === null ? emptyGrid(settings.boardWidth, settings.boardHeight) : puzzle.board.map(row => [...row]);
+  const garbage = garbageRowsFrom((seed ^ Constants.GARBAGE_SALT) >>> 0, garbageRows, settings.boardWidth);
+  return {
+    gameEnd: false,
+    completed: false,
+    block,
+    grid: [...board.slice(garbageRows), ...garbage.rows],
+    score: 0,
+    nextQueue,
+    highscore: 0,
+    clearedRows: 0,
+    pieces: 0,
+    currentLevel: settings.startLevel,
+    currentBlockType: type,
+    rotation: '0',
+    heldBlockType: null,
+    holdUsed: false,
+    softDropping: false,
+    gravityTimer: 0,
+    lockTimer: 0,
+    lockResets: 0,
+    lowestRow: blockBottom(block),
+    lastKick: null,
+    scoring: initialScoring,
+    lastClear: null,
+    frame: 0,
+    showGhost: true,
+    gamePaused: false,
+    settings,
+    seed,
+    randomizer,
+    garbageRng: garbage.rng,
+    garbageTimer: 0,
+    digRows: Array.from({ length: garbageRows }, (_, i) => settings.boardHeight - garbageRows + i),
+    phase: 'FALLING',
+    phaseTimer: 0,
+    lastLock: null,
+  };
+};
+
+/** ---------------------------------------------------------------- END OF GAME INITIALISATION ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- GAME MECHANICS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks if a given block will collide with either the bottom of the grid or another block.
+ * Pure function.
+ * Given the same block and grid inputs, it will always produce the same boolean output.
+ * The function reads from block and grid and does not modify them, so it is immutable in that sense.
+ * Functional programming style.
+ * It uses the .some() method, which is more functional in nature.
+ * @param block The block to check.
+ * @param grid The grid to check against.
+ * @returns True if the block will collide, false otherwise.
+ */
+export const willCollide = (block: Block, grid: Board): boolean => {
+  return block.some(point => {
+    const collidesWithBottom = point.y >= grid.length;
+    const collidesWithBlock = grid[point.y] !== undefined && grid[point.y][point.x] !== 'EMPTY';
+    return collidesWithBottom || collidesWithBlock;
+  });
+};
+
+
+/**
+ * Checks if a given block is out of the grid bounds, i.e. past the left or right wall.
+ * Pure function.
+ * Given the same input block and grid, the function will always produce the same boolean output. 
+ * The function only reads from the block and the grid but does not modify them or any other external state. 
+ * There are no side effects like I/O operations.
+ * Functional programming style.
+ * It uses the .some() method, which is more functional in nature.
+ * @param block The block to check.
+ * @param grid The grid whose width bounds the block.
+ * @returns True if the block is out of bounds, false otherwise.
+ */
+export const isOutOfBound = (block: Block, grid: Board): boolean => {
+  return block.some(point => point.x < 0 || point.x >= grid[0].length);
+};
+
+
+/**
+ * Checks whether a block is resting on the floor or the stack, i.e. it cannot fall any further.
+ * Pure function.
+ * It only reads the block and the grid, and builds the shifted block as a new array.
+ * @param block The block to check.
+ * @param grid The grid to check against.
+ * @returns True if the block cannot move down, false otherwise.
+ */
+const isGrounded = (block: Block, grid: Board): boolean =>
+  willCollide(block.map(p => ({ x: p.x, y: p.y + 1 })), grid);
+
+
+/**
+ * Gets the row of the lowest cell of a block.
+ * Pure function.
+ * @param block The block to measure.
+ * @returns The largest y coordinate in the block.
+ */
+const blockBottom = (block: Block): number => Math.max(...block.map(p => p.y));
+
+
+/**
+ * Moves a block down by up to a number of rows, stopping as soon as it is grounded.
+ * Pure function.
+ * It is recursive rather than looping, and returns the input block unchanged when it cannot fall.
+ * @param block The block to move.
+ * @param grid The grid to move it in.
+ * @param rows The maximum number of rows to fall.
+ * @returns The block after falling.
+ */
+const fall = (block: Block, grid: Board, rows: number): Block =>
+  rows <= 0 || isGrounded(block, grid) ? block : fall(block.map(p => ({ x: p.x, y: p.y + 1 })), grid, rows - 1);
+
+
+/**
+ * Clears the full rows from the grid, and returns the new grid along with the number of cleared rows.
+ * Pure function.
+ * Given the same grid, the function will always return the same output.
+ * Immutable function.
+ * The function generates a new array for newGrid and does not modify the original grid.
+ * Functional programming style.
+ * The function uses .filter() and Array.from() which are functional programming methods and avoid the need for loops.
+ */
+export const clearFullRows = (grid: Board): { newGrid: Board, clearedRows: number } => {
+
+  // Filter out the full rows
+  const remainingRows = grid.filter(row => row.some(cell => cell === 'EMPTY'));
+
+  // Calculate the number of cleared rows
+  const clearedRows = grid.length - remainingRows.length;
+
+  // Generate new empty rows
+  const emptyRows: Board = Array.from({ length: clearedRows }, () => new Array(grid[0].length).fill('EMPTY'));
+
+  // Concatenate new empty rows to the top of the filtered grid
+  return { newGrid: [...emptyRows, ...remainingRows], clearedRows };
+};
+
+
+/**
+ * Follows rows of the grid through a line clear.
+ * Pure function.
+ * Cleared rows are dropped, and every row above a cleared row moves down by one for each.
+ * @param rows The rows to follow.
+ * @param cleared The rows that were cleared.
+ * @returns Where the remaining rows are after the clear.
+ */
+const rowsAfterClear = (rows: readonly number[], cleared: readonly number[]): number[] =>
+  rows.filter(row => !cleared.includes(row)).map(row => row + cleared.filter(c => c > row).length);
+
+
+/**
+ * Builds rows of garbage, each filled apart from a single hole in a random column.
+ * Pure function.
+ * The generator state is passed in and the advanced state returned, so the same state always places the same holes.
+ * @param rng The state of the garbage generator.
+ * @param count The number of rows.
+ * @param width The number of columns of each row.
+ * @returns The rows, top to bottom, and the next generator state.
+ */
+const garbageRowsFrom = (rng: number, count: number, width: number): { rows: Board, rng: number } =>
+  Array.from({ length: count }).reduce<{ rows: Board, rng: number }>(
+    acc => {
+      const [value, next] = nextRandom(acc.rng);
+      const hole = Math.floor(value * width);
+      const row = Array.from({ length: width }, (_, x): Cell => (x === hole ? 'EMPTY' : 'GARBAGE'));
+      return { rows: [...acc.rows, row], rng: next };
+    },
+    { rows: [], rng }
+  );
+
+/* ---------------------------------------------------------------- END OF GAME MECHANICS ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- STATE MANAGEMENT ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Counts the pieces of a puzzle's queue that have not been dealt yet: not locked, not held and not in play.
+ * Pure function.
+ * @param s Current state
+ * @returns The pieces left, or null when the game is not a puzzle and its queue never runs out.
+ */
+export const piecesLeft = (s: State): number | null =>
+  s.settings.puzzle === null
+    ? null
+    : s.settings.puzzle.queue.length - s.pieces - (s.heldBlockType === null ? 0 : 1) - (s.phase === 'FALLING' ? 1 : 0);
+
+
+/**
+ * Brings a block into play at its spawn position.
+ * Pure function.
+ * It returns a new state with the rotation, gravity and lock delay of the previous block reset.
+ * @param s Current state
+ * @param block The block coming into play.
+ * @param type The type of that block.
+ * @returns Updated state
+ */
+const spawn = (s: State, block: Block, type: PieceKey): State => ({
+  ...s,
+  block,
+  currentBlockType: type,
+  rotation: '0',
+  gravityTimer: 0,
+  lockTimer: 0,
+  lockResets: 0,
+  lowestRow: blockBottom(block),
+  lastKick: null,
+});
+
+
+/**
+ * Locks the current block into the grid and scores it, then starts the line clear phase when it fills rows,
+ * or the entry phase when it does not.
+ *
+ * Immutable function.
+ * It creates a new array (updatedGrid) instead of altering the existing grid. 
+ * It also returns a new state object instead of mutating the existing one. 
+ * Pure function.
+ * The full rows stay on the board until the line clear phase ends, but they are scored straight away.
+ * 
+ * @param s Current state
+ * @param dropFrom Where the block was before it was hard dropped, or null when it locked where it fell.
+ * @returns Updated state
+ */
+const lockBlock = (s: State, dropFrom: Block | null = null): State => {
+  const spin = detectTSpin(s.block, s.currentBlockType, s.rotation, s.lastKick, p =>
+    isOutOfBound([p], s.grid) || willCollide([p], s.grid)
+  );
+
+  const updatedGrid = s.grid.map((row, y) =>
+    row.map((cell, x) => s.block.some(p => p.x === x && p.y === y) ? s.currentBlockType : cell)
+  );
+  if (updatedGrid[0].some(cell => cell !== 'EMPTY')) {
+    return { ...s, gameEnd: true, highscore: Math.max(s.highscore, s.score) };
+  }
+  
+  const { newGrid, clearedRows } = clearFullRows(updatedGrid);
+  const fullRows = updatedGrid.flatMap((row, y) => (row.every(cell => cell !== 'EMPTY') ? [y] : []));
+  const perfectClear = newGrid.every(row => row.every(cell => cell === 'EMPTY'));
+  const scored = scoreLock(s.scoring, { lines: clearedRows, spin, perfectClear, level: s.currentLevel });
+  const newScore = s.score + scored.points;
+  const totalRows = s.clearedRows + clearedRows;
+  const newLevel = capLevel(
+    s.settings.mode,
+    levelForLines(totalRows, s.settings.startLevel, s.settings.linesPerLevel),
+    s.settings.startLevel
+  );
+
+  return startPhase({
+    ...s,
+    grid: updatedGrid,
+    score: newScore,
+    scoring: scored.scoring,
+    lastClear: scored.event ?? s.lastClear,
+    clearedRows: totalRows,
+    pieces: s.pieces + 1,
+    currentLevel: newLevel,
+    lastLock: { frame: s.frame, block: s.block, type: s.currentBlockType, dropFrom, rows: fullRows, clear: scored.event ?? null },
+  }, clearedRows > 0 ? 'LINE_CLEAR' : 'ENTRY');
+};
+
+
+/**
+ * Removes the full rows from the board, letting the rows above fall into their place.
+ * Pure function.
+ * @param s Current state
+ * @returns Updated state
+ */
+const collapseRows = (s: State): State => {
+  const fullRows = s.grid.flatMap((row, y) => (row.every(cell => cell !== 'EMPTY') ? [y] : []));
+  return { ...s, grid: clearFullRows(s.grid).newGrid, digRows: rowsAfterClear(s.digRows, fullRows) };
+};
+
+
+/**
+ * Brings the nearest block of the next queue into play, or ends the game when it does not fit (block out).
+ * Once a puzzle's queue has run out, the held block comes into play instead, and after it the game ends.
+ * Pure function.
+ * @param s Current state
+ * @returns Updated state
+ */
+const spawnNext = (s: State): State => {
+  const width = s.grid[0].length;
+  const fromHold = piecesLeft(s) === 0;
+  const next = !fromHold
+    ? popQueue(s.nextQueue, s.randomizer, width)
+    : s.heldBlockType === null
+      ? null
+      : { block: spawnBlock(s.heldBlockType, width), type: s.heldBlockType, queue: s.nextQueue, randomizer: s.randomizer };
+  if (next === null || willCollide(next.block, s.grid)) {
+    return { ...s, gameEnd: true, highscore: Math.max(s.highscore, s.score) };
+  }
+
+  return {
+    ...spawn(s, next.block, next.type),
+    heldBlockType: fromHold ? null : s.heldBlockType,
+    nextQueue: next.queue,
+    holdUsed: false,
+    randomizer: next.randomizer,
+    phase: 'FALLING',
+    phaseTimer: 0,
+  };
+};
+
+
+/**
+ * Starts the line clear or the entry phase. A phase with no delay ends straight away, so with both delays
+ * at zero the next block comes into play on the same frame as the lock.
+ * Pure function.
+ * @param s Current state
+ * @param phase The phase to start.
+ * @returns Updated state
+ */
+const startPhase = (s: State, phase: Exclude<Phase, 'FALLING'>): State => {
+  const delay = phase === 'LINE_CLEAR' ? s.settings.lineClearDelayMs : s.settings.entryDelayMs;
+  if (delay > 0) return { ...s, phase, phaseTimer: 0 };
+  return phase === 'LINE_CLEAR' ? startPhase(collapseRows(s), 'ENTRY') : spawnNext({ ...s, phase });
+};
+
+
+/**
+ * Pushes rows of garbage up from the bottom of the board, each with a single hole in a random column.
+ * Pure function.
+ * The block in play rises just enough to stay clear of the stack. The game tops out when the push shoves
+ * locked cells off the top of the board, or leaves no room for the block in play.
+ * @param s The current state.
+ * @param count The number of garbage rows.
+ * @returns The state with the garbage added, or the ended state when the push tops out.
+ */
+export const pushGarbage = (s: State, count: number): State => {
+  if (s.gameEnd || count <= 0) return s;
+
+  const garbage = garbageRowsFrom(s.garbageRng, count, s.grid[0].length);
+  const grid = [...s.grid.slice(count), ...garbage.rows];
+  const raise = (block: Block) => block.map(p => ({ x: p.x, y: p.y - count }));
+  const lifted = s.phase !== 'FALLING'
+    ? raise(s.block)  // The block has locked, and rises with the stack
+    : Array.from({ length: count + 1 }, (_, dy) => s.block.map(p => ({ x: p.x, y: p.y - dy })))
+      .find(block => block.every(p => p.y >= 0) && !willCollide(block, grid));
+  const pushedOff = s.grid.slice(0, count).some(row => row.some(cell => cell !== 'EMPTY'));
+
+  if (pushedOff || lifted === undefined) {
+    return { ...s, grid, garbageRng: garbage.rng, gameEnd: true, highscore: Math.max(s.highscore, s.score) };
+  }
+
+  return {
+    ...s,
+    grid,
+    block: lifted,
+    garbageRng: garbage.rng,
+    lowestRow: blockBottom(lifted),
+    digRows: s.digRows.map(row => row - count),
+    lastLock: s.lastLock && {
+      ...s.lastLock,
+      block: raise(s.lastLock.block),
+      dropFrom: s.lastLock.dropFrom && raise(s.lastLock.dropFrom),
+      rows: s.lastLock.rows.map(row => row - count),
+    },
+  };
+};
+
+
+/**
+ * Updates the state by proceeding with one engine frame (Constants.FRAME_MS).
+ *
+ * In modes where garbage rises on a timer, the garbage timer counts up first and pushes a row when it expires.
+ * Between blocks, the line clear and entry phases count up until they end.
+ * Gravity accumulates time until the block falls a row (faster while soft drop is held).
+ * Once the block is grounded, the lock delay counts up and the block locks when it expires,
+ * or straight away when every lock reset has been used.
+ * Pure function.
+ * Time is only ever counted in frames, so the same state always produces the same next state.
+ * Immutable function.
+ * It returns a new state object instead of mutating the existing one.
+ * 
+ * @param s Current state
+ * @returns Updated state
+ */
+const tick = (s: State): State => {
+
+  if (s.gameEnd || s.gamePaused) return s;
+
+  const advance = (state: State) => (state.phase === 'FALLING' ? fallTick(state) : phaseTick(state));
+  const interval = MODE_RULES[s.settings.mode].garbageIntervalMs;
+  if (interval === null) return advance(s);
+
+  const timer = s.garbageTimer + Constants.FRAME_MS;
+  const risen = timer >= interval ? pushGarbage({ ...s, garbageTimer: timer - interval }, 1) : { ...s, garbageTimer: timer };
+  return risen.gameEnd ? { ...risen, frame: s.frame + 1 } : advance(risen);
+};
+
+
+/**
+ * Moves the line clear or entry phase on by one engine frame: the full rows are removed when the line clear
+ * delay runs out, and the next block comes into play when the entry delay runs out.
+ * Pure function.
+ * @param s Current state
+ * @returns Updated state
+ */
+const phaseTick = (s: State): State => {
+  const timer = s.phaseTimer + Constants.FRAME_MS;
+  const counted = { ...s, frame: s.frame + 1, phaseTimer: timer };
+  if (s.phase === 'LINE_CLEAR') {
+    return timer >= s.settings.lineClearDelayMs ? startPhase(collapseRows(counted), 'ENTRY') : counted;
+  }
+  return timer >= s.settings.entryDelayMs ? spawnNext(counted) : counted;
+};
+
+
+/**
+ * Moves the block in play on by one engine frame: gravity, then the lock delay.
+ * Pure function.
+ * @param s Current state
+ * @returns Updated state
+ */
+const fallTick = (s: State): State => {
+
+  const gravity = getTickRate(s.currentLevel, s.settings.gravityCurve, Constants.FRAME_MS, s.grid.length)
+    / (s.softDropping ? s.settings.softDropFactor : 1);
+  const elapsed = s.gravityTimer + Constants.FRAME_MS;
+  const rows = Math.floor(elapsed / gravity);
+  const fallen = fall(s.block, s.grid, rows);
+  const bottom = blockBottom(fallen);
+  const rowsFallen = bottom - blockBottom(s.block);
+
+  const moved: State = {
+    ...s,
+    frame: s.frame + 1,
+    block: fallen,
+    score: s.score + (s.softDropping ? dropPoints(rowsFallen, false) : 0),
+    lastKick: fallen === s.block ? s.lastKick : null,
+    gravityTimer: elapsed - rows * gravity,
+    lockTimer: fallen === s.block ? s.lockTimer : 0,
+    lowestRow: Math.max(bottom, s.lowestRow),
+    lockResets: bottom > s.lowestRow ? 0 : s.lockResets,  // Reaching a new row refills the lock resets
+  };
+
+  if (!isGrounded(fallen, s.grid)) return moved;
+
+  const lockTimer = moved.lockTimer + Constants.FRAME_MS;
+  return lockTimer >= Constants.LOCK_DELAY_MS || moved.lockResets >= Constants.MAX_LOCK_RESETS
+    ? lockBlock(moved)
+    : { ...moved, lockTimer, gravityTimer: 0 };
+};
+
+
+/** ---------------------------------------------------------------- END OF STATE MANAGEMENT ------------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- BLOCK MANIPULATIONS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks whether a block is a legal position: inside the walls and not overlapping the floor or the stack.
+ * Pure function.
+ * It only combines isOutOfBound and willCollide, neither of which modifies its inputs.
+ * @param block The block to check.
+ * @param grid The grid to check against.
+ * @returns True if the block fits, false otherwise.
+ */
+const fitsGrid = (block: Block, grid: Board): boolean =>
+  !isOutOfBound(block, grid) && !willCollide(block, grid);
+
+
+/**
+ * Finds where a block would land if it fell straight down.
+ * Pure function.
+ * The block is moved down one row at a time, recursively, until the next row would collide.
+ * It never modifies the input block, and the result only depends on the block and the grid.
+ * @param block The block to drop.
+ * @param grid The grid to drop it onto.
+ * @returns The block at its landing row.
+ */
+export const dropPosition = (block: Block, grid: Board): Block => {
+  const below = block.map(p => ({ x: p.x, y: p.y + 1 }));
+  return willCollide(below, grid) ? block : dropPosition(below, grid);
+};
+
+
+/**
+ * Drops the current block to its landing row and locks it immediately.
+ * Pure function.
+ * Points are awarded for every row the block falls, then the block locks without waiting for the lock delay.
+ * @param s The current state.
+ * @returns The state after the block has locked.
+ */
+const hardDrop = (s: State): State => {
+  const landed = dropPosition(s.block, s.grid);
+  const distance = landed[0].y - s.block[0].y;
+  return lockBlock({
+    ...s,
+    block: landed,
+    score: s.score + dropPoints(distance, true),
+    lastKick: distance > 0 ? null : s.lastKick,
+  }, s.block);
+};
+
+
+/**
+ * Restarts the lock delay after a successful move or rotation, while the block is grounded
+ * and lock resets remain.
+ * Pure function.
+ * @param s The state after the move or rotation.
+ * @returns The state with the lock delay restarted, or the unchanged state.
+ */
+const resetLockDelay = (s: State): State =>
+  isGrounded(s.block, s.grid) && s.lockResets < Constants.MAX_LOCK_RESETS
+    ? { ...s, lockTimer: 0, lockResets: s.lockResets + 1 }
+    : s;
+
+
+/**
+ * Moves the current block sideways by one column, as soon as the input arrives.
+ * Pure function.
+ * It returns a new state object and never modifies the input state.
+ * @param s The current state.
+ * @param dx The column offset, -1 for left and 1 for right.
+ * @returns The state with the moved block, or the unchanged state if the block is blocked.
+ */
+const moveBlock = (s: State, dx: number): State => {
+  const moved = s.block.map(p => ({ x: p.x + dx, y: p.y }));
+  return fitsGrid(moved, s.grid) ? resetLockDelay({ ...s, block: moved, lastKick: null }) : s;
+};
+
+
+/**
+ * Rotates the current block with the Super Rotation System, kicking it off walls and the stack when needed.
+ * Pure function.
+ * Given the same state and rotation, the function will always return the same output.
+ * It returns a new state object and never modifies the input state.
+ * @param s The current state.
+ * @param rotation The rotation to apply.
+ * @returns The state with the rotated block, or the unchanged state if no kick fits.
+ */
+const rotateBlock = (s: State, rotation: Rotation): State => {
+  const result = rotateWithKicks(s.block, s.currentBlockType, s.rotation, rotation, block => fitsGrid(block, s.grid));
+  return result ? resetLockDelay({ ...s, block: result.block, rotation: result.rotation, lastKick: result.kick }) : s;
+};
+
+/**
+ * Moves the current block into the hold slot.
+ * Pure function.
+ * The held block (or, when the slot is empty, the nearest block of the next queue) comes into play at its spawn position.
+ * Hold can only be used once per block: it is rejected until the current block locks,
+ * and also when the incoming block would not fit, or when the slot is empty and a puzzle has no pieces left to bring in.
+ * @param s The current state.
+ * @returns The state after holding, or the unchanged state if hold is not allowed.
+ */
+const holdBlock = (s: State): State => {
+  if (s.holdUsed || (s.heldBlockType === null && piecesLeft(s) === 0)) return s;
+
+  const incoming = s.heldBlockType === null
+    ? popQueue(s.nextQueue, s.randomizer, s.grid[0].length)
+    : { block: spawnBlock(s.heldBlockType, s.grid[0].length), type: s.heldBlockType, queue: s.nextQueue, randomizer: s.randomizer };
+
+  if (!fitsGrid(incoming.block, s.grid)) return s;
+
+  return {
+    ...spawn(s, incoming.block, incoming.type),
+    heldBlockType: s.currentBlockType,
+    holdUsed: true,
+    nextQueue: incoming.queue,
+    randomizer: incoming.randomizer,
+  };
+};
+
+/** ---------------------------------------------------------------- END OF BLOCK MANIPULATIONS ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------ */
+
+
+/** ---------------------------------------------------------------- ACTIONS AND REPLAYS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks whether a value is an Action.
+ * Pure function.
+ * @param value The value to check, e.g. an event from an input stream or an entry of an imported replay.
+ * @returns True if the value is an Action.
+ */
+export const isAction = (value: unknown): value is Action => (ACTIONS as readonly unknown[]).includes(value);
+
+
+/**
+ * Checks whether a value is valid GameSettings.
+ * Pure function.
+ * @param value The value to check, e.g. the settings of an imported replay.
+ * @returns True if the value is GameSettings.
+ */
+export const isGameSettings = (value: unknown): value is GameSettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const {
+    mode, randomizer, gravityCurve, startLevel, linesPerLevel, softDropFactor, lineClearDelayMs, entryDelayMs,
+    boardWidth, boardHeight, pieceSet, puzzle,
+  } = value as Record<string, unknown>;
+  const isDelay = (ms: unknown) => typeof ms === 'number' && Number.isFinite(ms) && ms >= 0;
+  const isBetween = (n: unknown, min: number, max: number) => Number.isInteger(n) && (n as number) >= min && (n as number) <= max;
+  return isGameMode(mode)
+    && isRandomizerKind(randomizer)
+    && isGravityCurve(gravityCurve)
+    && Number.isInteger(startLevel) && (startLevel as number) > 0
+    && Number.isInteger(linesPerLevel) && (linesPerLevel as number) > 0
+    && typeof softDropFactor === 'number' && Number.isFinite(softDropFactor) && softDropFactor >= 1
+    && isDelay(lineClearDelayMs) && isDelay(entryDelayMs)
+    && isBetween(boardWidth, Constants.MIN_BOARD_WIDTH, Constants.MAX_BOARD_WIDTH)
+    && isBetween(boardHeight, Constants.MIN_BOARD_HEIGHT, Constants.MAX_BOARD_HEIGHT)
+    && isPieceSetKind(pieceSet)
+    && (puzzle === null || (isPuzzle(puzzle) && puzzle.board.length === boardHeight && puzzle.board[0].length === boardWidth));
+};
+
+
+/**
+ * Checks whether a value is a block: a non-empty array of points with whole coordinates.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a Block.
+ */
+const isBlock = (value: unknown): value is Block =>
+  Array.isArray(value) && value.length > 0 && value.every(p =>
+    typeof p === 'object' && p !== null && Number.isInteger(p.x) && Number.isInteger(p.y)
+  );
+
+
+/**
+ * Checks whether a value is a board of the size given by the settings, holding only valid cells.
+ * Pure function.
+ * @param value The value to check.
+ * @param settings The settings of the game the board belongs to.
+ * @returns True if the value is a Board.
+ */
+const isBoard = (value: unknown, settings: GameSettings): value is Board =>
+  Array.isArray(value) && value.length === settings.boardHeight && value.every(row =>
+    Array.isArray(row) && row.length === settings.boardWidth
+      && row.every(cell => cell === 'EMPTY' || cell === 'GARBAGE' || isPieceKey(cell))
+  );
+
+
+/**
+ * Checks whether a value is a LockEvent.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a LockEvent.
+ */
+const isLockEvent = (value: unknown): value is LockEvent => {
+  if (typeof value !== 'object' || value === null) return false;
+  const lock = value as Record<string, unknown>;
+  const clear = lock.clear as Record<string, unknown> | null;
+  return Number.isInteger(lock.frame) && (lock.frame as number) >= 0
+    && isBlock(lock.block) && isPieceKey(lock.type)
+    && (lock.dropFrom === null || isBlock(lock.dropFrom))
+    && Array.isArray(lock.rows) && lock.rows.every(row => Number.isInteger(row))
+    && (clear === null || (typeof clear === 'object' && Number.isInteger(clear.lines) && typeof clear.label === 'string'));
+};
+
+
+/**
+ * Checks whether a value is a valid game State, e.g. one restored from a saved game.
+ * Pure function.
+ * Every field is checked, so a state that passes can be handed to step without crashing it.
+ * @param value The value to check.
+ * @returns True if the value is a State.
+ */
+export const isState = (value: unknown): value is State => {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Record<string, unknown>;
+  const isCount = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+  const isTime = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+  const isFlag = (b: unknown) => typeof b === 'boolean';
+  const scoring = s.scoring as Record<string, unknown> | null;
+  const lastClear = s.lastClear as Record<string, unknown> | null;
+
+  return [s.gameEnd, s.completed, s.holdUsed, s.softDropping, s.showGhost, s.gamePaused].every(isFlag)
+    && [s.score, s.highscore, s.clearedRows, s.pieces, s.frame, s.lockResets, s.lowestRow, s.seed, s.garbageRng].every(isCount)
+    && [s.gravityTimer, s.lockTimer, s.garbageTimer, s.phaseTimer].every(isTime)
+    && (s.phase === 'FALLING' || s.phase === 'LINE_CLEAR' || s.phase === 'ENTRY')
+    && (s.lastLock === null || isLockEvent(s.lastLock))
+    && isGameSettings(s.settings)
+    && Array.isArray(s.digRows) && s.digRows.every(row => isCount(row) && row < (s.settings as GameSettings).boardHeight)
+    && isCount(s.currentLevel) && (s.currentLevel as number) > 0
+    && isBlock(s.block) && isBoard(s.grid, s.settings as GameSettings) && isPieceKey(s.currentBlockType)
+    && Array.isArray(s.nextQueue) && s.nextQueue.length === Constants.NEXT_QUEUE_SIZE && s.nextQueue.every(isPieceKey)
+    && (s.heldBlockType === null || isPieceKey(s.heldBlockType))
+    && isRotationState(s.rotation)
+    && (s.lastKick === null || isCount(s.lastKick))
+    && typeof scoring === 'object' && scoring !== null
+    && Number.isInteger(scoring.combo) && (scoring.combo as number) >= -1 && isFlag(scoring.backToBack)
+    && (lastClear === null || (typeof lastClear === 'object' && typeof lastClear.label === 'string'))
+    && isRandomizerState(s.randomizer, isPieceKey);
+};
+
+
+/**
+ * Ends the game once it has reached the goal of its mode (e.g. the 40 lines of Sprint, or the 2 minutes of Ultra),
+ * or of its puzzle.
+ * Pure function.
+ * The clock is the frame count, so the same game always completes on the same frame.
+ * @param s The state after an action.
+ * @returns The completed state, or the unchanged state if the game carries on.
+ */
+const completeMode = (s: State): State =>
+  !s.gameEnd && (
+    isModeComplete(s.settings.mode, { lines: s.clearedRows, timeMs: s.frame * Constants.FRAME_MS, garbageLeft: s.digRows.length })
+    || (s.settings.puzzle !== null && isPuzzleSolved(s.settings.puzzle.goal, { lines: s.clearedRows, clear: s.lastLock?.clear ?? null }))
+  )
+    ? { ...s, gameEnd: true, completed: true, highscore: Math.max(s.highscore, s.score) }
+    : s;
+
+
+/**
+ * Checks whether the player can control the block: a block is in play, and the game is neither paused nor over.
+ * Pure function.
+ * @param s The state.
+ * @returns True if moves, rotations, drops and holds apply.
+ */
+const inControl = (s: State): boolean => !s.gameEnd && !s.gamePaused && s.phase === 'FALLING';
+
+
+/**
+ * Applies one action, without checking the goal of the game mode.
+ * Pure function.
+ * Functional programming style.
+ * It uses a switch expression rather than mutation, delegating to the pure state functions.
+ * @param state The current state.
+ * @param action The action to apply.
+ * @returns The next state.
+ */
+const applyAction = (state: State, action: Action): State => {
+  switch (action) {
+    case 'TICK':
+      return tick(state);
+      
+    case 'LEFT':
+      return inControl(state) ? moveBlock(state, -1) : state;
+
+    case 'RIGHT':
+      return inControl(state) ? moveBlock(state, 1) : state;
+
+    case 'SOFT_DROP_START':
+      return { ...state, softDropping: true };
+
+    case 'SOFT_DROP_END':
+      return state.softDropping ? { ...state, softDropping: false } : state;
+      
+    case 'RESTART':
+      return { ...initialState(state.seed, state.settings), highscore: state.highscore, showGhost: state.showGhost };
+
+    case 'ROTATE_CW':
+      return inControl(state) ? rotateBlock(state, 'CW') : state;
+
+    case 'ROTATE_CCW':
+      return inControl(state) ? rotateBlock(state, 'CCW') : state;
+
+    case 'ROTATE_180':
+      return inControl(state) ? rotateBlock(state, '180') : state;
+
+    case 'HARD_DROP':
+      return inControl(state) ? hardDrop(state) : state;
+
+    case 'TOGGLE_GHOST':
+      return { ...state, showGhost: !state.showGhost };
+
+    case 'HOLD':
+      return inControl(state) ? holdBlock(state) : state;
+
+    case 'PAUSE':
+      return { ...state, gamePaused: !state.gamePaused };  // Toggle the pause state
+  }
+};
+
+
+/**
+ * Applies an action to the game state. This is the reducer of the game$ scan, and is reused for replay playback.
+ * Pure function.
+ * Given the same state and action, it will always return the same state; it never modifies its input.
+ * The goal of the game mode is checked after every action, so a game completed by a hard drop ends straight away.
+ * @param state The current state.
+ * @param action The action to apply.
+ * @returns The next state.
+ */
+export const step = (state: State, action: Action): State => completeMode(applyAction(state, action));
+
+
+/**
+ * How replays drive this game: from the initial state, through step, one TICK per frame.
+ */
+export const REPLAY_ENGINE: ReplayEngine<State, GameSettings, Action> = {
+  init: initialState,
+  reduce: step,
+  frameOf: s => s.frame,
+  tick: 'TICK',
+};
+
+
+/**
+ * Starts a live game and its recording.
+ * Pure function.
+ * @param seed The seed of the game.
+ * @param settings The settings of the game.
+ * @returns The new session.
+ */
+export const startSession = (seed: number, settings: GameSettings): Session => ({
+  state: initialState(seed, settings),
+  recording: createReplay(seed, settings),
+});
+
+
+/**
+ * Applies an action to a live game and records it.
+ * Pure function.
+ * Each action is stamped with the frame it arrived on; TICK only extends the recorded length.
+ * Actions that leave the state unchanged (e.g. auto shift against a wall) are not recorded,
+ * since replaying them would change nothing. Restarting begins a new recording, since the previous game is over.
+ * @param session The current session.
+ * @param action The action to apply.
+ * @returns The next session.
+ */
+export const recordStep = (session: Session, action: Action): Session => {
+  const state = step(session.state, action);
+  switch (action) {
+    case 'TICK':
+      return { state, recording: recordFrame(session.recording, state.frame) };
+    case 'RESTART':
+      return { state, recording: createReplay(state.seed, state.settings) };
+    default:
+      return state === session.state
+        ? session
+        : { state, recording: recordAction(session.recording, session.state.frame, action) };
+  }
+};
+
+/** ---------------------------------------------------------------- END OF ACTIONS AND REPLAYS ------------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+
+/** ---------------------------------------------------------------- ENGINE API ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates a new game.
+ * Pure function.
+ * The same config always creates the same game, and so does stepping it with the same actions.
+ * @param config The seed and settings of the game.
+ * @returns The initial state of the game.
+ */
+export const createGame = (config: GameConfig): State =>
+  initialState(config.seed, { ...DEFAULT_SETTINGS, ...config.settings });
+
+
+/**
+ * The character printed for each kind of locked cell by toAscii.
+ * A pentomino or a tromino prints the letter of its shape, so it may share a character with a tetromino.
+ */
+const ASCII_CELLS: Readonly<Record<Cell, string>> = {
+  EMPTY: '.',
+  GARBAGE: 'G',
+  I: 'I',
+  O: 'O',
+  T: 'T',
+  S: 'S',
+  Z: 'Z',
+  J: 'J',
+  L: 'L',
+  F5: 'F',
+  I5: 'I',
+  L5: 'L',
+  N5: 'N',
+  P5: 'P',
+  T5: 'T',
+  U5: 'U',
+  V5: 'V',
+  W5: 'W',
+  X5: 'X',
+  Y5: 'Y',
+  Z5: 'Z',
+  I3: 'I',
+  V3: 'V',
+};
+
+
+/**
+ * Prints the board as text, one line per row.
+ * Pure function.
+ * Locked cells show their block type in upper case, the block in play shows in lower case,
+ * and empty cells are dots.
+ * Functional programming style.
+ * It uses .map() and .join() rather than loops.
+ * @param s The state to print.
+ * @returns The board as text.
+ */
+export const toAscii = (s: State): string =>
+  s.grid.map((row, y) =>
+    row.map((cell, x) =>
+      !s.gameEnd && s.phase === 'FALLING' && s.block.some(p => p.x === x && p.y === y) ? ASCII_CELLS[s.currentBlockType].toLowerCase() : ASCII_CELLS[cell]
+    ).join('')
+  ).join('\n');
+
+/** ---------------------------------------------------------------- END OF ENGINE API ------------------------------------------------------------------------------------------------- */
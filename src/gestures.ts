@@ -0,0 +1,266 @@
+/**
+ * Touch and pointer controls: drag to move, tap to rotate, swipe down to drop and swipe up to hold (or pause).
+ *
+ * The recognizer follows one pointer at a time and turns its samples into the same control presses and releases
+ * the keyboard sends, so gestures go through the controller and the recording like any key. Every function here
+ * is pure: the pointer being followed is carried in a GestureState, and pointer events are read into plain samples.
+ */
+
+import { Control, InputEvent } from "./input";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The thresholds gestures are recognized with. Distances are in CSS pixels, times in milliseconds.
+ */
+export type GestureSettings = Readonly<{
+  /**
+   * How far a horizontal drag goes for each cell the block moves.
+   */
+  dragCell: number;
+
+  /**
+   * How far a pointer may wander and still count as a tap.
+   */
+  tapDistance: number;
+
+  /**
+   * How long a pointer may stay down and still count as a tap.
+   */
+  tapTime: number;
+
+  /**
+   * How far a vertical swipe must go.
+   */
+  swipeDistance: number;
+
+  /**
+   * How long a swipe may take to count as a flick (a hard drop, or the swipe up action).
+   * A slower swipe down soft drops instead, until the pointer is lifted.
+   */
+  flickTime: number;
+
+  /**
+   * The control a flick upwards presses.
+   */
+  swipeUp: SwipeUpControl;
+}>;
+
+
+/**
+ * The thresholds of a gesture that can be tuned.
+ */
+export type GestureThreshold = Exclude<keyof GestureSettings, 'swipeUp'>;
+
+
+/**
+ * A control a flick upwards can press.
+ */
+export type SwipeUpControl = typeof SWIPE_UP_CONTROLS[number];
+
+
+/**
+ * A pointer event, reduced to what the recognizer reads.
+ */
+export type PointerSample = Readonly<{
+  kind: 'DOWN' | 'MOVE' | 'UP' | 'CANCEL';
+
+  /**
+   * The pointer, so a second finger does not disturb the first.
+   */
+  id: number;
+
+  x: number;
+  y: number;
+
+  /**
+   * When the event happened, in milliseconds.
+   */
+  time: number;
+}>;
+
+
+/**
+ * The fields of a PointerEvent the recognizer reads, so synthetic events can be fed to it.
+ */
+export type PointerLike = Pick<PointerEvent, 'type' | 'pointerId' | 'clientX' | 'clientY' | 'timeStamp'>;
+
+
+/**
+ * Represents the immutable state of the recognizer: the pointer being followed, or null when none is down.
+ */
+export type GestureState = Stroke | null;
+
+
+/**
+ * A pointer being followed, from the moment it went down.
+ */
+type Stroke = Readonly<{
+  id: number;
+
+  /**
+   * Where and when the pointer went down.
+   */
+  x: number;
+  y: number;
+  time: number;
+
+  /**
+   * The direction the stroke has locked to, once it has gone far enough. A stroke never changes direction.
+   */
+  axis: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+
+  /**
+   * The cells the block has been moved so far, negative to the left.
+   */
+  shifted: number;
+
+  /**
+   * Whether the stroke is holding soft drop down.
+   */
+  softDropping: boolean;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * The controls a flick upwards can press.
+ */
+export const SWIPE_UP_CONTROLS = ['HOLD', 'PAUSE'] as const;
+
+
+/**
+ * The thresholds until the player tunes them.
+ */
+export const DEFAULT_GESTURES: GestureSettings = {
+  dragCell: 24,
+  tapDistance: 10,
+  tapTime: 250,
+  swipeDistance: 48,
+  flickTime: 200,
+  swipeUp: 'HOLD',
+};
+
+
+/**
+ * The range each threshold can be tuned in, and its name as shown in the controls.
+ */
+export const GESTURE_THRESHOLDS: Readonly<Record<GestureThreshold, Readonly<{ name: string, min: number, max: number }>>> = {
+  dragCell: { name: 'Drag per cell (px)', min: 8, max: 96 },
+  tapDistance: { name: 'Tap distance (px)', min: 0, max: 40 },
+  tapTime: { name: 'Tap time (ms)', min: 50, max: 1000 },
+  swipeDistance: { name: 'Swipe distance (px)', min: 16, max: 200 },
+  flickTime: { name: 'Flick time (ms)', min: 50, max: 1000 },
+};
+
+
+/**
+ * The recognizer before any pointer is down.
+ */
+export const initialGesture: GestureState = null;
+
+
+/**
+ * The sample kind of each pointer event type.
+ */
+const SAMPLE_KINDS: Readonly<Record<string, PointerSample['kind']>> = {
+  pointerdown: 'DOWN',
+  pointermove: 'MOVE',
+  pointerup: 'UP',
+  pointercancel: 'CANCEL',
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- RECOGNIZER ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks whether a value is a control a flick upwards can press.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a SwipeUpControl.
+ */
+export const isSwipeUpControl = (value: unknown): value is SwipeUpControl =>
+  (SWIPE_UP_CONTROLS as readonly unknown[]).includes(value);
+
+
+/**
+ * Reads a pointer event into a sample.
+ * Pure function.
+ * @param evt The pointer event, or anything with the same fields.
+ * @returns The sample, or undefined for an event type the recognizer does not follow.
+ */
+export const pointerSample = (evt: PointerLike): PointerSample | undefined => {
+  const kind = SAMPLE_KINDS[evt.type];
+  return kind && { kind, id: evt.pointerId, x: evt.clientX, y: evt.clientY, time: evt.timeStamp };
+};
+
+
+/**
+ * Presses and releases a control, as a quick key press would.
+ * Pure function.
+ * @param control The control.
+ * @returns The press and the release.
+ */
+const press = (control: Control): InputEvent[] => [{ kind: 'DOWN', control }, { kind: 'UP', control }];
+
+
+/**
+ * Reacts to a pointer sample.
+ * Pure function.
+ * A stroke locks to the horizontal once it has been dragged a cell sideways, then moves the block one cell for
+ * each cell dragged (back again when dragged back). It locks to the vertical once it has been swiped far enough
+ * up or down: lifted within the flick time it hard drops (down) or presses the swipe up control (up), and when
+ * still moving down after the flick time it soft drops until lifted. A stroke that stays short and quick is a tap,
+ * which rotates clockwise. Samples of any pointer but the one being followed are ignored.
+ * @param gesture The recognizer so far.
+ * @param sample The pointer sample.
+ * @param settings The thresholds.
+ * @returns The updated recognizer, and the control presses and releases to feed the controller in order.
+ */
+export const stepGesture = (
+  gesture: GestureState,
+  sample: PointerSample,
+  settings: GestureSettings
+): { gesture: GestureState, events: InputEvent[] } => {
+  if (sample.kind === 'DOWN') {
+    return gesture === null
+      ? { gesture: { id: sample.id, x: sample.x, y: sample.y, time: sample.time, axis: 'NONE', shifted: 0, softDropping: false }, events: [] }
+      : { gesture, events: [] };
+  }
+  if (gesture === null || sample.id !== gesture.id) return { gesture, events: [] };
+
+  const release: InputEvent[] = gesture.softDropping ? [{ kind: 'UP', control: 'SOFT_DROP' }] : [];
+  if (sample.kind === 'CANCEL') return { gesture: null, events: release };
+
+  const dx = sample.x - gesture.x;
+  const dy = sample.y - gesture.y;
+  const elapsed = sample.time - gesture.time;
+  const axis = gesture.axis !== 'NONE' ? gesture.axis
+    : Math.abs(dx) >= settings.dragCell && Math.abs(dx) >= Math.abs(dy) ? 'HORIZONTAL'
+    : Math.abs(dy) >= settings.swipeDistance && Math.abs(dy) > Math.abs(dx) ? 'VERTICAL'
+    : 'NONE';
+  const shifted = axis === 'HORIZONTAL' ? Math.trunc(dx / settings.dragCell) : gesture.shifted;
+  const moves = Array.from({ length: Math.abs(shifted - gesture.shifted) }, () => press(shifted > gesture.shifted ? 'RIGHT' : 'LEFT')).flat();
+
+  if (sample.kind === 'MOVE') {
+    const softDrop = axis === 'VERTICAL' && dy > 0 && elapsed > settings.flickTime && !gesture.softDropping;
+    return {
+      gesture: { ...gesture, axis, shifted, softDropping: gesture.softDropping || softDrop },
+      events: softDrop ? [...moves, { kind: 'DOWN', control: 'SOFT_DROP' }] : moves,
+    };
+  }
+
+  const flick = axis === 'VERTICAL' && !gesture.softDropping && elapsed <= settings.flickTime;
+  const tap = axis === 'NONE' && elapsed <= settings.tapTime && Math.hypot(dx, dy) <= settings.tapDistance;
+  const finish = flick ? press(dy > 0 ? 'HARD_DROP' : settings.swipeUp) : tap ? press('ROTATE_CW') : [];
+  return { gesture: null, events: [...moves, ...release, ...finish] };
+};
+
+/** ---------------------------------------------------------------- END OF RECOGNIZER ------------------------------------------------------------------------------------------------- */
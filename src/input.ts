@@ -0,0 +1,279 @@
+/**
+ * Keyboard handling: key bindings, and Delayed Auto Shift (DAS) with Auto Repeat Rate (ARR).
+ *
+ * Keys are bound to controls, and the controller turns control presses, releases and engine frames into
+ * game actions. Holding a direction moves the block once, then waits for the DAS delay, then keeps moving it
+ * every ARR milliseconds, counted in engine frames rather than with the operating system's key repeat.
+ * Every function here is pure: the held directions and timers are carried in an InputState.
+ */
+
+import { Action, Constants } from "./engine";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * A control the player can bind keys to.
+ */
+export type Control = typeof CONTROLS[number];
+
+
+/**
+ * The keys bound to each control, as KeyboardEvent codes (e.g. "KeyA", "ArrowLeft").
+ */
+export type Bindings = Readonly<Record<Control, readonly string[]>>;
+
+
+/**
+ * The timing of auto shift, in milliseconds.
+ */
+export type Handling = Readonly<{
+  /**
+   * Delayed Auto Shift: how long a direction is held before the block starts repeating its moves.
+   */
+  das: number;
+
+  /**
+   * Auto Repeat Rate: the time between repeated moves once DAS has charged. 0 moves the block to the wall at once.
+   */
+  arr: number;
+}>;
+
+
+/**
+ * Something the controller reacts to: a control pressed or released, or one engine frame passing.
+ */
+export type InputEvent =
+  | Readonly<{ kind: 'DOWN', control: Control }>
+  | Readonly<{ kind: 'UP', control: Control }>
+  | Readonly<{ kind: 'FRAME' }>;
+
+
+/**
+ * Represents the immutable state of the controller.
+ */
+export type InputState = Readonly<{
+  /**
+   * The directions held, most recently pressed last. The last one is the one that shifts the block.
+   */
+  held: readonly Direction[];
+
+  /**
+   * Milliseconds the shifting direction has been held.
+   */
+  shiftTimer: number;
+}>;
+
+
+/**
+ * A horizontal direction.
+ */
+type Direction = 'LEFT' | 'RIGHT';
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Every control, in the order they are listed for rebinding.
+ */
+export const CONTROLS = [
+  'LEFT', 'RIGHT', 'SOFT_DROP', 'HARD_DROP', 'ROTATE_CW', 'ROTATE_CCW', 'ROTATE_180',
+  'HOLD', 'TOGGLE_GHOST', 'PAUSE', 'RESTART', 'MUTE',
+] as const;
+
+
+/**
+ * The name of each control, as shown when rebinding.
+ */
+export const CONTROL_NAMES: Readonly<Record<Control, string>> = {
+  LEFT: 'Move left',
+  RIGHT: 'Move right',
+  SOFT_DROP: 'Soft drop',
+  HARD_DROP: 'Hard drop',
+  ROTATE_CW: 'Rotate clockwise',
+  ROTATE_CCW: 'Rotate counter-clockwise',
+  ROTATE_180: 'Rotate 180°',
+  HOLD: 'Hold',
+  TOGGLE_GHOST: 'Toggle ghost',
+  PAUSE: 'Pause',
+  RESTART: 'Restart',
+  MUTE: 'Mute sound',
+};
+
+
+/**
+ * The keys bound to each control until the player rebinds them.
+ */
+export const DEFAULT_BINDINGS: Bindings = {
+  LEFT: ['KeyA', 'ArrowLeft'],
+  RIGHT: ['KeyD', 'ArrowRight'],
+  SOFT_DROP: ['KeyS', 'ArrowDown'],
+  HARD_DROP: ['Space'],
+  ROTATE_CW: ['KeyE', 'KeyT', 'ArrowUp', 'KeyX'],
+  ROTATE_CCW: ['KeyQ', 'KeyZ'],
+  ROTATE_180: ['KeyW'],
+  HOLD: ['KeyC', 'ShiftLeft'],
+  TOGGLE_GHOST: ['KeyG'],
+  PAUSE: ['KeyP', 'Escape'],
+  RESTART: ['KeyR'],
+  MUTE: ['KeyM'],
+};
+
+
+/**
+ * The auto shift timing until the player tunes it.
+ */
+export const DEFAULT_HANDLING: Handling = { das: 167, arr: 33 };
+
+
+/**
+ * The controller before any key is pressed.
+ */
+export const initialInput: InputState = { held: [], shiftTimer: 0 };
+
+
+/**
+ * The events that let go of every control that stays pressed while its key is held (the directions and soft drop).
+ * They are sent when the page loses the keyboard, e.g. to another window, as the keys held would then never come up.
+ * Releasing a control that is not held does nothing.
+ */
+export const RELEASE_ALL: readonly Extract<InputEvent, { kind: 'UP' }>[] = (['LEFT', 'RIGHT', 'SOFT_DROP'] as const).map(control => ({ kind: 'UP', control }));
+
+
+/**
+ * The symbols shown for keys whose code does not read well.
+ */
+const KEY_SYMBOLS: Readonly<Record<string, string>> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- BINDINGS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks whether a value is a control.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a Control.
+ */
+export const isControl = (value: unknown): value is Control => (CONTROLS as readonly unknown[]).includes(value);
+
+
+/**
+ * Finds the control a key is bound to.
+ * Pure function.
+ * @param bindings The key bindings.
+ * @param code The KeyboardEvent code of the key.
+ * @returns The control, or undefined when the key is not bound.
+ */
+export const controlFor = (bindings: Bindings, code: string): Control | undefined =>
+  CONTROLS.find(control => bindings[control].includes(code));
+
+
+/**
+ * Binds a key to a control, replacing the keys it had, unless the key already belongs to another control.
+ * Pure function.
+ * @param bindings The key bindings.
+ * @param control The control to rebind.
+ * @param code The KeyboardEvent code of the new key.
+ * @returns The new bindings, or the control the key is already bound to.
+ */
+export const rebind = (bindings: Bindings, control: Control, code: string): { bindings: Bindings } | { conflict: Control } => {
+  const owner = controlFor(bindings, code);
+  return owner !== undefined && owner !== control
+    ? { conflict: owner }
+    : { bindings: { ...bindings, [control]: [code] } };
+};
+
+
+/**
+ * Gets a readable name for a key.
+ * Pure function.
+ * @param code The KeyboardEvent code of the key.
+ * @returns The name, e.g. "A" for KeyA, "1" for Digit1, or "←" for ArrowLeft.
+ */
+export const keyLabel = (code: string): string =>
+  KEY_SYMBOLS[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ');
+
+/** ---------------------------------------------------------------- END OF BINDINGS ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONTROLLER ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Counts the auto shift moves made by the time a direction has been held for some time.
+ * Pure function.
+ * The first repeat happens when DAS has charged, then one more every ARR; with an ARR of 0
+ * the block is sent to the wall, which never takes more moves than the widest board is wide.
+ * @param held Milliseconds the direction has been held.
+ * @param handling The auto shift timing.
+ * @returns The number of repeated moves so far.
+ */
+const repeatsAfter = (held: number, handling: Handling): number =>
+  held < handling.das ? 0
+    : handling.arr === 0 ? Constants.MAX_BOARD_WIDTH
+    : Math.floor((held - handling.das) / handling.arr) + 1;
+
+
+/**
+ * Reacts to a control or a frame.
+ * Pure function.
+ * Pressing a direction moves the block straight away and restarts DAS; releasing it hands the shift back to
+ * the other direction if that is still held. On each frame, the moves that DAS and ARR owe are made before
+ * the engine clock ticks. Soft drop becomes SOFT_DROP_START and SOFT_DROP_END, and mute is no action at all
+ * (the page handles it); every other control is an action of the same name, sent when it is pressed.
+ * @param input The controller so far.
+ * @param event The control pressed or released, or a frame.
+ * @param handling The auto shift timing.
+ * @returns The updated controller, and the actions to apply in order.
+ */
+export const stepInput = (
+  input: InputState,
+  event: InputEvent,
+  handling: Handling
+): { input: InputState, actions: Action[] } => {
+  const shifting = input.held[input.held.length - 1];
+
+  if (event.kind === 'FRAME') {
+    if (shifting === undefined) return { input, actions: ['TICK'] };
+
+    const shiftTimer = input.shiftTimer + Constants.FRAME_MS;
+    const wallCharge = handling.arr === 0 && shiftTimer >= handling.das;  // Keeps the block against the wall after it spawns
+    const moves = wallCharge
+      ? Constants.MAX_BOARD_WIDTH
+      : repeatsAfter(shiftTimer, handling) - repeatsAfter(input.shiftTimer, handling);
+    return { input: { ...input, shiftTimer }, actions: [...Array<Action>(moves).fill(shifting), 'TICK'] };
+  }
+
+  const { control } = event;
+
+  if (control === 'LEFT' || control === 'RIGHT') {
+    const others = input.held.filter(direction => direction !== control);
+    return event.kind === 'DOWN'
+      ? { input: { held: [...others, control], shiftTimer: 0 }, actions: [control] }
+      : { input: { held: others, shiftTimer: shifting === control ? 0 : input.shiftTimer }, actions: [] };
+  }
+
+  if (control === 'SOFT_DROP') {
+    return { input, actions: [event.kind === 'DOWN' ? 'SOFT_DROP_START' : 'SOFT_DROP_END'] };
+  }
+
+  if (control === 'MUTE') return { input, actions: [] };
+
+  return { input, actions: event.kind === 'DOWN' ? [control] : [] };
+};
+
+/** ---------------------------------------------------------------- END OF CONTROLLER ------------------------------------------------------------------------------------------------- */
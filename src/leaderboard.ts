@@ -0,0 +1,324 @@
+/**
+ * The persistent leaderboard.
+ *
+ * The best games of each game mode are kept with the player's name and their statistics, and saved between visits.
+ * Games are ranked the way their mode is played: by score, or by time for Sprint.
+ * Ranking and the JSON format are pure; only loading and saving touch the storage, which is passed in
+ * (localStorage in the browser, an in-memory store in tests).
+ */
+
+import { MODE_RULES, Ranking, isGameMode } from "./modes";
+import { StatsSummary, isStatsSummary } from "./stats";
+import type { KeyValueStore } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * A finished game on the leaderboard.
+ */
+export type LeaderboardEntry = Readonly<{
+  /**
+   * The name the player entered.
+   */
+  name: string;
+
+  /**
+   * The final score.
+   */
+  score: number;
+
+  /**
+   * The number of lines cleared.
+   */
+  lines: number;
+
+  /**
+   * The level reached.
+   */
+  level: number;
+
+  /**
+   * How long the game lasted, in milliseconds of game time.
+   */
+  durationMs: number;
+
+  /**
+   * When the game ended, in milliseconds since the Unix epoch.
+   */
+  date: number;
+
+  /**
+   * The statistics of the game, or undefined for games saved before they were kept.
+   */
+  stats?: StatsSummary;
+}>;
+
+
+/**
+ * Represents the leaderboard: the best entries of each game mode, best first.
+ */
+export type Leaderboard = Readonly<{
+  /**
+   * The version of the leaderboard format.
+   */
+  version: number;
+
+  /**
+   * The entries of each game mode, keyed by the mode's name.
+   */
+  modes: Readonly<Record<string, readonly LeaderboardEntry[]>>;
+}>;
+
+
+/**
+ * The result of importing a leaderboard: the leaderboard, or the reason it was rejected.
+ */
+export type LeaderboardParseResult = { leaderboard: Leaderboard } | { error: string };
+
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Leaderboard configuration.
+ *
+ * VERSION: The current version of the leaderboard format. Leaderboards with another version are rejected.
+ * SIZE: The number of entries kept for each game mode.
+ * NAME_LENGTH: The longest name kept, in characters.
+ * DEFAULT_NAME: The name used when the player leaves it empty.
+ * STORAGE_KEY: The key the leaderboard is saved under.
+ */
+export const LeaderboardConfig = {
+  VERSION: 1,
+  SIZE: 10,
+  NAME_LENGTH: 16,
+  DEFAULT_NAME: 'Anonymous',
+  STORAGE_KEY: 'tetris.leaderboard',
+} as const;
+
+
+/**
+ * A leaderboard without any entries.
+ */
+export const emptyLeaderboard: Leaderboard = { version: LeaderboardConfig.VERSION, modes: {} };
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- RANKING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Gets how the games of a mode are ranked. Modes the game does not know (e.g. from a newer version) rank by score.
+ * Pure function.
+ * @param mode The game mode.
+ * @returns The ranking.
+ */
+const rankingOf = (mode: string): Ranking => (isGameMode(mode) ? MODE_RULES[mode].ranking : 'SCORE');
+
+
+/**
+ * Orders two entries of a mode. By score: the higher score first, then the shorter game.
+ * By time: the shorter game first, then the higher score. Ties go to the earlier game.
+ * Pure function.
+ * @param mode The game mode.
+ * @returns A comparator giving a negative number when a ranks above b, a positive number when b ranks above a.
+ */
+const compareEntries = (mode: string) => (a: LeaderboardEntry, b: LeaderboardEntry): number =>
+  rankingOf(mode) === 'TIME'
+    ? a.durationMs - b.durationMs || b.score - a.score || a.date - b.date
+    : b.score - a.score || a.durationMs - b.durationMs || a.date - b.date;
+
+
+/**
+ * Cleans up a name typed by the player.
+ * Pure function.
+ * @param name The name as typed.
+ * @returns The name with surrounding and repeated spaces removed, cut to NAME_LENGTH, or DEFAULT_NAME when empty.
+ */
+export const normalizeName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').slice(0, LeaderboardConfig.NAME_LENGTH) || LeaderboardConfig.DEFAULT_NAME;
+
+
+/**
+ * Gets the entries of a game mode, best first.
+ * Pure function.
+ * @param board The leaderboard.
+ * @param mode The game mode.
+ * @returns The entries, or an empty array when the mode has none.
+ */
+export const topEntries = (board: Leaderboard, mode: string): readonly LeaderboardEntry[] => board.modes[mode] ?? [];
+
+
+/**
+ * Gets the best score of a game mode, even when the mode ranks by time.
+ * Pure function.
+ * @param board The leaderboard.
+ * @param mode The game mode.
+ * @returns The best score, or 0 when the mode has no entries.
+ */
+export const bestScore = (board: Leaderboard, mode: string): number =>
+  Math.max(0, ...topEntries(board, mode).map(entry => entry.score));
+
+
+/**
+ * Checks whether a game would make it onto the leaderboard, i.e. whether to ask for the player's name.
+ * Pure function.
+ * A game ranked by score needs to have scored. A game ranked by time has to be complete, which only the caller knows.
+ * A game of a mode that is not ranked never qualifies.
+ * @param board The leaderboard.
+ * @param mode The game mode.
+ * @param entry The finished game (the name does not matter).
+ * @returns True if the entry would be kept.
+ */
+export const qualifies = (board: Leaderboard, mode: string, entry: LeaderboardEntry): boolean => {
+  const entries = topEntries(board, mode);
+  return rankingOf(mode) !== 'NONE'
+    && (rankingOf(mode) === 'TIME' || entry.score > 0)
+    && (entries.length < LeaderboardConfig.SIZE || compareEntries(mode)(entry, entries[entries.length - 1]) < 0);
+};
+
+
+/**
+ * Adds a finished game to the leaderboard, keeping the best SIZE entries of its mode.
+ * Pure function.
+ * It returns a new leaderboard and never modifies the input.
+ * @param board The leaderboard.
+ * @param mode The game mode.
+ * @param entry The finished game.
+ * @returns The updated leaderboard.
+ */
+export const addEntry = (board: Leaderboard, mode: string, entry: LeaderboardEntry): Leaderboard => ({
+  ...board,
+  modes: {
+    ...board.modes,
+    [mode]: [...topEntries(board, mode), { ...entry, name: normalizeName(entry.name) }]
+      .sort(compareEntries(mode))
+      .slice(0, LeaderboardConfig.SIZE),
+  },
+});
+
+
+/**
+ * Merges two leaderboards, e.g. the one saved in this browser and an imported one.
+ * Pure function.
+ * Entries present in both are only kept once.
+ * @param board The leaderboard to merge into.
+ * @param other The leaderboard to merge.
+ * @returns The merged leaderboard.
+ */
+export const mergeLeaderboards = (board: Leaderboard, other: Leaderboard): Leaderboard =>
+  Object.entries(other.modes).reduce(
+    (acc, [mode, entries]) => entries
+      .filter(entry => !topEntries(acc, mode).some(e => compareEntries(mode)(e, entry) === 0 && e.name === normalizeName(entry.name)))
+      .reduce((merged, entry) => addEntry(merged, mode, entry), acc),
+    board
+  );
+
+/** ---------------------------------------------------------------- END OF RANKING ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- FORMAT ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Exports a leaderboard as JSON.
+ * Pure function.
+ * @param board The leaderboard to export.
+ * @returns The JSON text.
+ */
+export const serializeLeaderboard = (board: Leaderboard): string => JSON.stringify(board);
+
+
+/**
+ * Checks whether a value is a valid leaderboard entry.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a LeaderboardEntry.
+ */
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, score, lines, level, durationMs, date, stats } = value as Record<string, unknown>;
+  return typeof name === 'string'
+    && [score, lines, level, durationMs, date].every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0)
+    && (stats === undefined || isStatsSummary(stats));
+};
+
+
+/**
+ * Imports a leaderboard from JSON, checking its version and every entry.
+ * Pure function.
+ * It never throws: malformed input is reported as an error instead.
+ * Entries are re-ranked and trimmed, so a hand-edited file cannot hold more than SIZE entries per mode.
+ * @param json The JSON text.
+ * @returns The leaderboard, or the reason it was rejected.
+ */
+export const parseLeaderboard = (json: string): LeaderboardParseResult => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(json) as unknown;
+    } catch {
+      return undefined;
+    }
+  })();
+
+  if (typeof parsed !== 'object' || parsed === null) return { error: 'Not a leaderboard file' };
+
+  const { version, modes } = parsed as Record<string, unknown>;
+  if (version !== LeaderboardConfig.VERSION) return { error: `Unsupported leaderboard version ${String(version)}` };
+  if (typeof modes !== 'object' || modes === null || Array.isArray(modes)) return { error: 'Invalid game modes' };
+
+  const entries = Object.entries(modes as Record<string, unknown>);
+  if (!entries.every(([, list]) => Array.isArray(list) && list.every(isEntry))) return { error: 'Invalid leaderboard entry' };
+
+  return {
+    leaderboard: entries.reduce<Leaderboard>(
+      (acc, [mode, list]) => (list as LeaderboardEntry[]).reduce((board, entry) => addEntry(board, mode, entry), acc),
+      emptyLeaderboard
+    ),
+  };
+};
+
+/** ---------------------------------------------------------------- END OF FORMAT ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- STORAGE ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Loads the saved leaderboard.
+ * Impure function.
+ * It reads from the storage. A missing or unreadable leaderboard gives an empty one rather than an error,
+ * so a corrupted save never stops the game from starting.
+ * @param store The storage to read from.
+ * @returns The saved leaderboard, or an empty one.
+ */
+export const loadLeaderboard = (store: KeyValueStore): Leaderboard => {
+  const saved = store.getItem(LeaderboardConfig.STORAGE_KEY);
+  const parsed = saved === null ? null : parseLeaderboard(saved);
+  return parsed && 'leaderboard' in parsed ? parsed.leaderboard : emptyLeaderboard;
+};
+
+
+/**
+ * Saves the leaderboard.
+ * Impure function.
+ * It writes to the storage. Storage can refuse writes (it is full, or disabled in a private window),
+ * which is reported rather than thrown so the game carries on.
+ * @param store The storage to write to.
+ * @param board The leaderboard to save.
+ * @returns True if the leaderboard was saved.
+ */
+export const saveLeaderboard = (store: KeyValueStore, board: Leaderboard): boolean => {
+  try {
+    store.setItem(LeaderboardConfig.STORAGE_KEY, serializeLeaderboard(board));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** ---------------------------------------------------------------- END OF STORAGE ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,89 @@
+/**
+ * Level progression and gravity.
+ *
+ * The level follows from the total number of cleared lines, and each level has a gravity:
+ * the time in milliseconds the block takes to fall one row. High levels reach 20G,
+ * where the block falls the whole board height in a single engine frame.
+ */
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The built-in gravity curves.
+ *
+ * GUIDELINE: the Tetris guideline formula, reaching 20G at level 20.
+ * NES: the frame table of the NES version (level 1 here is NES level 0), reaching one row per frame at level 30.
+ */
+export type GravityCurve = 'GUIDELINE' | 'NES';
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Gravity configuration.
+ *
+ * TWENTY_G_LEVEL: The first guideline level played at 20G.
+ * NES_FRAME_MS: The duration of one NES frame in milliseconds (60.0988 frames per second).
+ * NES_FRAMES_PER_ROW: Frames per row for NES levels 0 to 29 and beyond (the last entry repeats).
+ */
+const Gravity = {
+  TWENTY_G_LEVEL: 20,
+  NES_FRAME_MS: 1000 / 60.0988,
+  NES_FRAMES_PER_ROW: [48, 43, 38, 33, 28, 23, 18, 13, 8, 6, 5, 5, 5, 4, 4, 4, 3, 3, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1],
+} as const;
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- LEVELS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Determines the level reached after clearing a number of lines.
+ * Pure function.
+ * @param lines The total number of lines cleared.
+ * @param startLevel The level the game started on.
+ * @param linesPerLevel The number of lines needed for each level-up.
+ * @returns The current level.
+ */
+export const levelForLines = (lines: number, startLevel: number, linesPerLevel: number): number =>
+  startLevel + Math.floor(lines / linesPerLevel);
+
+
+/**
+ * Determines the game's tick rate (the time the block takes to fall one row) for a level.
+ * Pure function.
+ * Given the same level and curve, it will always return the same result.
+ * @param level The current level (1 or more).
+ * @param curve The gravity curve.
+ * @param frameMs The duration of one engine frame, used to express 20G.
+ * @param boardHeight The number of rows of the board: at 20G the block falls them all in one frame, so it lands at once.
+ * @returns The time in milliseconds per row.
+ */
+export const getTickRate = (level: number, curve: GravityCurve, frameMs: number, boardHeight: number): number => {
+  if (curve === 'NES') {
+    const table = Gravity.NES_FRAMES_PER_ROW;
+    return table[Math.min(Math.max(level - 1, 0), table.length - 1)] * Gravity.NES_FRAME_MS;
+  }
+
+  if (level >= Gravity.TWENTY_G_LEVEL) return frameMs / boardHeight;
+
+  // Guideline: (0.8 - (level - 1) * 0.007) ^ (level - 1) seconds per row
+  const l = Math.max(level, 1) - 1;
+  return Math.pow(0.8 - l * 0.007, l) * 1000;
+};
+
+
+/**
+ * Checks whether a value names one of the built-in gravity curves.
+ * Pure function.
+ * @param value The value to check, e.g. a URL parameter.
+ * @returns True if the value is a GravityCurve.
+ */
+export const isGravityCurve = (value: unknown): value is GravityCurve =>
+  value === 'GUIDELINE' || value === 'NES';
+
+/** ---------------------------------------------------------------- END OF LEVELS ------------------------------------------------------------------------------------------------- */
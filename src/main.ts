@@ -26,570 +26,341 @@ const author: Author = {
 
 
 import "./style.css";
-import { fromEvent, interval, merge, startWith, BehaviorSubject } from "rxjs";
-import { map, filter, scan, switchMap } from "rxjs/operators";
+import { BehaviorSubject, Observable, combineLatest, from, fromEvent, interval, merge } from "rxjs";
+import { map, filter, mergeMap, scan, share, shareReplay, startWith, switchMap, take, withLatestFrom, distinctUntilChanged } from "rxjs/operators";
+import { isRandomizerKind } from "./randomizer";
+import { isGravityCurve } from "./levels";
+import { PIECE_KEYS, isPieceKey, isPieceSetKind } from "./pieces";
+import { PLAYBACK_SPEEDS, Playback, PlaybackCommand, applyPlaybackCommand, parseReplay, serializeReplay, startPlayback } from "./replay";
+import {
+  Action, Cell, Constants, DEFAULT_SETTINGS, GameReplay, GameSettings, REPLAY_ENGINE, State,
+  Session, isAction, isGameSettings, piecesLeft, recordStep, startSession
+} from "./engine";
+import { RendererKind, Scene, SvgCanvas, createBoardView, createRenderer, isRendererKind, puzzleSceneOf, renderGarbageMeter, sceneOf } from "./board";
+import {
+  Leaderboard, LeaderboardEntry, addEntry, bestScore, loadLeaderboard, mergeLeaderboards, parseLeaderboard,
+  qualifies, saveLeaderboard, serializeLeaderboard, topEntries
+} from "./leaderboard";
+import { Snapshot, clearSnapshot, loadSnapshot, saveSnapshot } from "./snapshot";
+import {
+  Bindings, CONTROLS, CONTROL_NAMES, Control, DEFAULT_BINDINGS, InputEvent, RELEASE_ALL, controlFor, initialInput, keyLabel, rebind, stepInput
+} from "./input";
+import { GESTURE_THRESHOLDS, GestureThreshold, PointerSample, SWIPE_UP_CONTROLS, initialGesture, isSwipeUpControl, pointerSample, stepGesture } from "./gestures";
+import { GAME_MODES, GameMode, MODE_RULES, clockTime, formatClock, isGameMode, linesRemaining, modeResults } from "./modes";
+import { Preferences, PreferencesConfig, clampSetting, loadPreferences, savePreferences } from "./preferences";
+import { Match, MatchEvent, PLAYERS, PlayerIndex, matchResult, playerControlFor, rebindPlayer, startMatch, stepMatch } from "./versus";
+import type { Block } from "./types";
+import { BotState, BotWeights, DEFAULT_WEIGHTS, initialBot, parseWeights, plan, stepBot } from "./bot";
+import { MusicState, SoundEffect, Tone, createMixer, createWebAudio, initialMusic, soundsOf, stepMusic } from "./audio";
+import {
+  EditorEvent, EditorState, GOAL_NAMES, PUZZLE_GOAL_KINDS, Puzzle, describeGoal, emptyPuzzle, encodePuzzle,
+  formatQueue, goalOf, parsePuzzle, parseQueue, puzzleProblem, stepEditor
+} from "./puzzle";
+import { StatsState, initialStats, replayStats, statsRows, stepStats, summarizeStats } from "./stats";
 
 /** -------------------------------------------------------------- END OF IMPORTS ----------------------------------------------------------------------------------------------- */
 /* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------ */
 
 
-/** -------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
-
-/**
- * Viewport Configuration
- * 
- * This object defines the dimensions of the main canvas and the preview section
- * in a Tetris game.
- *
- * CANVAS_WIDTH: Width of the main game canvas in pixels.
- * CANVAS_HEIGHT: Height of the main game canvas in pixels.
- * PREVIEW_WIDTH: Width of the preview canvas in pixels.
- * PREVIEW_HEIGHT: Height of the preview canvas in pixels.
- */
-const Viewport = {
-  CANVAS_WIDTH: 200,
-  CANVAS_HEIGHT: 400,
-  PREVIEW_WIDTH: 160,
-  PREVIEW_HEIGHT: 80,
-} as const;
-
-/**
- * Constants Configuration
- *
- * This object contains various constants used throughout the Tetris game.
- *
- * TICK_RATE_MS: The interval in milliseconds at which the game state is updated.
- * GRID_WIDTH: The number of horizontal blocks in the game grid.
- * GRID_HEIGHT: The number of vertical blocks in the game grid.
- */
-const Constants = {
-  TICK_RATE_MS: 200,
-  GRID_WIDTH: 10,
-  GRID_HEIGHT: 20,
-} as const;
-
-/**
- * Block Dimensions
- *
- * This object calculates and stores the dimensions of a single block in the Tetris grid,
- * based on the Viewport and Constants configuration.
- *
- * WIDTH: The width of a single block in pixels.
- * HEIGHT: The height of a single block in pixels.
- */
-const Block = {
-  WIDTH: Viewport.CANVAS_WIDTH / Constants.GRID_WIDTH,
-  HEIGHT: Viewport.CANVAS_HEIGHT / Constants.GRID_HEIGHT,
-};
-
-
-/**
- * Represents the starting position of a Tetris block on the grid.
- */
-const STARTING_POSITION: Point = {
-  x: Math.floor(Constants.GRID_WIDTH / 2) - 1,
-  y: 0
-};
-
-/** -------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
-/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
-
-
 /** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
 
 /**
- * Represents a point in 2D space.
- */
-type Point = {
-  x: number;
-  y: number;
-};
-
-
-/**
- * Represents a block as an array of Points.
- */
-type Block = Point[];
-
-
-/**
- * Represents the state of a cell, which can either be empty or filled.
+ * Represents what is on screen: a live game or a replay being played back.
  */
-type Cell = 'EMPTY' | 'FILLED';
-
-
-/**
- * Represents the entire game state as a 2D array of Cells.
- */
-type GameState = Cell[][];
-
-
-/**
- * Represents the immutable state of the game.
- */
-type State = Readonly<{
-  /**
-   * Indicates whether the game has ended.
-   */
-  gameEnd: boolean;
-
-  /**
-   * The current block in play, represented as an array of Points.
-   */
-  block: Block;
-
-  /**
-   * The current direction in which the block is moving.
-   */
-  direction: Direction;
-
-  /**
-   * The grid representing the game field, where each cell is a number.
-   */
-  grid: number[][];
-
-  /**
-   * Indicates whether the current block has settled at the bottom.
-   */
-  blockSettled: boolean;
-
-  /**
-   * A 2D array representing the game state in terms of empty and filled cells.
-   */
-  gameGrid: GameState;
-
-  /**
-   * The player's current score.
-   */
-  score: number;
-
-  /**
-   * The highest score achieved in this game session.
-   */
-  highscore: number;
-
+type View = Readonly<{
   /**
-   * The block that will come into play next, represented as an array of Points.
+   * The state of the game to render.
    */
-  nextBlock: Block;
+  state: State;
 
   /**
-   * The number of rows that have been cleared.
+   * The replay that can be exported: the recording of the live game, or the replay being played.
    */
-  clearedRows: number;
+  recording: GameReplay;
 
   /**
-   * The current level of the game.
+   * The playback, or null for a live game.
    */
-  currentLevel: number;
+  playback: Playback<State, GameSettings, Action> | null;
 
   /**
-   * The type of the current block in play, represented as a string.
+   * Whether the bot has played any of the live game, which keeps it off the leaderboard.
    */
-  currentBlockType: string;
+  assisted: boolean;
 
   /**
-   * Indicates whether the game is paused.
+   * The statistics of the game so far.
    */
-  gamePaused: boolean;
+  stats: StatsState;
 }>;
 
 
 /**
- * Represents the direction in which a block is moving or intended to move.
+ * What was last drawn of a game: its state, and the scene of its board.
  */
-type Direction = "LEFT" | "RIGHT" | "DOWN" | "NONE";
-
-
-/**
- * Represents a key that uniquely identifies a specific Tetromino shape
- * within the TETROMINOS object.
- */
-type TetrominoKey = keyof typeof TETROMINOS;
+type Drawn = Readonly<{
+  state: State;
+  scene: Scene;
+}>;
 
 /** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
 /* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
 
 
-/** ---------------------------------------------------------------- TETRONIMO OPERATIONS ------------------------------------------------------------------------------------------------- */
-
-/**
- * Creates a square-shaped Tetris block (also known as an "O" block).
- * Pure function.
- * The function returns a new array and new objects within that array, so no existing data is changed.
- * It doesn't modify any external state or variables.
- */
-const createSquareBlock = (x: number, y: number): Block => [
-  { x, y },
-  { x: x + 1, y },
-  { x, y: y + 1 },
-  { x: x + 1, y: y + 1 }
-];
-
+/** ---------------------------------------------------------------- PAGE SETUP ------------------------------------------------------------------------------------------------- */
 
 /**
- * A predefined set of Tetrominos and their shapes.
+ * Reads the seed and settings from the page URL (e.g. ?mode=SPRINT&seed=1234&randomizer=TGM&gravity=NES&level=5&linesPerLevel=10&lineClearDelay=0&entryDelay=0
+ * &width=12&height=24&pieces=PENTOMINO), falling back to a fresh seed and the default settings.
+ * A board size outside the limits of the engine is clamped to them. A puzzle linked in the hash (#puzzle=<code>)
+ * is played in Puzzle mode, on a board of its own size.
+ * Impure function.
+ * It reads from the window location and the clock.
+ * @returns The seed and the settings.
  */
-const TETROMINOS = {
-  I: [
-    { x: 4, y: 0 },
-    { x: 4, y: 1 },
-    { x: 4, y: 2 },
-    { x: 4, y: 3 },
-  ],
-  O: [
-    { x: 4, y: 0 },
-    { x: 5, y: 0 },
-    { x: 4, y: 1 },
-    { x: 5, y: 1 }
-  ],
-  T: [
-    { x: 4, y: 0 },
-    { x: 3, y: 1 },
-    { x: 4, y: 1 },
-    { x: 5, y: 1 }
-  ],
-  S: [
-    { x: 4, y: 0 },
-    { x: 5, y: 0 },
-    { x: 3, y: 1 },
-    { x: 4, y: 1 }
-  ],
-  Z: [
-    { x: 3, y: 0 },
-    { x: 4, y: 0 },
-    { x: 4, y: 1 },
-    { x: 5, y: 1 }
-  ],
-  J: [
-    { x: 3, y: 0 },
-    { x: 3, y: 1 },
-    { x: 4, y: 1 },
-    { x: 5, y: 1 }
-  ],
-  L: [
-    { x: 5, y: 0 },
-    { x: 3, y: 1 },
-    { x: 4, y: 1 },
-    { x: 5, y: 1 }
-  ]
+const gameSetup = (): { seed: number, settings: GameSettings } => {
+  const params = new URLSearchParams(window.location.search);
+  const seedParam = Number(params.get("seed"));
+  const positiveParam = (name: string, fallback: number): number => {
+    const value = Number(params.get(name));
+    return params.has(name) && Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+  const delayParam = (name: string, fallback: number): number => {
+    const value = Number(params.get(name));
+    return params.has(name) && Number.isInteger(value) && value >= 0 ? value : fallback;
+  };
+  const sizeParam = (name: string, fallback: number, min: number, max: number): number =>
+    Math.min(Math.max(positiveParam(name, fallback), min), max);
+  const modeParam = params.get("mode");
+  const randomizerParam = params.get("randomizer");
+  const gravityParam = params.get("gravity");
+  const piecesParam = params.get("pieces");
+  const link = puzzleLink();
+  const loaded = link !== null && !link.editing && link.code !== null ? loadPuzzle(link.code) : null;
+  const puzzle = loaded !== null && 'puzzle' in loaded ? loaded.puzzle : null;
+  return {
+    seed: params.has("seed") && Number.isInteger(seedParam) ? seedParam >>> 0 : Date.now() >>> 0,
+    settings: {
+      mode: puzzle !== null ? 'PUZZLE' : isGameMode(modeParam) ? modeParam : DEFAULT_SETTINGS.mode,
+      randomizer: isRandomizerKind(randomizerParam) ? randomizerParam : DEFAULT_SETTINGS.randomizer,
+      gravityCurve: isGravityCurve(gravityParam) ? gravityParam : DEFAULT_SETTINGS.gravityCurve,
+      startLevel: positiveParam("level", DEFAULT_SETTINGS.startLevel),
+      linesPerLevel: positiveParam("linesPerLevel", DEFAULT_SETTINGS.linesPerLevel),
+      softDropFactor: DEFAULT_SETTINGS.softDropFactor,
+      lineClearDelayMs: delayParam("lineClearDelay", DEFAULT_SETTINGS.lineClearDelayMs),
+      entryDelayMs: delayParam("entryDelay", DEFAULT_SETTINGS.entryDelayMs),
+      boardWidth: puzzle?.board[0].length ?? sizeParam("width", DEFAULT_SETTINGS.boardWidth, Constants.MIN_BOARD_WIDTH, Constants.MAX_BOARD_WIDTH),
+      boardHeight: puzzle?.board.length ?? sizeParam("height", DEFAULT_SETTINGS.boardHeight, Constants.MIN_BOARD_HEIGHT, Constants.MAX_BOARD_HEIGHT),
+      pieceSet: isPieceSetKind(piecesParam) ? piecesParam : DEFAULT_SETTINGS.pieceSet,
+      puzzle,
+    },
+  };
 };
 
 
 /**
- * Creates a new Tetromino block.
+ * Reads the puzzle linked in the hash of the page URL: #puzzle=<code> plays a puzzle, #edit=<code> edits one,
+ * and #edit alone starts a new one.
  * Impure function.
- * The random number generator is a side effect, so the function is not pure.
- * Functional programming style.
- * It uses the .map() method, which is more functional in nature.
- * @returns A new Tetromino block.
+ * It reads from the window location.
+ * @returns The code (or null when there is none) and whether it is to be edited, or null when the URL links to no puzzle.
  */
-const newBlock = (): Point[] => {
-  const tetrominosKeys = Object.keys(TETROMINOS) as TetrominoKey[];
-  const randomKey = tetrominosKeys[Math.floor(Math.random() * tetrominosKeys.length)];
-  return TETROMINOS[randomKey].map(point => ({ ...point }));
+const puzzleLink = (): { code: string | null, editing: boolean } | null => {
+  const match = /^#(puzzle|edit)(?:=(.*))?$/.exec(window.location.hash);
+  return match ? { code: match[2] || null, editing: match[1] === 'edit' } : null;
 };
 
-/** ---------------------------------------------------------------- END OF TETRONIMO OPERATIONS ------------------------------------------------------------------------------------------------- */
-/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------ */
-
-
-/** ---------------------------------------------------------------- GAME INITIALISATION ------------------------------------------------------------------------------------------------- */
 
 /**
- * Generates an empty game grid.
+ * Reads a puzzle from its code, and checks that its board is a size the engine can play on.
  * Pure function.
- * The function always returns the same output given the same input (in this case, it doesn't even require any input). 
- * It also doesn't have any side effects like altering global variables or performing I/O operations.
- * The function returns a new array each time it is called. 
- * The new array is constructed entirely within the function and does not modify or depend on external state.
- * Functional programming style.
- * Uses Array.from to generate the array, which is a more functional approach compared to using loops
- * @returns An empty game grid.
+ * @param code The code of the puzzle.
+ * @returns The puzzle, or an error to show to the player.
  */
-const emptyGameGrid = (): GameState => 
-  Array.from({ length: Constants.GRID_HEIGHT }, () => Array(Constants.GRID_WIDTH).fill('EMPTY'));
+const loadPuzzle = (code: string): { puzzle: Puzzle } | { error: string } => {
+  const parsed = parsePuzzle(code);
+  if ('error' in parsed) return parsed;
+  const { board } = parsed.puzzle;
+  const fits = board[0].length >= Constants.MIN_BOARD_WIDTH && board[0].length <= Constants.MAX_BOARD_WIDTH
+    && board.length >= Constants.MIN_BOARD_HEIGHT && board.length <= Constants.MAX_BOARD_HEIGHT;
+  return fits ? parsed : {
+    error: `A puzzle board must be ${Constants.MIN_BOARD_WIDTH} to ${Constants.MAX_BOARD_WIDTH} columns wide`
+      + ` and ${Constants.MIN_BOARD_HEIGHT} to ${Constants.MAX_BOARD_HEIGHT} rows high.`,
+  };
+};
 
 
 /**
- * Sets the initial state of the game.
- * Pure function.
- * The initialState object is defined as a constant using const, 
- * and it also uses the as const syntax to further enforce immutability.
- * Functional programming style.
- * Uses array methods like .fill and .map to generate new arrays, avoiding imperative loops.
- * @returns The initial state of the game.
+ * Builds the link to a puzzle, keeping the other settings in the URL.
+ * Impure function.
+ * It reads from the window location.
+ * @param code The code of the puzzle.
+ * @param editing Whether the link opens the puzzle in the editor rather than playing it.
+ * @returns The link.
  */
-const initialState: State = {
-    gameEnd: false,
-    block: createSquareBlock(STARTING_POSITION.x, STARTING_POSITION.y),
-    direction: "NONE",
-    grid: Array(Constants.GRID_HEIGHT).fill([]).map(() => Array(Constants.GRID_WIDTH).fill(0)), 
-    blockSettled: false,
-    gameGrid: emptyGameGrid(),
-    score: 0,
-    nextBlock: newBlock(),
-    highscore: 0,
-    clearedRows: 0,
-    currentLevel: 1,
-    currentBlockType: 'I',  
-    gamePaused: false,
-  } as const;
-
-/** ---------------------------------------------------------------- END OF GAME INITIALISATION ------------------------------------------------------------------------------------------------- */
-/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
-
+const puzzleUrl = (code: string, editing: boolean): string => {
+  const params = new URLSearchParams(window.location.search);
+  params.set("mode", 'PUZZLE');
+  return `${window.location.origin}${window.location.pathname}?${params.toString()}#${editing ? 'edit' : 'puzzle'}=${code}`;
+};
 
-/** ---------------------------------------------------------------- GAME MECHANICS ------------------------------------------------------------------------------------------------- */
 
 /**
- * Determines the game's tick rate based on the number of cleared rows.
- * Pure function. 
- * Given the same value for clearedRows, it will always return the same result. 
- * It computes the return value solely based on its input and the immutable Constants.TICK_RATE_MS, which is read-only and therefore cannot be changed externally.
- * The function does not interact with any external state or have any side effects. 
- * It only performs a computation based on its inputs and returns a value.
- * Functional programming style.
- * It uses conditional statements but avoids loops.
- * @param clearedRows The number of rows that have been cleared.
- * @returns The tick rate in milliseconds.
+ * Opens a puzzle, to play or to edit. The page is reloaded, as changing only the hash would not load it again.
+ * Impure function.
+ * It navigates the window.
+ * @param code The code of the puzzle.
+ * @param editing Whether to open the editor rather than play the puzzle.
+ * @returns void
  */
-const getTickRate = (clearedRows: number): number => {
-  if (clearedRows < 1) return Constants.TICK_RATE_MS * 1;
-  if (clearedRows >= 1) return Constants.TICK_RATE_MS * 0.1;
-  
-  return Constants.TICK_RATE_MS * 0.1; // This is the fastest it can go.
+const openPuzzle = (code: string, editing: boolean) => {
+  window.history.replaceState(null, '', puzzleUrl(code, editing));
+  window.location.reload();
 };
 
 
 /**
- * Checks if a given block will collide with either the bottom of the grid or another block.
- * Pure function.
- * Given the same block and grid inputs, it will always produce the same boolean output.
- * The function reads from block and grid and does not modify them, so it is immutable in that sense.
- * Functional programming style.
- * It uses the .some() method, which is more functional in nature.
- * @param block The block to check.
- * @param grid The grid to check against.
- * @returns True if the block will collide, false otherwise.
+ * Reads the bot's weights from the page URL (e.g. ?weights=-0.51,0.76,-0.36,-0.18), falling back to the defaults.
+ * Impure function.
+ * It reads from the window location.
+ * @returns The weights.
  */
-const willCollide = (block: Block, grid: number[][]): boolean => {
-  return block.some(point => {
-    const collidesWithBottom = point.y >= Constants.GRID_HEIGHT;
-    const collidesWithBlock = grid[point.y] && grid[point.y][point.x] === 1;
-    return collidesWithBottom || collidesWithBlock;
-  });
-};
+const botWeights = (): BotWeights => parseWeights(new URLSearchParams(window.location.search).get("weights") ?? '') ?? DEFAULT_WEIGHTS;
 
 
 /**
- * Checks if a given block is out of the grid bounds.
- * Pure function.
- * Given the same input block, the function will always produce the same boolean output. 
- * The function only reads from the block and Constants objects but does not modify them or any other external state. 
- * There are no side effects like I/O operations.
- * Functional programming style.
- * It uses the .some() method, which is more functional in nature.
- * @param block The block to check.
- * @returns True if the block is out of bounds, false otherwise.
+ * Reads the way of drawing the boards from the page URL (e.g. ?renderer=CANVAS), falling back to SVG.
+ * Impure function.
+ * It reads from the window location.
+ * @returns The renderer kind.
  */
-const isOutOfBound = (block: Block): boolean => {
-  return block.some(point => point.x < 0 || point.x >= Constants.GRID_WIDTH);
+const rendererKind = (): RendererKind => {
+  const rendererParam = new URLSearchParams(window.location.search).get("renderer");
+  return isRendererKind(rendererParam) ? rendererParam : 'SVG';
 };
 
 
 /**
- * Clears the full rows from the grid and game grid, and returns the new states along with the number of cleared rows.
- * Pure function.
- * The function takes two arguments grid and gameGrid and returns an object containing three properties: newGrid, newGameGrid, and clearedRows. 
- * Given the same grid and gameGrid, the function will always return the same output.
- * Immutable function.
- * The function generates new arrays for newGrid and newGameGrid and does not modify the original grid and gameGrid.
- * Functional programming style.
- * The function uses .filter() and Array.from() which are functional programming methods and avoid the need for loops.
+ * Checks whether the effects should be toned down: when the player asks for it, or the system prefers reduced motion.
+ * Impure function.
+ * It reads the system's media query.
+ * @param prefs The player's preferences.
+ * @returns True if motion is reduced.
  */
-const clearFullRows = (
-  grid: number[][], 
-  gameGrid: ('EMPTY' | 'FILLED')[][]
-): { newGrid: number[][], newGameGrid: ('EMPTY' | 'FILLED')[][], clearedRows: number } => {
-
-  // Filter out the full rows
-  const newGrid = grid.filter(row => row.some(cell => cell === 0));
-  const newGameGrid = gameGrid.filter(row => row.some(cell => cell !== 'FILLED'));
-
-  // Calculate the number of cleared rows
-  const clearedRows = grid.length - newGrid.length;
-
-  // Generate new empty rows
-  const emptyRows = Array.from({ length: clearedRows }, () => new Array(grid[0].length).fill(0));
-  const emptyGameRows = Array.from({ length: clearedRows }, () => new Array(gameGrid[0].length).fill('EMPTY'));
-
-  // Concatenate new empty rows to the top of the filtered grid
-  const finalGrid = [...emptyRows, ...newGrid];
-  const finalGameGrid = [...emptyGameRows, ...newGameGrid];
-
-  return { newGrid: finalGrid, newGameGrid: finalGameGrid, clearedRows };
-};
-
-/* ---------------------------------------------------------------- END OF GAME MECHANICS ------------------------------------------------------------------------------------------------- */
-/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
-
+const reducedMotion = (prefs: Preferences): boolean =>
+  prefs.display.reducedMotion || window.matchMedia("(prefers-reduced-motion: reduce)").matches;
 
-/** ---------------------------------------------------------------- STATE MANAGEMENT ------------------------------------------------------------------------------------------------- */
 
 /**
- * Updates the state by proceeding with one time step.
- *
- * Immutable function.
- * The function takes the current state as an argument and returns a new state object.
- * It creates new arrays (updatedGrid, updatedGameGrid) instead of altering the existing grid and gameGrid. 
- * It also returns a new state object instead of mutating the existing one. 
- * Functional programming style.
- * It uses the .map() method, which is more functional in nature.
- * It also uses the .some() method, which is more functional in nature.
- * Partial pure function.
- * Pure - most parts of tick is pure, as dealing only with their inputs and outputs without modifying external state.
- * Impure - its dependence on newBlock, which is not a pure function.
- * 
- * @param s Current state
- * @returns Updated state
+ * Opens the page of another game mode, keeping the other settings in the URL but leaving any puzzle behind.
+ * Versus has a page of its own, and Puzzle opens the editor.
+ * Impure function.
+ * It navigates the window.
+ * @param mode The game mode.
+ * @returns void
  */
-const tick = (s: State): State => {
-
-  if (s.gameEnd || s.gamePaused) return s;
-
-  if (s.blockSettled) {
-    const updatedGrid = s.grid.map(row => [...row]);
-    const updatedGameGrid = s.gameGrid.map(row => [...row]);
-    
-    s.block.forEach(point => {
-      updatedGrid[point.y][point.x] = 1;
-      updatedGameGrid[point.y][point.x] = 'FILLED';
-    });
-    
-    const newGeneratedBlock = newBlock();
-    if (willCollide(newGeneratedBlock, updatedGrid)) {
-      return { ...s, gameEnd: true };
-    }
-
-    if (updatedGrid[0].some(cell => cell === 1)) {
-      return { ...s, gameEnd: true };
-    }
-
-    const { newGrid, newGameGrid, clearedRows } = clearFullRows(updatedGrid, updatedGameGrid);
-    const newScore = s.score + (10 * clearedRows);
-    const newLevel = clearedRows > 0 ? s.currentLevel + 1 : s.currentLevel;
-
-    return {
-      ...s,
-      block: s.nextBlock,
-      nextBlock: newBlock(),
-      blockSettled: false,
-      direction: "NONE",
-      grid: newGrid,
-      gameGrid: newGameGrid,
-      score: newScore,
-      currentLevel: newLevel,
-    };
-  }
-
-  const xShift = s.direction === "LEFT" ? -1 : s.direction === "RIGHT" ? 1 : 0;
-  const nextBlock = s.block.map(p => ({ x: p.x + xShift, y: p.y + 1 }));
-
-  if (isOutOfBound(nextBlock)) {
-    nextBlock.forEach(p => p.x -= xShift); // Reverse the x shift
-  }
-
-  if (willCollide(nextBlock, s.grid)) {
-    return { ...s, blockSettled: true };
-  }
-
-  return { ...s, block: nextBlock, direction: "NONE" };
+const openMode = (mode: GameMode) => {
+  const params = new URLSearchParams(window.location.search);
+  params.set("mode", mode);
+  window.location.assign(`${window.location.pathname}?${params.toString()}`);
 };
 
 
-/** ---------------------------------------------------------------- END OF STATE MANAGEMENT ------------------------------------------------------------------------------------------------- */
-/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
-
-
-/** ---------------------------------------------------------------- BLOCK MANIPULATIONS ------------------------------------------------------------------------------------------------- */
-
 /**
- * Gets the center point of a block.
- * Pure function.
- * Given the same input block, the function will always return the same output. 
- * It calculates the center point of a given block based on the points within that block, so the output is entirely dependent on its input.
- * It uses the .reduce() method to calculate the sum of the x and y coordinates, but this is done without altering the original block array or the points within it.
- * Functional programming style.
- * It uses the .reduce() method, which is more functional in nature.
- * @param block The block to find the center for.
- * @returns The center point.
+ * Fills a select element with the game modes.
+ * Impure function.
+ * It replaces the options in the DOM.
+ * @param select The select element.
+ * @returns void
  */
-const getBlockCenter = (block: Block): Point => {
-  const sum = block.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
-  const length = block.length;
-  return { x: sum.x / length, y: sum.y / length };
+const fillModes = (select: HTMLSelectElement) => {
+  select.replaceChildren(...GAME_MODES.map(mode => {
+    const option = document.createElement("option");
+    option.value = mode;
+    option.text = MODE_RULES[mode].name;
+    return option;
+  }));
 };
 
 
 /**
- * Rotates a block around its center point.
- * Pure function.
- * Given the same input block and type, the function will always return the same output.
- * @param block The block to rotate.
- * The function doesn't change any external state or modify its input. 
- * It returns a new array with rotated points without altering the original block array or its points. 
- * The rotatePoint function also generates new points rather than modifying existing ones.
- * Functional programming style.
- * It uses the .map() method, which is more functional in nature.
- * @param type The type of the block (needed for special cases like 'O').
- * @returns The rotated block.
+ * Builds the rows of a key binding list: the name of each control, and a button showing its keys.
+ * Impure function.
+ * It creates DOM elements.
+ * @param bindings The key bindings.
+ * @param rebinding The control waiting for a new key, if any.
+ * @returns The rows.
  */
-const rotateBlock = (block: Block, type: string): Block => {
-  if (type === 'O') return block;
-  
-  const origin = getBlockCenter(block);
-
-  const rotatePoint = (point: Point, origin: Point): Point => ({
-    x: Math.round(origin.x + point.y - origin.y),
-    y: Math.round(origin.y - point.x + origin.x),
+const bindingRows = (bindings: Bindings, rebinding: Control | null): HTMLElement[] =>
+  CONTROLS.map(control => {
+    const row = document.createElement("div");
+    const name = document.createElement("span");
+    const keys = document.createElement("button");
+    row.className = "flex row";
+    name.textContent = CONTROL_NAMES[control];
+    keys.dataset.control = control;
+    keys.className = control === rebinding ? "waiting" : "";
+    keys.textContent = control === rebinding ? "Press a key…" : bindings[control].map(keyLabel).join(", ");
+    row.append(name, keys);
+    return row;
   });
 
-  return block.map(p => rotatePoint(p, origin));
-};
-
-/** ---------------------------------------------------------------- END OF BLOCK MANIPULATIONS ------------------------------------------------------------------------------------------------- */
-/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------ */
-
+/**
+ * Creates an observable for the page losing the keyboard: the window losing focus, or the page being hidden.
+ * Keys held at that moment are released elsewhere, so their keyup never reaches the page.
+ * Functional programming style.
+ * It uses the .filter() method, which is more functional in nature.
+ * @returns An observable that emits whenever the page loses the keyboard.
+ */
+const focusLost$ = (): Observable<Event> =>
+  merge(
+    fromEvent(window, 'blur'),
+    fromEvent(document, 'visibilitychange').pipe(filter(() => document.visibilityState === 'hidden'))
+  );
 
-/** ---------------------------------------------------------------- SVG RENDERING ------------------------------------------------------------------------------------------------- */
 
 /**
- * Creates an SVG element with the given properties.
- *
- * See https://developer.mozilla.org/en-US/docs/Web/SVG/Element for valid
- * element names and properties.
- * 
- * Functional programming style.
- * It uses Object.entries() and .forEach() to iterate over the properties and set them on the element.
- *
- * @param namespace Namespace of the SVG element
- * @param name SVGElement name
- * @param props Properties to set on the SVG element
- * @returns SVG element
+ * Plays the sound of one or more games: the sound effects each new state brings, and the music while they are
+ * running, at the highest level among them. Browsers only let a page make sound once it has been interacted with,
+ * so the audio starts on the first key press or touch. The volumes follow the player's preferences.
+ * Impure function.
+ * It creates an audio context and plays through it.
+ * @param games$ The states of the games on the page, in a fixed order, and whether they are running (not paused or over).
+ * @param preferences$ The player's preferences.
+ * @returns void
  */
-const createSvgElement = (
-  namespace: string | null,
-  name: string,
-  props: Record<string, string> = {}
-) => {
-  const elem = document.createElementNS(namespace, name) as SVGElement;
-  Object.entries(props).forEach(([k, v]) => elem.setAttribute(k, v));
-  return elem;
+const playAudio = (games$: Observable<{ states: readonly State[], running: boolean }>, preferences$: Observable<Preferences>) => {
+  const mixer$ = merge(fromEvent(document, 'keydown'), fromEvent(document, 'pointerdown')).pipe(
+    take(1),
+    filter(() => typeof AudioContext !== 'undefined'),
+    map(() => createMixer(createWebAudio(new AudioContext()))),
+    shareReplay(1)
+  );
+
+  combineLatest([mixer$, preferences$]).subscribe(([mixer, prefs]) => mixer.setVolumes(prefs.audio));
+
+  mixer$.pipe(
+    switchMap(mixer => games$.pipe(
+      map(game => ({ ...game, at: mixer.now() })),
+      scan(
+        (acc: { states: readonly State[], music: MusicState, sounds: SoundEffect[], tones: Tone[], at: number }, { states, running, at }) => ({
+          states,
+          at,
+          sounds: states.flatMap((s, i) => (acc.states[i] ? soundsOf(acc.states[i], s) : [])),
+          ...stepMusic(acc.music, at, Math.max(...states.map(s => s.currentLevel)), running),
+        }),
+        { states: [], music: initialMusic, sounds: [], tones: [], at: 0 }
+      ),
+      map(frame => ({ mixer, frame }))
+    ))
+  ).subscribe(({ mixer, frame }) => {
+    if (frame.sounds.length > 0) mixer.play(frame.sounds);
+    mixer.playMusic(frame.tones, frame.at);
+  });
 };
 
-/** ---------------------------------------------------------------- END OF SVG RENDERING ------------------------------------------------------------------------------------------------- */
-/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+/** ---------------------------------------------------------------- END OF PAGE SETUP ------------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
 
 
 /** ---------------------------------------------------------------- MAIN FUNCTION ------------------------------------------------------------------------------------------------- */
@@ -600,260 +371,649 @@ const createSvgElement = (
  */
 
 export function main() {
+  const { seed, settings } = gameSetup();
+  if (settings.mode === 'VERSUS') {
+    versus(seed, settings);
+    return;
+  }
+  const link = puzzleLink();
+  if (link?.editing || (settings.puzzle === null && (link !== null || settings.mode === 'PUZZLE'))) {
+    editor(settings, link?.code ?? null);
+    return;
+  }
 
 
   /******************************** DOM elements ****************************************/
 
-  const svg = document.querySelector("#svgCanvas") as SVGGraphicsElement &
-    HTMLElement;
-  const preview = document.querySelector("#svgPreview") as SVGGraphicsElement &
-    HTMLElement;
+  const svg = document.querySelector("#svgCanvas") as SvgCanvas;
+  const preview = document.querySelector("#svgPreview") as SvgCanvas;
+  const hold = document.querySelector("#svgHold") as SvgCanvas;
   const gameover = document.querySelector("#gameOver") as SVGGraphicsElement &
     HTMLElement;
+  const exportReplay = document.querySelector("#exportReplay") as HTMLButtonElement;
+  const importReplay = document.querySelector("#importReplay") as HTMLInputElement;
+  const playbackControls = document.querySelector("#playbackControls") as HTMLElement;
+  const playbackPause = document.querySelector("#playbackPause") as HTMLButtonElement;
+  const playbackSpeed = document.querySelector("#playbackSpeed") as HTMLSelectElement;
+  const playbackSeek = document.querySelector("#playbackSeek") as HTMLInputElement;
+  const playbackExit = document.querySelector("#playbackExit") as HTMLButtonElement;
+  const nameForm = document.querySelector("#nameForm") as HTMLFormElement;
+  const nameInput = document.querySelector("#nameInput") as HTMLInputElement;
+  const leaderboardList = document.querySelector("#leaderboardList") as HTMLOListElement;
+  const exportLeaderboard = document.querySelector("#exportLeaderboard") as HTMLButtonElement;
+  const importLeaderboard = document.querySelector("#importLeaderboard") as HTMLInputElement;
+  const resumeBox = document.querySelector("#resumeBox") as HTMLElement;
+  const resumeYes = document.querySelector("#resumeYes") as HTMLButtonElement;
+  const resumeNo = document.querySelector("#resumeNo") as HTMLButtonElement;
+  const dasInput = document.querySelector("#dasInput") as HTMLInputElement;
+  const arrInput = document.querySelector("#arrInput") as HTMLInputElement;
+  const sdfInput = document.querySelector("#sdfInput") as HTMLInputElement;
+  const nextInput = document.querySelector("#nextInput") as HTMLInputElement;
+  const motionInput = document.querySelector("#motionInput") as HTMLInputElement;
+  const sfxInput = document.querySelector("#sfxInput") as HTMLInputElement;
+  const musicInput = document.querySelector("#musicInput") as HTMLInputElement;
+  const muteInput = document.querySelector("#muteInput") as HTMLInputElement;
+  const bindingList = document.querySelector("#bindingList") as HTMLElement;
+  const resetBindings = document.querySelector("#resetBindings") as HTMLButtonElement;
+  const gestureList = document.querySelector("#gestureList") as HTMLElement;
+  const modeSelect = document.querySelector("#modeSelect") as HTMLSelectElement;
+  const resultTitle = document.querySelector("#resultTitle") as HTMLElement;
+  const resultList = document.querySelector("#resultList") as HTMLElement;
+  const statsList = document.querySelector("#statsList") as HTMLElement;
+  const leaderboardTitle = document.querySelector("#leaderboardTitle") as HTMLElement;
+  const swipeUpInput = document.querySelector("#swipeUpInput") as HTMLSelectElement;
+  const autoplayInput = document.querySelector("#autoplayInput") as HTMLInputElement;
+  const hintInput = document.querySelector("#hintInput") as HTMLInputElement;
+  const puzzleBox = document.querySelector("#puzzleBox") as HTMLElement;
+  const editPuzzle = document.querySelector("#editPuzzle") as HTMLButtonElement;
 
 
   /******************************** Setting attribute ****************************************/
   
-  svg.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
-  svg.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
-  preview.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
-  preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+  fillModes(modeSelect);
+  swipeUpInput.replaceChildren(...SWIPE_UP_CONTROLS.map(control => {
+    const option = document.createElement("option");
+    option.value = control;
+    option.text = CONTROL_NAMES[control];
+    return option;
+  }));
+  playbackSpeed.replaceChildren(...PLAYBACK_SPEEDS.map(speed => {
+    const option = document.createElement("option");
+    option.value = `${speed}`;
+    option.text = `${speed}×`;
+    option.selected = speed === 1;
+    return option;
+  }));
 
 
   /******************************** Text fields ***********************************************/
 
+  const seedText = document.querySelector("#seedText") as HTMLElement;
   const levelText = document.querySelector("#levelText") as HTMLElement;
+  const linesText = document.querySelector("#linesText") as HTMLElement;
+  const timeText = document.querySelector("#timeText") as HTMLElement;
+  const remainingText = document.querySelector("#remainingText") as HTMLElement;
+  const remainingBox = document.querySelector("#remainingBox") as HTMLElement;
+  const remainingLabel = document.querySelector("#remainingLabel") as HTMLElement;
   const scoreText = document.querySelector("#scoreText") as HTMLElement;
   const highScoreText = document.querySelector("#highScoreText") as HTMLElement;
+  const clearText = document.querySelector("#clearText") as HTMLElement;
+  const replayText = document.querySelector("#replayText") as HTMLElement;
+  const leaderboardText = document.querySelector("#leaderboardText") as HTMLElement;
+  const bindingText = document.querySelector("#bindingText") as HTMLElement;
+  const goalText = document.querySelector("#goalText") as HTMLElement;
+
+
+  /**
+   * The renderer of the board, chosen from the URL when the page loads.
+   */
+  const renderer = createRenderer(rendererKind(), svg);
+
+
+  /******************************** Game setup ***********************************************/
+
+  /**
+   * BehaviorSubject holding the player's preferences, loaded from the browser's storage.
+   */
+  const preferences$ = new BehaviorSubject<Preferences>(loadPreferences(localStorage));
+
+
+  /**
+   * BehaviorSubject holding the game mode new games are started in: the one from the URL, until the player picks another.
+   */
+  const gameMode$ = new BehaviorSubject<GameMode>(settings.mode);
+
+
+  /**
+   * The weights the bot plays and hints with.
+   */
+  const weights = botWeights();
+
+
+  /**
+   * BehaviorSubject holding whether the bot plays the live game (the autoplay demo).
+   */
+  const autoplay$ = new BehaviorSubject<boolean>(false);
+
+
+  /**
+   * BehaviorSubject holding whether the bot's placement for the block in play is shown as a hint.
+   */
+  const hint$ = new BehaviorSubject<boolean>(false);
+
+
+  /**
+   * Starts a new live game with the settings from the URL, the chosen game mode and the player's soft drop factor.
+   * Pure function.
+   * @param prefs The player's preferences.
+   * @param mode The game mode.
+   * @returns The new session.
+   */
+  const newSession = (prefs: Preferences, mode: GameMode): Session =>
+    startSession(seed, { ...settings, mode, softDropFactor: prefs.handling.softDropFactor });
+
+
+  /**
+   * Reads the game saved by the last visit, if it can be resumed.
+   * Impure function.
+   * It reads from the browser's storage. A saved game that cannot be restored (or has already ended) is forgotten.
+   */
+  const saved = loadSnapshot(localStorage);
+  const resumable: Snapshot | null = saved && 'snapshot' in saved && !saved.snapshot.session.state.gameEnd ? saved.snapshot : null;
+  if (saved && !resumable) clearSnapshot(localStorage);
 
 
   /************************************ Event Listeners **************************************/
 
   /**
-   * Creates an observable for keyboard press events.
+   * Checks whether a key event is typing into a text field (e.g. the leaderboard name), rather than playing.
+   * Pure function.
+   * @param evt The key event.
+   * @returns True if the event targets an input element.
    */
-  const key$ = fromEvent<KeyboardEvent>(document, "keypress");
+  const isTyping = (evt: KeyboardEvent): boolean => evt.target instanceof HTMLInputElement;
+
 
+  /**
+   * BehaviorSubject holding the control waiting for a new key, or null when no control is being rebound.
+   */
+  const rebinding$ = new BehaviorSubject<Control | null>(null);
 
-  /******************************** Observables ******************************************/      
 
   /**
-   * Creates an observable for directional keys (A, D, S) and their corresponding directions ('LEFT', 'RIGHT', 'DOWN').
-   * The observable emits the direction when the key is down.
-   * The observable starts with 'NONE' as the initial direction.
+   * Creates an observable for the controls pressed or released, through the player's key bindings.
+   * Keys typed into text fields, keys caught for rebinding and the operating system's key repeat are ignored:
+   * auto shift is timed by the controller instead.
    * Functional programming style.
    * It uses the .filter() and .map() methods, which are more functional in nature.
-   * @returns An observable for the direction. 
-  */
-  const direction$ = merge(
-    key$.pipe(filter(evt => evt.code === 'KeyA'), map(() => 'LEFT')),
-    key$.pipe(filter(evt => evt.code === 'KeyD'), map(() => 'RIGHT')),
-    key$.pipe(filter(evt => evt.code === 'KeyS'), map(() => 'DOWN')),
-  ).pipe(startWith('NONE'));
+   * @param type The event type: keydown or keyup.
+   * @returns An observable for the controls.
+   */
+  const control$ = (type: 'keydown' | 'keyup'): Observable<Control> =>
+    fromEvent<KeyboardEvent>(document, type).pipe(
+      filter(evt => !isTyping(evt) && !evt.repeat),
+      withLatestFrom(preferences$, rebinding$),
+      filter(([, , rebinding]) => rebinding === null),
+      map(([evt, prefs]) => ({ evt, control: controlFor(prefs.bindings, evt.code) })),
+      filter((bound): bound is { evt: KeyboardEvent, control: Control } => bound.control !== undefined),
+      map(({ evt, control }) => {
+        evt.preventDefault();  // Keep arrow keys and Space from scrolling the page
+        return control;
+      })
+    );
+
 
+  /**
+   * Creates an observable for the controls pressed and released by touch and pointer gestures on the board.
+   * The pointer is captured when it goes down, so a stroke carries on when it leaves the board.
+   * Functional programming style.
+   * It uses a scan operator to follow the stroke, and the .filter() and .map() methods.
+   * @returns An observable for the gesture input events.
+   */
+  const gesture$ = (): Observable<InputEvent> =>
+    merge(...['pointerdown', 'pointermove', 'pointerup', 'pointercancel'].map(type => fromEvent<PointerEvent>(renderer.element, type))).pipe(
+      map(evt => {
+        evt.preventDefault();  // Keep touches from scrolling or zooming the page
+        if (evt.type === 'pointerdown') renderer.element.setPointerCapture(evt.pointerId);
+        return pointerSample(evt);
+      }),
+      filter((sample): sample is PointerSample => sample !== undefined),
+      withLatestFrom(preferences$),
+      scan(
+        ({ gesture }, [sample, prefs]) => stepGesture(gesture, sample, prefs.gestures),
+        { gesture: initialGesture, events: [] as InputEvent[] }
+      ),
+      mergeMap(({ events }) => from(events))
+    );
+
+
+  /******************************** Observables ******************************************/
 
   /**
-   * Creates an observable for the restart key (R), emitting when the key is down.
+   * Every input the controller reacts to: the engine clock, and the controls pressed and released by keys and gestures.
+   * Every held control is released when the page loses the keyboard, so that auto shift and soft drop stop.
    * Functional programming style.
-   * It uses the .filter() method, which is more functional in nature.
-   * @returns An observable for the restart key.
+   * It uses the .map() method, which is more functional in nature.
+   * @returns An observable for the input events.
    */
-  const keyRestart$ = fromEvent<KeyboardEvent>(document, 'keydown').pipe(
-    filter(event => event.code === 'KeyR')
+  const input$: Observable<InputEvent> = merge(
+    interval(Constants.FRAME_MS).pipe(map((): InputEvent => ({ kind: 'FRAME' }))),  // The engine clock; gravity, lock delay and auto shift count frames
+    control$('keydown').pipe(map((control): InputEvent => ({ kind: 'DOWN', control }))),
+    control$('keyup').pipe(map((control): InputEvent => ({ kind: 'UP', control }))),
+    gesture$(),
+    focusLost$().pipe(mergeMap(() => from(RELEASE_ALL))),
   );
 
 
   /**
-   * Creates an observable for the rotation key (T), emitting 'ROTATE'.
+   * BehaviorSubject holding the session the live game starts from: a new game, or a resumed one.
+   * It holds null while the player has not yet chosen whether to resume the saved game.
+   */
+  const start$ = new BehaviorSubject<Session | null>(resumable ? null : newSession(preferences$.value, gameMode$.value));
+
+
+  /**
+   * Main game observable, which feeds the engine clock and the player's controls through the controller
+   * (which times auto shift) and uses a scan operator to maintain the game state and its recording.
+   * During autoplay the bot adds its own actions on each frame, recorded like the player's; a game the bot
+   * has played stays assisted until it is restarted. The statistics follow every state, with the controls the
+   * player pressed (the bot's actions are not presses); a resumed game counts them again from its recording.
    * Functional programming style.
-   * It uses the .filter() and .map() methods, which are more functional in nature.
-   * @returns An observable for the rotation key.
+   * It uses the .pipe() method, which is more functional in nature.
+   * @returns An observable for the game.
    */
-  const rotate$ = key$.pipe(
-    filter(({ code }) => code === "KeyT"),
-    map(() => 'ROTATE')
+  const game$: Observable<View> = start$.pipe(
+    filter((start): start is Session => start !== null),
+    switchMap(start => input$.pipe(
+      withLatestFrom(preferences$, autoplay$),
+      scan(
+        ({ session, input, bot, assisted, stats }, [event, prefs, autoplay]) => {
+          const handled = stepInput(input, event, prefs.handling);
+          const played = autoplay && event.kind === 'FRAME'
+            ? stepBot(bot, session.state, weights)
+            : { bot: autoplay ? bot : initialBot, actions: [] };  // Plan afresh when autoplay is turned back on
+          const actions = [...played.actions, ...handled.actions];
+          const next = actions.reduce(recordStep, session);
+          return {
+            session: next,
+            input: handled.input,
+            bot: played.bot,
+            assisted: actions.includes('RESTART') ? autoplay : assisted || autoplay,
+            stats: stepStats(stats, session.state, next.state, event.kind === 'DOWN' && !autoplay ? [event.control] : []),
+          };
+        },
+        {
+          session: start,
+          input: initialInput,
+          bot: initialBot as BotState,
+          assisted: false,
+          stats: start.recording.frames > 0 ? replayStats(start.recording) : initialStats,
+        }
+      )
+    )),
+    map(({ session: { state, recording }, assisted, stats }) => ({ state, recording, playback: null, assisted, stats }))
   );
 
+
   /**
-   * Creates an observable for the pause key (P), emitting 'PAUSE'.
+   * Creates an observable that plays back a replay through the same reducer as the live game.
+   * The playback controls pause, change the speed (0.5× to 4×) and seek. The statistics follow each frame
+   * played, and are counted again from the start of the replay after a seek.
    * Functional programming style.
-   * It uses the .filter() and .map() methods, which are more functional in nature.
-   * @returns An observable for the pause key.
+   * It uses the .pipe() method, which is more functional in nature.
+   * @param replay The replay to play.
+   * @returns An observable for the replay.
    */
-  const pause$ = key$.pipe(
-    filter(({ code }) => code === 'KeyP'),
-    map(() => 'PAUSE')
-  );
-  
+  const playback$ = (replay: GameReplay): Observable<View> => {
+    const speed$ = fromEvent(playbackSpeed, 'change').pipe(
+      map((): PlaybackCommand => ({ kind: 'SPEED', speed: Number(playbackSpeed.value) }))
+    );
+    const step$ = speed$.pipe(
+      map(command => (command.kind === 'SPEED' ? command.speed : 1)),
+      startWith(Number(playbackSpeed.value)),
+      switchMap(speed => interval(Constants.FRAME_MS / speed)),
+      map((): PlaybackCommand => ({ kind: 'STEP' }))
+    );
+    const toggle$ = fromEvent(playbackPause, 'click').pipe(map((): PlaybackCommand => ({ kind: 'TOGGLE' })));
+    const seek$ = fromEvent(playbackSeek, 'input').pipe(
+      map((): PlaybackCommand => ({ kind: 'SEEK', frame: Number(playbackSeek.value) }))
+    );
+
+    return merge(step$, speed$, toggle$, seek$).pipe(
+      scan(
+        ({ pb, stats }: { pb: Playback<State, GameSettings, Action>, stats: StatsState }, command: PlaybackCommand) => {
+          const next = applyPlaybackCommand(REPLAY_ENGINE, pb, command);
+          return {
+            pb: next,
+            stats: command.kind === 'SEEK' ? replayStats(replay, next.state.frame) : stepStats(stats, pb.state, next.state, null),
+          };
+        },
+        { pb: startPlayback(REPLAY_ENGINE, replay, Number(playbackSpeed.value)), stats: { ...initialStats, inputs: null } }
+      ),
+      map(({ pb, stats }) => ({ state: pb.state, recording: replay, playback: pb, assisted: false, stats }))
+    );
+  };
 
-  /******************************** Observables Functions ******************************************/
 
   /**
-   * BehaviorSubject that controls the game tick rate.
+   * BehaviorSubject holding the replay being played back, or null while playing live.
    */
-  const tickRate$ = new BehaviorSubject<number>(Constants.TICK_RATE_MS);  // Initialize with the default tick rate
+  const mode$ = new BehaviorSubject<GameReplay | null>(null);
 
 
   /**
-   * Main game observable, which merges several observables related to game actions and uses a scan
-   * operator to maintain game state.
+   * What is on screen: the live game, or the replay being played back.
+   * Switching mode ends the previous game or playback.
    * Functional programming style.
    * It uses the .pipe() method, which is more functional in nature.
-   * @returns An observable for the game.
+   * @returns An observable for the view.
    */
-  const game$ = merge(
-    tickRate$.pipe(
-      switchMap(rate => interval(rate)),
-      map(() => 'TICK')
-    ),
-    rotate$,
-    direction$,
-    pause$,
-    keyRestart$.pipe(map(() => 'RESTART'))  // Adding restart observable here
-  ).pipe(
-    scan((state: State, event) => {
-      switch (event) {
-        case 'TICK':
-          const newState = tick(state);
-          
-          // Update tick rate based on cleared rows, if it has changed.
-          const newRate = getTickRate(newState.clearedRows);
-          if (newRate !== tickRate$.getValue()) {
-            tickRate$.next(newRate);
-          }
-
-          return newState;
-          
-        case 'LEFT':
-        case 'RIGHT':
-        case 'DOWN':
-          if (state.direction === "NONE") {
-            return { ...state, direction: event };
-          }
-          return state;
-          
-        case 'RESTART':  // Adding restart case here
-          tickRate$.next(Constants.TICK_RATE_MS); // Reset the tick rate
-          return { ...initialState, highscore: state.highscore };
-
-        case 'ROTATE':
-          const newBlock = rotateBlock(state.block, state.currentBlockType);
-          if (!isOutOfBound(newBlock) && !willCollide(newBlock, state.grid)) {
-            return { ...state, block: newBlock };
-          }
-        case 'PAUSE':
-          return { ...state, gamePaused: !state.gamePaused };  // Toggle the pause state
-  
-        
-        default:
-          return state;
-      }
-    }, initialState)
+  const view$: Observable<View> = mode$.pipe(
+    switchMap(replay => (replay ? playback$(replay) : game$)),
+    share()
   );
 
-  
-
-  /************************************** Rendering ********************************************************/
 
   /**
-   * Renders the current state to the canvas.
-   *
-   * In MVC terms, this updates the View using the Model.
+   * The view, with where the bot would place the block in play when the hint is shown.
+   * The bot only plans again when a new block comes into play or the board changes, not on every frame.
    * Functional programming style.
-   * It uses the .forEach() method, which is more functional in nature.
-   *
-   * Impure function.
-   * It contains side effects like rendering to the DOM and modifying the DOM.
-   * Cannnot be pure.
-   * It cannot be made pure because it needs to modify the DOM.
-   * 
-   * @param s Current state
-   * @returns void
+   * It uses a scan operator to keep the last hint, rather than a mutable cache.
+   * @returns An observable for the view and its hint.
    */
-  const render = (s: State) => {
-    svg.innerHTML = '';  // Clear previous blocks
-  
-    // Render blocks from gameGrid
-    s.gameGrid.forEach((row, y) => {
-      row.forEach((cell, x) => {
-        if (cell === 'FILLED') {
-          const cube = createSvgElement(svg.namespaceURI, "rect", {
-            height: `${Block.HEIGHT}`,
-            width: `${Block.WIDTH}`,
-            x: `${x * Block.WIDTH}`,
-            y: `${y * Block.HEIGHT}`,
-            style: "fill: pink",  // Use a different color for settled blocks, or keep it green
-          });
-          svg.appendChild(cube);
-        }
-      });
-      scoreText.innerText = `${s.score}`;
-      highScoreText.innerText = `${s.highscore}`;
-      levelText.innerText = `${s.currentLevel}`;
-    });
-  
-    // Render the current block
-    s.block.forEach(p => {
-      const cube = createSvgElement(svg.namespaceURI, "rect", {
-        height: `${Block.HEIGHT}`,
-        width: `${Block.WIDTH}`,
-        x: `${p.x * Block.WIDTH}`,
-        y: `${p.y * Block.HEIGHT}`,
-        style: "fill: red",
-      });
-      svg.appendChild(cube);
-    });
+  const hinted$: Observable<{ view: View, hint: Block | null }> = view$.pipe(
+    withLatestFrom(hint$),
+    scan(
+      (acc: { view: View | null, hint: Block | null }, [v, hintOn]: [View, boolean]) => {
+        const s = v.state;
+        const previous = acc.view?.state;
+        const samePiece = acc.hint !== null && previous !== undefined
+          && previous.pieces === s.pieces && previous.holdUsed === s.holdUsed && previous.grid === s.grid;
+        return {
+          view: v,
+          hint: !hintOn || s.gameEnd || s.phase !== 'FALLING' ? null : samePiece ? acc.hint : plan(s, weights)?.block ?? null,
+        };
+      },
+      { view: null, hint: null }
+    ),
+    map(({ view, hint }) => ({ view: view!, hint }))
+  );
+
 
-    preview.innerHTML = '';  // Clear previous preview
+  /**
+   * The view with the scene of its board, and the state and scene drawn before it, so that only what changed is drawn again.
+   * Functional programming style.
+   * It uses a scan operator to pair each scene with the one before it.
+   * @returns An observable for the view and its scenes.
+   */
+  const scene$: Observable<{ view: View, scene: Scene, previous: Drawn | null }> = hinted$.pipe(
+    withLatestFrom(preferences$),
+    map(([{ view, hint }, prefs]) => ({ view, scene: sceneOf(view.state, prefs.display.nextPieces, hint, reducedMotion(prefs)) })),
+    scan(
+      (acc: { view: View, scene: Scene, previous: Drawn | null } | null, drawn) =>
+        ({ ...drawn, previous: acc && { state: acc.view.state, scene: acc.scene } }),
+      null
+    ),
+    filter((drawn): drawn is { view: View, scene: Scene, previous: Drawn | null } => drawn !== null)
+  );
 
-    
-    /* -------------------- BLCOCK PREVIEW ----------------------------------------- */
 
-    // Calculate the min and max x and y coordinates of the block
-    const minX = Math.min(...s.nextBlock.map(p => p.x));
-    const maxX = Math.max(...s.nextBlock.map(p => p.x));
-    const minY = Math.min(...s.nextBlock.map(p => p.y));
-    const maxY = Math.max(...s.nextBlock.map(p => p.y));
+  /**
+   * BehaviorSubject holding the leaderboard, loaded from the browser's storage.
+   */
+  const leaderboard$ = new BehaviorSubject<Leaderboard>(loadLeaderboard(localStorage));
 
-    // Calculate the dimensions of the block's bounding box
-    const totalBlockWidth = (maxX - minX + 1) * Block.WIDTH;
-    const totalBlockHeight = (maxY - minY + 1) * Block.HEIGHT;
 
-    // Calculate centering offsets
-    const xOffset = (Viewport.PREVIEW_WIDTH - totalBlockWidth) / 2;
-    const yOffset = (Viewport.PREVIEW_HEIGHT - totalBlockHeight) / 2;
-  
-    s.nextBlock.forEach(p => {
-      const cube = createSvgElement(preview.namespaceURI, "rect", {
-        height: `${Block.HEIGHT}`,
-        width: `${Block.WIDTH}`,
-        x: `${(p.x - minX) * Block.WIDTH + xOffset}`, // Shift by minX and add xOffset
-        y: `${(p.y - minY) * Block.HEIGHT + yOffset}`, // Shift by minY and add yOffset
-        style: "fill: blue",  // Use a neutral color for preview blocks
-      });
-      preview.appendChild(cube);
-    });
-  };
+  /**
+   * Checks whether the view shows a live game that has ended. Replays never reach the leaderboard.
+   * Pure function.
+   * @param v The view.
+   * @returns True if a live game has ended.
+   */
+  const liveGameEnded = (v: View): boolean => v.playback === null && v.state.gameEnd;
 
-  
-  /************************************ Subscriptions *****************************************/
 
   /**
-   * Main game subscription. It takes care of rendering, pausing, and ending the game.
+   * The view whenever a live game ends, and whenever that stops being the case (a restart or a replay).
    * Functional programming style.
-   * It uses the .subscribe() method, which is more functional in nature.
-   * It also uses the .unsubscribe() method to unsubscribe from the observable when the game ends.
-   * It does not contain any loops.
+   * It uses the .distinctUntilChanged() method rather than keeping a flag.
+   * @returns An observable for the view at each change.
+   */
+  const gameEnd$: Observable<View> = view$.pipe(
+    distinctUntilChanged((a, b) => liveGameEnded(a) === liveGameEnded(b))
+  );
+
+
+  /**
+   * Creates the leaderboard entry of a finished game, with its statistics.
+   * Pure function.
+   * @param v The view of the finished game.
+   * @param name The player's name.
+   * @param date When the game ended.
+   * @returns The leaderboard entry.
+   */
+  const entryOf = ({ state: s, stats }: View, name: string, date: number): LeaderboardEntry => ({
+    name,
+    score: s.score,
+    lines: s.clearedRows,
+    level: s.currentLevel,
+    durationMs: s.frame * Constants.FRAME_MS,
+    date,
+    stats: summarizeStats(stats, s),
+  });
+
+
+  /************************************** Rendering ********************************************************/
+
+  /**
+   * The view of the board, the hold, the next queue and the score.
+   */
+  const boardView = createBoardView({ board: renderer, hold, preview, score: scoreText, level: levelText, lines: linesText, clear: clearText });
+
+
+  /**
+   * Renders the game mode, the game clock and the lines (or, in Dig, the garbage rows) left to the goal.
+   * A puzzle shows its goal and the pieces it has left instead.
+   * Impure function.
+   * It modifies the DOM.
+   * @param s Current state
+   * @returns void
+   */
+  const renderClock = (s: State) => {
+    const { mode, puzzle } = s.settings;
+    const timeMs = s.frame * Constants.FRAME_MS;
+    const pieces = piecesLeft(s);
+    const remaining = pieces ?? linesRemaining(mode, { lines: s.clearedRows, timeMs, garbageLeft: s.digRows.length });
+    modeSelect.value = mode;
+    timeText.innerText = formatClock(clockTime(mode, timeMs));
+    remainingBox.style.display = remaining === null ? "none" : "block";
+    remainingLabel.innerText = pieces !== null ? "Pieces left: " : MODE_RULES[mode].digGoal ? "Garbage left: " : "Lines left: ";
+    remainingText.innerText = `${remaining ?? ''}`;
+    puzzleBox.style.display = puzzle === null ? "none" : "flex";
+    goalText.innerText = puzzle === null ? '' : describeGoal(puzzle.goal);
+  };
+
+
+  /**
+   * Creates the row of a statistic, its label on the left and its value on the right.
+   * Impure function.
+   * It creates DOM elements, without adding them to the page.
+   * @param label The name of the statistic.
+   * @param value Its value.
+   * @returns The row.
+   */
+  const statRow = ([label, value]: [string, string]): HTMLElement => {
+    const row = document.createElement("div");
+    const name = document.createElement("span");
+    const number = document.createElement("span");
+    row.className = "text";
+    name.className = "left";
+    name.textContent = `${label}: `;
+    number.className = "right";
+    number.textContent = value;
+    row.append(name, number);
+    return row;
+  };
+
+
+  /**
+   * Renders the results screen of a finished game: the statistics that matter in its mode, followed by
+   * the rest of its statistics in detail.
+   * Impure function.
+   * It replaces the result rows in the DOM.
+   * @param v The view of the finished game.
+   * @returns void
+   */
+  const renderResults = ({ state: s, stats }: View) => {
+    const results = modeResults(s.settings.mode, {
+      score: s.score,
+      lines: s.clearedRows,
+      level: s.currentLevel,
+      timeMs: s.frame * Constants.FRAME_MS,
+      completed: s.completed,
+    });
+    const detail = statsRows(summarizeStats(stats, s), true).filter(([label]) => !results.rows.some(([shown]) => shown === label));
+    resultTitle.innerText = results.title;
+    resultList.replaceChildren(...[...results.rows, ...detail].map(statRow));
+  };
+
+
+  /**
+   * Renders the live statistics of the game. The rows are only created once; after that, their values are
+   * updated in place on every frame.
+   * Impure function.
+   * It modifies the DOM.
+   * @param v The current view.
+   * @returns void
+   */
+  const renderStats = ({ state: s, stats }: View) => {
+    const rows = statsRows(summarizeStats(stats, s), false);
+    if (statsList.children.length !== rows.length) statsList.replaceChildren(...rows.map(statRow));
+    rows.forEach(([, value], i) => {
+      const number = statsList.children[i].lastElementChild!;
+      if (number.textContent !== value) number.textContent = value;
+    });
+  };
+
+
+  /**
+   * Renders the current state: the board, the seed and the game clock.
+   * Impure function.
+   * It modifies the DOM.
+   * @param s Current state
+   * @param scene The scene of the board.
+   * @param previous The state and scene drawn last, or null to draw everything.
+   * @returns void
+   */
+  const render = (s: State, scene: Scene, previous: Drawn | null) => {
+    boardView.draw(previous && previous.scene, scene);
+    if (previous?.state.seed !== s.seed) seedText.innerText = `${s.seed}`;
+    renderClock(s);
+  };
+
+  
+  /**
+   * Renders the leaderboard of a game mode, leading with the time when the mode is ranked by time.
+   * Entries saved with their statistics show their pieces per second, and the rest of them on hover.
+   * Impure function.
+   * It replaces the list items in the DOM. Names are set as text, so they are never read as HTML.
+   * @param board The leaderboard.
+   * @param mode The game mode.
+   * @returns void
+   */
+  const renderLeaderboard = (board: Leaderboard, mode: GameMode) => {
+    leaderboardTitle.innerText = `Leaderboard: ${MODE_RULES[mode].name}`;
+    leaderboardList.replaceChildren(...topEntries(board, mode).map(entry => {
+      const item = document.createElement("li");
+      const pps = entry.stats ? `, ${entry.stats.pps.toFixed(2)} PPS` : '';
+      item.textContent = MODE_RULES[mode].ranking === 'TIME'
+        ? `${entry.name} ${formatClock(entry.durationMs)} (${entry.score} points, ${entry.lines} lines${pps})`
+        : `${entry.name} ${entry.score} (L${entry.level}, ${entry.lines} lines, ${formatClock(entry.durationMs)}${pps})`;
+      item.title = [
+        new Date(entry.date).toLocaleString(),
+        ...(entry.stats ? statsRows(entry.stats, true).map(([label, value]) => `${label}: ${value}`) : []),
+      ].join('\n');
+      return item;
+    }));
+  };
+
+
+  /**
+   * Renders the handling settings, the gesture thresholds and the key bound to each control.
+   * Impure function.
+   * It replaces the binding rows in the DOM.
+   * @param prefs The player's preferences.
+   * @param rebinding The control waiting for a new key, if any.
+   * @returns void
+   */
+  const renderControls = (prefs: Preferences, rebinding: Control | null) => {
+    dasInput.value = `${prefs.handling.das}`;
+    arrInput.value = `${prefs.handling.arr}`;
+    sdfInput.value = `${prefs.handling.softDropFactor}`;
+    nextInput.value = `${prefs.display.nextPieces}`;
+    motionInput.checked = prefs.display.reducedMotion;
+    sfxInput.value = `${Math.round(prefs.audio.sfx * 100)}`;
+    musicInput.value = `${Math.round(prefs.audio.music * 100)}`;
+    muteInput.checked = prefs.audio.muted;
+    swipeUpInput.value = prefs.gestures.swipeUp;
+    gestureList.replaceChildren(...(Object.keys(GESTURE_THRESHOLDS) as GestureThreshold[]).map(key => {
+      const label = document.createElement("label");
+      const input = document.createElement("input");
+      const { name, min, max } = GESTURE_THRESHOLDS[key];
+      label.className = "setting";
+      label.textContent = `${name} `;
+      Object.assign(input, { type: "number", min: `${min}`, max: `${max}`, step: "1", value: `${prefs.gestures[key]}` });
+      input.dataset.threshold = key;
+      label.append(input);
+      return label;
+    }));
+    bindingList.replaceChildren(...bindingRows(prefs.bindings, rebinding));
+  };
+
+
+  /************************************ Subscriptions *****************************************/
+
+  /**
+   * Renders the replay controls: hidden for a live game, and showing the position and speed during playback.
+   * Impure function.
+   * It modifies the DOM.
+   * @param v The current view.
+   * @returns void
+   */
+  const renderReplay = (v: View) => {
+    playbackControls.style.display = v.playback ? "flex" : "none";
+    if (!v.playback) return;
+
+    playbackPause.innerText = v.playback.paused ? "Play" : "Pause";
+    playbackSeek.max = `${v.playback.replay.frames}`;
+    playbackSeek.value = `${v.state.frame}`;
+    replayText.innerText = v.playback.finished
+      ? "Replay finished"
+      : `Replay ${(v.state.frame * Constants.FRAME_MS / 1000).toFixed(1)}s / ${(v.playback.replay.frames * Constants.FRAME_MS / 1000).toFixed(1)}s`;
+  };
+
+
+  /**
+   * Main game subscription. It takes care of rendering, pausing, and ending the game,
+   * for the live game as well as for replays.
+   * Functional programming style.
+   * It uses the .subscribe() method, which is more functional in nature.
+   * It does not contain any loops.
    * Impure function.
    * It contains side effects like rendering to the DOM and modifying the DOM.
    * Cannnot be pure.
    * It cannot be made pure because it needs to modify the DOM.
-   * @param s The current state.
+   * @param v The current view.
    * @returns A subscription for the game.
    */
-  const source$ = game$.subscribe((s: State) => {
-    render(s);
+  scene$.pipe(withLatestFrom(leaderboard$)).subscribe(([{ view: v, scene, previous }, board]) => {
+    const s = v.state;
+    render(s, scene, previous);
+    renderStats(v);
+    renderReplay(v);
+    highScoreText.innerText = `${Math.max(bestScore(board, s.settings.mode), s.highscore, s.score)}`;
     const pauseTextElement = document.getElementById("pauseBox")!;
+    const gameOverBox = document.getElementById('gameOverBox')!;
 
     if (s.gamePaused) {
       pauseTextElement.style.display = "block"; // Show the pause text
@@ -861,23 +1021,439 @@ export function main() {
       pauseTextElement.style.display = "none"; // Hide the pause text
     }
 
-
     if (s.gameEnd) {
-      console.log("Trying to show game over..."); // Debugging line
-      const gameOverBox = document.getElementById('gameOverBox')!;
-      if (gameOverBox) {
-          gameOverBox.style.display = 'block';
-      }
-      highScoreText.innerText = `${s.score}`;
-      
-      source$.unsubscribe();
-
+      renderResults(v);
+      gameOverBox.style.display = 'block';
     } else {
-      render(s);
+      gameOverBox.style.display = 'none';
       gameover.style.display = 'none';
-      
     }
   });
+
+
+  /**
+   * Plays the sound of the game on screen, live or played back. The music stops while either is paused.
+   * Impure function.
+   * It plays sound.
+   */
+  playAudio(
+    view$.pipe(map(v => ({ states: [v.state], running: !v.state.gameEnd && !v.state.gamePaused && !v.playback?.paused }))),
+    preferences$
+  );
+
+
+  /**
+   * Toggles mute when its key is pressed.
+   * Impure function.
+   * It writes to the browser's storage.
+   */
+  control$('keydown').pipe(
+    filter(control => control === 'MUTE'),
+    withLatestFrom(preferences$)
+  ).subscribe(([, prefs]) => updatePreferences({ ...prefs, audio: { ...prefs.audio, muted: !prefs.audio.muted } }));
+
+
+  /**
+   * Shows the leaderboard of the game mode on screen whenever it changes, or another mode comes on screen.
+   * Impure function.
+   * It modifies the DOM.
+   */
+  combineLatest([
+    leaderboard$,
+    view$.pipe(map(v => v.state.settings.mode), distinctUntilChanged()),
+  ]).subscribe(([board, mode]) => renderLeaderboard(board, mode));
+
+
+  /**
+   * Asks for the player's name when a live game ends with a score good enough for the leaderboard,
+   * and hides the prompt again when a new game starts.
+   * Impure function.
+   * It modifies the DOM and moves the keyboard focus.
+   */
+  gameEnd$.pipe(withLatestFrom(leaderboard$)).subscribe(([v, board]) => {
+    const { mode } = v.state.settings;
+    const ranked = MODE_RULES[mode].ranking === 'SCORE' || v.state.completed;  // A Sprint only counts once finished
+    const prompt = liveGameEnded(v) && !v.assisted && ranked && qualifies(board, mode, entryOf(v, '', Date.now()));
+    nameForm.style.display = prompt ? "flex" : "none";
+    if (prompt) {
+      nameInput.focus();
+    } else {
+      nameInput.blur();
+    }
+  });
+
+
+  /**
+   * Adds the finished game to the leaderboard under the name entered, and saves it.
+   * Impure function.
+   * It reads the clock and writes to the browser's storage.
+   */
+  fromEvent<SubmitEvent>(nameForm, 'submit').pipe(withLatestFrom(view$, leaderboard$)).subscribe(([evt, v, board]) => {
+    evt.preventDefault();  // Stay on the page
+    nameInput.blur();
+    nameForm.style.display = "none";
+    if (!liveGameEnded(v)) return;
+
+    const updated = addEntry(board, v.state.settings.mode, entryOf(v, nameInput.value, Date.now()));
+    leaderboardText.innerText = saveLeaderboard(localStorage, updated) ? '' : 'Could not save the leaderboard';
+    leaderboard$.next(updated);
+  });
+
+
+  /**
+   * Downloads the leaderboard as a JSON file.
+   * Impure function.
+   * It creates a file download in the browser.
+   */
+  fromEvent(exportLeaderboard, 'click').pipe(withLatestFrom(leaderboard$)).subscribe(([evt, board]) => {
+    (evt.currentTarget as HTMLElement).blur();  // Keep Space for hard drop rather than clicking again
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([serializeLeaderboard(board)], { type: "application/json" }));
+    link.download = "tetris-leaderboard.json";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
+
+
+  /**
+   * Loads a leaderboard file and merges it into the saved one, or reports why it was rejected.
+   * Impure function.
+   * It reads a file chosen by the player and writes to the browser's storage.
+   */
+  fromEvent(importLeaderboard, 'change').pipe(
+    map(() => importLeaderboard.files?.[0]),
+    filter((file): file is File => file !== undefined),
+    switchMap(file => from(file.text())),
+    map(parseLeaderboard),
+    withLatestFrom(leaderboard$)
+  ).subscribe(([result, board]) => {
+    importLeaderboard.value = '';  // Allow the same file to be chosen again
+    importLeaderboard.blur();
+    if ('error' in result) {
+      leaderboardText.innerText = result.error;
+      return;
+    }
+
+    const merged = mergeLeaderboards(board, result.leaderboard);
+    leaderboardText.innerText = saveLeaderboard(localStorage, merged) ? 'Leaderboard imported' : 'Could not save the leaderboard';
+    leaderboard$.next(merged);
+  });
+
+
+  /**
+   * Saves the live game whenever it is paused, and whenever the page is hidden (switching tabs or closing it),
+   * so it can be resumed on the next visit. A game that has ended is forgotten instead.
+   * Impure function.
+   * It reads the clock and writes to the browser's storage.
+   */
+  const live$ = view$.pipe(filter(v => v.playback === null));
+  merge(
+    live$.pipe(
+      distinctUntilChanged((a, b) => a.state.gamePaused === b.state.gamePaused),
+      filter(v => v.state.gamePaused)
+    ),
+    fromEvent(document, 'visibilitychange').pipe(
+      filter(() => document.visibilityState === 'hidden'),
+      withLatestFrom(live$),
+      map(([, v]) => v)
+    ),
+    gameEnd$.pipe(filter(liveGameEnded)),
+  ).subscribe(v => {
+    if (v.state.gameEnd) {
+      clearSnapshot(localStorage);
+    } else {
+      saveSnapshot(localStorage, { state: v.state, recording: v.recording }, Date.now());
+    }
+  });
+
+
+  /**
+   * Asks whether to resume the game saved by the last visit. Resuming restores it paused, so the player
+   * can get ready; declining forgets it and starts a new game.
+   * Impure function.
+   * It modifies the DOM and writes to the browser's storage.
+   */
+  resumeBox.style.display = resumable ? "flex" : "none";
+  merge(
+    fromEvent(resumeYes, 'click').pipe(map(() => true)),
+    fromEvent(resumeNo, 'click').pipe(map(() => false)),
+  ).pipe(withLatestFrom(preferences$, gameMode$)).subscribe(([resume, prefs, gameMode]) => {
+    resumeBox.style.display = "none";
+    resumeYes.blur();
+    resumeNo.blur();
+    if (resume && resumable) {
+      const session = resumable.session;
+      start$.next(session.state.gamePaused ? session : recordStep(session, 'PAUSE'));
+    } else {
+      clearSnapshot(localStorage);
+      start$.next(newSession(prefs, gameMode));
+    }
+  });
+
+
+  /**
+   * Shows the controls whenever the preferences change or a control starts or stops waiting for a key.
+   * Impure function.
+   * It modifies the DOM.
+   */
+  combineLatest([preferences$, rebinding$]).subscribe(([prefs, rebinding]) => renderControls(prefs, rebinding));
+
+
+  /**
+   * Updates and saves the preferences.
+   * Impure function.
+   * It writes to the browser's storage.
+   * @param prefs The new preferences.
+   */
+  const updatePreferences = (prefs: Preferences) => {
+    bindingText.innerText = savePreferences(localStorage, prefs) ? '' : 'Could not save the controls';
+    preferences$.next(prefs);
+  };
+
+
+  /**
+   * Starts rebinding the control whose key was clicked.
+   * Impure function.
+   * It reads the clicked element.
+   */
+  fromEvent<MouseEvent>(bindingList, 'click').pipe(
+    map(evt => (evt.target as HTMLElement).closest("button")),
+    filter((button): button is HTMLButtonElement => button !== null)
+  ).subscribe(button => {
+    button.blur();  // Keep Space for hard drop rather than clicking again
+    const control = CONTROLS.find(c => c === button.dataset.control);
+    bindingText.innerText = control ? 'Press a key, or Escape to cancel' : '';
+    rebinding$.next(control ?? null);
+  });
+
+
+  /**
+   * Binds the next key pressed to the control waiting for one, unless another control already uses it.
+   * The key is kept from the game, whichever listener runs first.
+   * Impure function.
+   * It stops the key event and writes to the browser's storage.
+   */
+  fromEvent<KeyboardEvent>(document, 'keydown').pipe(
+    withLatestFrom(rebinding$, preferences$),
+    filter((caught): caught is [KeyboardEvent, Control, Preferences] => caught[1] !== null)
+  ).subscribe(([evt, control, prefs]) => {
+    evt.preventDefault();
+    evt.stopImmediatePropagation();
+    if (evt.code === 'Escape') {
+      bindingText.innerText = '';
+      rebinding$.next(null);
+      return;
+    }
+
+    const result = rebind(prefs.bindings, control, evt.code);
+    if ('conflict' in result) {
+      bindingText.innerText = `${keyLabel(evt.code)} is already bound to ${CONTROL_NAMES[result.conflict]}`;
+      return;
+    }
+    rebinding$.next(null);
+    updatePreferences({ ...prefs, bindings: result.bindings });
+  });
+
+
+  /**
+   * Restores the default key bindings.
+   * Impure function.
+   * It writes to the browser's storage.
+   */
+  fromEvent(resetBindings, 'click').pipe(withLatestFrom(preferences$)).subscribe(([, prefs]) => {
+    resetBindings.blur();
+    rebinding$.next(null);
+    updatePreferences({ ...prefs, bindings: DEFAULT_BINDINGS });
+  });
+
+
+  /**
+   * Applies the handling settings as they are edited. DAS and ARR apply straight away;
+   * the soft drop factor is a game setting, so it applies from the next new game.
+   * Impure function.
+   * It reads the inputs and writes to the browser's storage.
+   */
+  merge(
+    fromEvent(dasInput, 'change'),
+    fromEvent(arrInput, 'change'),
+    fromEvent(sdfInput, 'change'),
+  ).pipe(withLatestFrom(preferences$)).subscribe(([evt, prefs]) => {
+    (evt.target as HTMLInputElement).blur();  // Give the keyboard back to the game
+    updatePreferences({
+      ...prefs,
+      handling: {
+        das: clampSetting(dasInput.valueAsNumber, 0, PreferencesConfig.MAX_DAS, prefs.handling.das),
+        arr: clampSetting(arrInput.valueAsNumber, 0, PreferencesConfig.MAX_ARR, prefs.handling.arr),
+        softDropFactor: clampSetting(sdfInput.valueAsNumber, 1, PreferencesConfig.MAX_SOFT_DROP_FACTOR, prefs.handling.softDropFactor),
+      },
+    });
+  });
+
+
+  /**
+   * Applies the number of next pieces shown as it is edited.
+   * Impure function.
+   * It reads the input and writes to the browser's storage.
+   */
+  fromEvent(nextInput, 'change').pipe(withLatestFrom(preferences$)).subscribe(([, prefs]) => {
+    nextInput.blur();
+    updatePreferences({
+      ...prefs,
+      display: { ...prefs.display, nextPieces: clampSetting(Math.round(nextInput.valueAsNumber), 1, Constants.NEXT_QUEUE_SIZE, prefs.display.nextPieces) },
+    });
+  });
+
+
+  /**
+   * Applies the volumes as they are edited.
+   * Impure function.
+   * It reads the inputs and writes to the browser's storage.
+   */
+  merge(
+    fromEvent(sfxInput, 'change'),
+    fromEvent(musicInput, 'change'),
+    fromEvent(muteInput, 'change'),
+  ).pipe(withLatestFrom(preferences$)).subscribe(([evt, prefs]) => {
+    (evt.target as HTMLInputElement).blur();
+    updatePreferences({
+      ...prefs,
+      audio: {
+        sfx: clampSetting(sfxInput.valueAsNumber / 100, 0, 1, prefs.audio.sfx),
+        music: clampSetting(musicInput.valueAsNumber / 100, 0, 1, prefs.audio.music),
+        muted: muteInput.checked,
+      },
+    });
+  });
+
+
+  /**
+   * Applies the reduced motion preference as it is toggled.
+   * Impure function.
+   * It reads the checkbox and writes to the browser's storage.
+   */
+  fromEvent(motionInput, 'change').pipe(withLatestFrom(preferences$)).subscribe(([, prefs]) => {
+    motionInput.blur();
+    updatePreferences({ ...prefs, display: { ...prefs.display, reducedMotion: motionInput.checked } });
+  });
+
+
+  /**
+   * Applies the gesture settings as they are edited.
+   * Impure function.
+   * It reads the inputs and writes to the browser's storage.
+   */
+  merge(
+    fromEvent(gestureList, 'change'),
+    fromEvent(swipeUpInput, 'change'),
+  ).pipe(withLatestFrom(preferences$)).subscribe(([evt, prefs]) => {
+    const target = evt.target as HTMLInputElement | HTMLSelectElement;
+    target.blur();
+    const key = (Object.keys(GESTURE_THRESHOLDS) as GestureThreshold[]).find(k => k === target.dataset.threshold);
+    updatePreferences({
+      ...prefs,
+      gestures: key
+        ? { ...prefs.gestures, [key]: clampSetting(Number(target.value), GESTURE_THRESHOLDS[key].min, GESTURE_THRESHOLDS[key].max, prefs.gestures[key]) }
+        : { ...prefs.gestures, swipeUp: isSwipeUpControl(swipeUpInput.value) ? swipeUpInput.value : prefs.gestures.swipeUp },
+    });
+  });
+
+
+  /**
+   * Turns autoplay and the hint on and off.
+   * Impure function.
+   * It reads the checkboxes.
+   */
+  fromEvent(autoplayInput, 'change').subscribe(() => {
+    autoplayInput.blur();  // Give the keyboard back to the game
+    autoplay$.next(autoplayInput.checked);
+  });
+  fromEvent(hintInput, 'change').subscribe(() => {
+    hintInput.blur();
+    hint$.next(hintInput.checked);
+  });
+
+
+  /**
+   * Downloads the replay on screen as a JSON file.
+   * Impure function.
+   * It creates a file download in the browser.
+   */
+  fromEvent(exportReplay, 'click').pipe(withLatestFrom(view$)).subscribe(([evt, v]) => {
+    (evt.currentTarget as HTMLElement).blur();  // Keep Space for hard drop rather than clicking again
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([serializeReplay(v.recording)], { type: "application/json" }));
+    link.download = `tetris-replay-${v.recording.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
+
+
+  /**
+   * Loads a replay file and plays it back, or reports why it was rejected.
+   * Impure function.
+   * It reads a file chosen by the player and switches the game into playback mode.
+   */
+  fromEvent(importReplay, 'change').pipe(
+    map(() => importReplay.files?.[0]),
+    filter((file): file is File => file !== undefined),
+    switchMap(file => from(file.text())),
+    map(json => parseReplay(json, isGameSettings, isAction))
+  ).subscribe(result => {
+    importReplay.value = '';  // Allow the same file to be chosen again
+    importReplay.blur();
+    if ('error' in result) {
+      replayText.innerText = result.error;
+    } else {
+      mode$.next(result.replay);
+    }
+  });
+
+
+  /**
+   * Leaves playback and starts a new live game.
+   * Impure function.
+   * It switches the game back to live mode.
+   */
+  fromEvent(playbackExit, 'click').pipe(withLatestFrom(preferences$, gameMode$)).subscribe(([, prefs, gameMode]) => {
+    playbackExit.blur();
+    replayText.innerText = '';
+    start$.next(newSession(prefs, gameMode));
+    mode$.next(null);
+  });
+
+
+  /**
+   * Opens the puzzle on screen in the editor.
+   * Impure function.
+   * It navigates the window.
+   */
+  fromEvent(editPuzzle, 'click').pipe(withLatestFrom(view$)).subscribe(([, v]) => {
+    const { puzzle } = v.state.settings;
+    if (puzzle !== null) openPuzzle(encodePuzzle(puzzle), true);
+  });
+
+
+  /**
+   * Starts a new live game in the game mode picked, leaving playback if a replay is on.
+   * Versus and Puzzle open their own pages instead, and so does any mode picked while a puzzle is linked.
+   * Impure function.
+   * It reads the mode picker and switches the game to live mode.
+   */
+  fromEvent(modeSelect, 'change').pipe(
+    map(() => modeSelect.value),
+    filter(isGameMode),
+    withLatestFrom(preferences$)
+  ).subscribe(([gameMode, prefs]) => {
+    modeSelect.blur();
+    if (gameMode === 'VERSUS' || gameMode === 'PUZZLE' || settings.puzzle !== null) {
+      openMode(gameMode);
+      return;
+    }
+    replayText.innerText = '';
+    gameMode$.next(gameMode);
+    start$.next(newSession(prefs, gameMode));
+    mode$.next(null);
+  });
  
 } // end of main program (closing scope of main function)
 
@@ -885,6 +1461,465 @@ export function main() {
 /* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
 
 
+/** ---------------------------------------------------------------- VERSUS FUNCTION ------------------------------------------------------------------------------------------------- */
+
+/**
+ * This is the function main hands the page to in versus: two boards side by side, played on one keyboard.
+ * @param seed The seed of both games.
+ * @param settings The settings of both games.
+ */
+function versus(seed: number, settings: GameSettings) {
+
+
+  /******************************** DOM elements ****************************************/
+
+  const mainBox = document.querySelector("#main") as HTMLElement;
+  const versusBox = document.querySelector("#versus") as HTMLElement;
+  const versusBoards = document.querySelector("#versusBoards") as HTMLElement;
+  const playerTemplate = document.querySelector("#playerTemplate") as HTMLTemplateElement;
+  const versusModeSelect = document.querySelector("#versusModeSelect") as HTMLSelectElement;
+  const versusText = document.querySelector("#versusText") as HTMLElement;
+  const versusBindingText = document.querySelector("#versusBindingText") as HTMLElement;
+
+  mainBox.style.display = "none";
+  versusBox.style.display = "flex";
+  fillModes(versusModeSelect);
+  versusModeSelect.value = 'VERSUS';
+
+
+  /**
+   * Builds the boards of both players from the template, and a view over each.
+   * Impure function.
+   * It adds the boards to the DOM.
+   */
+  const kind = rendererKind();
+  const boards = PLAYERS.map(player => {
+    const root = (playerTemplate.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLElement;
+    const find = <T extends Element>(selector: string) => root.querySelector(selector) as T;
+    find<HTMLElement>(".playerName").innerText = `Player ${player + 1}`;
+    versusBoards.appendChild(root);
+    return {
+      view: createBoardView({
+        board: createRenderer(kind, find<SvgCanvas>(".board")),
+        hold: find<SvgCanvas>(".hold"),
+        preview: find<SvgCanvas>(".preview"),
+        score: find<HTMLElement>(".scoreText"),
+        level: find<HTMLElement>(".levelText"),
+        lines: find<HTMLElement>(".linesText"),
+        clear: find<HTMLElement>(".clearText"),
+      }),
+      meter: find<SvgCanvas>(".meter"),
+      bindingList: find<HTMLElement>(".bindingList"),
+    };
+  });
+
+
+  /******************************** Observables ******************************************/
+
+  /**
+   * BehaviorSubject holding the players' preferences, loaded from the browser's storage.
+   */
+  const preferences$ = new BehaviorSubject<Preferences>(loadPreferences(localStorage));
+
+
+  /**
+   * BehaviorSubject holding the player and control waiting for a new key, or null when no control is being rebound.
+   */
+  const rebinding$ = new BehaviorSubject<{ player: PlayerIndex, control: Control } | null>(null);
+
+
+  /**
+   * Creates an observable for the controls pressed or released by either player, through their key bindings.
+   * Keys caught for rebinding and the operating system's key repeat are ignored.
+   * Functional programming style.
+   * It uses the .filter() and .map() methods, which are more functional in nature.
+   * @param kind Whether keys are pressed or released.
+   * @returns An observable for the match events.
+   */
+  const playerControl$ = (kind: 'DOWN' | 'UP'): Observable<MatchEvent> =>
+    fromEvent<KeyboardEvent>(document, kind === 'DOWN' ? 'keydown' : 'keyup').pipe(
+      filter(evt => !evt.repeat),
+      withLatestFrom(preferences$, rebinding$),
+      filter(([, , rebinding]) => rebinding === null),
+      map(([evt, prefs]) => ({ evt, bound: playerControlFor(prefs.versusBindings, evt.code) })),
+      filter((key): key is { evt: KeyboardEvent, bound: { player: PlayerIndex, control: Control } } => key.bound !== undefined),
+      map(({ evt, bound }): MatchEvent => {
+        evt.preventDefault();  // Keep arrow keys, Backspace and Slash from scrolling, going back or searching
+        return { kind, ...bound };
+      })
+    );
+
+
+  /**
+   * The match, which feeds the engine clock to both players and each player's controls to their own board,
+   * and uses a scan operator to maintain the state of the match. Both players let go of every held control
+   * when the page loses the keyboard.
+   * Functional programming style.
+   * It uses the .pipe() method, which is more functional in nature.
+   * @returns An observable for the match.
+   */
+  const match$: Observable<Match> = merge(
+    interval(Constants.FRAME_MS).pipe(map((): MatchEvent => ({ kind: 'FRAME' }))),
+    playerControl$('DOWN'),
+    playerControl$('UP'),
+    focusLost$().pipe(mergeMap(() => from(PLAYERS.flatMap(player => RELEASE_ALL.map((event): MatchEvent => ({ ...event, player })))))),
+  ).pipe(
+    withLatestFrom(preferences$),
+    scan((match, [event, prefs]) => stepMatch(match, event, prefs.handling), startMatch(seed, settings)),
+    share()
+  );
+
+
+  /**
+   * The match with the scene of each board, and the match and scenes drawn before it, so that only what changed is drawn again.
+   * Functional programming style.
+   * It uses a scan operator to pair each frame with the one before it.
+   * @returns An observable for the match and its scenes.
+   */
+  const drawn$ = match$.pipe(
+    withLatestFrom(preferences$),
+    map(([match, prefs]) => ({ match, scenes: match.players.map(p => sceneOf(p.state, prefs.display.nextPieces, null, reducedMotion(prefs))) })),
+    scan(
+      (acc: { match: Match, scenes: Scene[], previous: { match: Match, scenes: Scene[] } | null } | null, drawn) =>
+        ({ ...drawn, previous: acc && { match: acc.match, scenes: acc.scenes } }),
+      null
+    ),
+    filter((drawn): drawn is { match: Match, scenes: Scene[], previous: { match: Match, scenes: Scene[] } | null } => drawn !== null)
+  );
+
+
+  /************************************ Subscriptions *****************************************/
+
+  /**
+   * Renders both boards, the garbage waiting for each player, and the outcome of the match.
+   * Impure function.
+   * It modifies the DOM.
+   */
+  drawn$.subscribe(({ match, scenes, previous }) => {
+    match.players.forEach((player, i) => {
+      boards[i].view.draw(previous && previous.scenes[i], scenes[i]);
+      if (previous?.match.players[i].incoming !== player.incoming) renderGarbageMeter(boards[i].meter, player.incoming, player.state.grid.length);
+    });
+    const result = matchResult(match);
+    versusText.innerText = result.over
+      ? `${result.winner === null ? "Draw!" : `Player ${result.winner + 1} wins!`} Restart for a rematch.`
+      : match.players[0].state.gamePaused ? "Paused" : "";
+  });
+
+
+  /**
+   * Shows each player's keys whenever the preferences change or a control starts or stops waiting for a key.
+   * Impure function.
+   * It modifies the DOM.
+   */
+  combineLatest([preferences$, rebinding$]).subscribe(([prefs, rebinding]) =>
+    boards.forEach((board, i) =>
+      board.bindingList.replaceChildren(...bindingRows(prefs.versusBindings[i], rebinding?.player === i ? rebinding.control : null))
+    )
+  );
+
+
+  /**
+   * Starts rebinding the control of the player whose key was clicked.
+   * Impure function.
+   * It reads the clicked element.
+   */
+  merge(...boards.map((board, i) => fromEvent<MouseEvent>(board.bindingList, 'click').pipe(
+    map(evt => ({ player: PLAYERS[i], button: (evt.target as HTMLElement).closest("button") }))
+  ))).pipe(
+    filter((clicked): clicked is { player: PlayerIndex, button: HTMLButtonElement } => clicked.button !== null)
+  ).subscribe(({ player, button }) => {
+    button.blur();  // Keep the keys for the game rather than clicking again
+    const control = CONTROLS.find(c => c === button.dataset.control);
+    versusBindingText.innerText = control ? 'Press a key, or Escape to cancel' : '';
+    rebinding$.next(control ? { player, control } : null);
+  });
+
+
+  /**
+   * Binds the next key pressed to the control waiting for one, unless a control of either player already uses it.
+   * Impure function.
+   * It stops the key event and writes to the browser's storage.
+   */
+  fromEvent<KeyboardEvent>(document, 'keydown').pipe(
+    withLatestFrom(rebinding$, preferences$),
+    filter((caught): caught is [KeyboardEvent, { player: PlayerIndex, control: Control }, Preferences] => caught[1] !== null)
+  ).subscribe(([evt, { player, control }, prefs]) => {
+    evt.preventDefault();
+    evt.stopImmediatePropagation();
+    if (evt.code === 'Escape') {
+      versusBindingText.innerText = '';
+      rebinding$.next(null);
+      return;
+    }
+
+    const result = rebindPlayer(prefs.versusBindings, player, control, evt.code);
+    if ('conflict' in result) {
+      const { player: owner, control: taken } = result.conflict;
+      versusBindingText.innerText = `${keyLabel(evt.code)} is already bound to ${CONTROL_NAMES[taken]} of Player ${owner + 1}`;
+      return;
+    }
+    const updated = { ...prefs, versusBindings: result.bindings };
+    versusBindingText.innerText = savePreferences(localStorage, updated) ? '' : 'Could not save the keys';
+    rebinding$.next(null);
+    preferences$.next(updated);
+  });
+
+
+  /**
+   * Plays the sound of both boards.
+   * Impure function.
+   * It plays sound.
+   */
+  playAudio(
+    match$.pipe(map(match => ({
+      states: match.players.map(p => p.state),
+      running: !matchResult(match).over && !match.players[0].state.gamePaused,
+    }))),
+    preferences$
+  );
+
+
+  /**
+   * Toggles mute when either player's mute key is pressed.
+   * Impure function.
+   * It writes to the browser's storage.
+   */
+  playerControl$('DOWN').pipe(
+    filter(event => event.kind === 'DOWN' && event.control === 'MUTE'),
+    withLatestFrom(preferences$)
+  ).subscribe(([, prefs]) => {
+    const updated = { ...prefs, audio: { ...prefs.audio, muted: !prefs.audio.muted } };
+    versusBindingText.innerText = savePreferences(localStorage, updated) ? '' : 'Could not save the keys';
+    preferences$.next(updated);
+  });
+
+
+  /**
+   * Opens the page of the game mode picked.
+   * Impure function.
+   * It navigates the window.
+   */
+  fromEvent(versusModeSelect, 'change').pipe(
+    map(() => versusModeSelect.value),
+    filter(isGameMode)
+  ).subscribe(openMode);
+
+} // end of versus (closing scope of versus function)
+
+/** ---------------------------------------------------------------- END OF VERSUS FUNCTION ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- EDITOR FUNCTION ------------------------------------------------------------------------------------------------- */
+
+/**
+ * This is the function main hands the page to in the puzzle editor: the board is painted with the pointer,
+ * and the queue and the goal are set in the sidebar, until the puzzle is played or shared.
+ * @param settings The settings from the URL, whose board size a new puzzle takes.
+ * @param code The code of the puzzle to edit, or null to start a new one.
+ */
+function editor(settings: GameSettings, code: string | null) {
+
+
+  /******************************** DOM elements ****************************************/
+
+  const svg = document.querySelector("#svgCanvas") as SvgCanvas;
+  const preview = document.querySelector("#svgPreview") as SvgCanvas;
+  const hold = document.querySelector("#svgHold") as SvgCanvas;
+  const info = document.querySelector("#info") as HTMLElement;
+  const editorBox = document.querySelector("#editorBox") as HTMLElement;
+  const editorModeSelect = document.querySelector("#editorModeSelect") as HTMLSelectElement;
+  const brushSelect = document.querySelector("#editorBrush") as HTMLSelectElement;
+  const queueInput = document.querySelector("#editorQueue") as HTMLInputElement;
+  const goalSelect = document.querySelector("#editorGoal") as HTMLSelectElement;
+  const linesInput = document.querySelector("#editorLines") as HTMLInputElement;
+  const playButton = document.querySelector("#editorPlay") as HTMLButtonElement;
+  const clearButton = document.querySelector("#editorClear") as HTMLButtonElement;
+  const linkInput = document.querySelector("#editorLink") as HTMLInputElement;
+  const editorText = document.querySelector("#editorText") as HTMLElement;
+
+  info.style.display = "none";
+  editorBox.style.display = "flex";
+  fillModes(editorModeSelect);
+  editorModeSelect.value = 'PUZZLE';
+
+
+  /******************************** Setting attribute ****************************************/
+
+  const brushes: readonly Cell[] = ['GARBAGE', 'EMPTY', ...PIECE_KEYS];
+  brushSelect.replaceChildren(...brushes.map(cell => {
+    const option = document.createElement("option");
+    option.value = cell;
+    option.text = cell === 'EMPTY' ? 'Erase' : cell === 'GARBAGE' ? 'Garbage' : cell;
+    return option;
+  }));
+  goalSelect.replaceChildren(...PUZZLE_GOAL_KINDS.map(kind => {
+    const option = document.createElement("option");
+    option.value = kind;
+    option.text = GOAL_NAMES[kind];
+    return option;
+  }));
+
+
+  /******************************** Editor setup ***********************************************/
+
+  /**
+   * The puzzle the editor starts with: the one linked, or an empty board of the size from the URL.
+   */
+  const loaded = code === null ? null : loadPuzzle(code);
+  const initial: EditorState = {
+    puzzle: loaded !== null && 'puzzle' in loaded ? loaded.puzzle : emptyPuzzle(settings.boardWidth, settings.boardHeight),
+    brush: brushes[0],
+  };
+  const { goal } = initial.puzzle;
+  queueInput.value = formatQueue(initial.puzzle.queue);
+  goalSelect.value = goal.kind;
+  linesInput.value = `${'lines' in goal ? goal.lines : 1}`;
+  brushSelect.value = initial.brush;
+
+
+  /**
+   * The view of the board and the queue, and how many pieces of the queue it shows.
+   */
+  const renderer = createRenderer(rendererKind(), svg);
+  const boardView = createBoardView({
+    board: renderer,
+    hold,
+    preview,
+    score: document.querySelector("#scoreText") as HTMLElement,
+    level: document.querySelector("#levelText") as HTMLElement,
+    lines: document.querySelector("#linesText") as HTMLElement,
+    clear: document.querySelector("#clearText") as HTMLElement,
+  });
+  const nextPieces = loadPreferences(localStorage).display.nextPieces;
+
+
+  /******************************** Observables ******************************************/
+
+  /**
+   * Creates an observable for the cells painted by pressing or dragging the pointer over the board.
+   * The board never changes size in the editor, so a pointer is mapped to a cell by where it is on the board.
+   * Functional programming style.
+   * It uses the .filter() and .map() methods, which are more functional in nature.
+   * @returns An observable for the editor events.
+   */
+  const paint$ = (): Observable<EditorEvent> =>
+    merge(fromEvent<PointerEvent>(renderer.element, 'pointerdown'), fromEvent<PointerEvent>(renderer.element, 'pointermove')).pipe(
+      filter(evt => (evt.buttons & 1) === 1),
+      map((evt): EditorEvent => {
+        evt.preventDefault();  // Keep touches from scrolling the page
+        const rect = renderer.element.getBoundingClientRect();
+        const { board } = initial.puzzle;
+        return {
+          kind: 'PAINT',
+          x: Math.floor((evt.clientX - rect.left) / rect.width * board[0].length),
+          y: Math.floor((evt.clientY - rect.top) / rect.height * board.length),
+        };
+      })
+    );
+
+
+  /**
+   * Reads the goal from the goal picker and the number of lines.
+   * Impure function.
+   * It reads from the DOM.
+   * @returns The goal event.
+   */
+  const goalEvent = (): EditorEvent => {
+    const kind = PUZZLE_GOAL_KINDS.find(k => k === goalSelect.value) ?? 'NONE';
+    return { kind: 'GOAL', goal: goalOf(kind, linesInput.valueAsNumber) };
+  };
+
+
+  /**
+   * The puzzle being edited: every edit goes through the editor reducer, which a scan operator folds the events into.
+   * Functional programming style.
+   * It uses the .pipe() method, which is more functional in nature.
+   * @returns An observable for the editor.
+   */
+  const editor$: Observable<EditorState> = merge(
+    paint$(),
+    fromEvent(brushSelect, 'change').pipe(
+      map(() => brushSelect.value),
+      filter((cell): cell is Cell => cell === 'EMPTY' || cell === 'GARBAGE' || isPieceKey(cell)),
+      map((cell): EditorEvent => ({ kind: 'BRUSH', cell }))
+    ),
+    fromEvent(queueInput, 'input').pipe(
+      map(() => parseQueue(queueInput.value)),
+      filter((queue): queue is NonNullable<typeof queue> => queue !== undefined),
+      map((queue): EditorEvent => ({ kind: 'QUEUE', queue }))
+    ),
+    merge(fromEvent(goalSelect, 'change'), fromEvent(linesInput, 'input')).pipe(map(goalEvent)),
+    fromEvent(clearButton, 'click').pipe(map((): EditorEvent => ({ kind: 'CLEAR' }))),
+  ).pipe(
+    scan(stepEditor, initial),
+    startWith(initial),
+    shareReplay(1)
+  );
+
+
+  /******************************** Rendering ******************************************/
+
+  /**
+   * Draws the puzzle, and tells the player what stops it from being played or gives the link to share it.
+   * A code that could not be loaded is reported until the first edit.
+   * Impure function.
+   * It modifies the DOM.
+   */
+  editor$.pipe(
+    scan(
+      (drawn: { state: EditorState, scene: Scene, previous: Scene | null } | null, state: EditorState) =>
+        ({ state, scene: puzzleSceneOf(state.puzzle, nextPieces), previous: drawn && drawn.scene }),
+      null
+    ),
+    filter((drawn): drawn is NonNullable<typeof drawn> => drawn !== null)
+  ).subscribe(({ state, scene, previous }) => {
+    boardView.draw(previous, scene);
+    const problem = parseQueue(queueInput.value) === undefined ? 'The queue names a piece that does not exist.' : puzzleProblem(state.puzzle);
+    const loadError = previous === null && loaded !== null && 'error' in loaded ? loaded.error : null;
+    editorText.innerText = loadError ?? problem ?? '';
+    linkInput.value = problem === null ? puzzleUrl(encodePuzzle(state.puzzle), false) : '';
+  });
+
+
+  /**
+   * Plays the puzzle, once nothing stops it from being played.
+   * Impure function.
+   * It navigates the window.
+   */
+  fromEvent(playButton, 'click').pipe(withLatestFrom(editor$)).subscribe(([, state]) => {
+    if (parseQueue(queueInput.value) !== undefined && puzzleProblem(state.puzzle) === null) {
+      openPuzzle(encodePuzzle(state.puzzle), false);
+    }
+  });
+
+
+  /**
+   * Selects the whole link when it is clicked, ready to be copied.
+   * Impure function.
+   * It selects the text of the link.
+   */
+  fromEvent(linkInput, 'focus').subscribe(() => linkInput.select());
+
+
+  /**
+   * Leaves the editor for the game mode picked.
+   * Impure function.
+   * It navigates the window.
+   */
+  fromEvent(editorModeSelect, 'change').pipe(
+    map(() => editorModeSelect.value),
+    filter(isGameMode),
+    filter(mode => mode !== 'PUZZLE')
+  ).subscribe(openMode);
+
+} // end of editor (closing scope of editor function)
+
+/** ---------------------------------------------------------------- END OF EDITOR FUNCTION ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
 /** ---------------------------------------------------------------- WINDOW LOAD ------------------------------------------------------------------------------------------------- */
 
 // The following simply runs your main function on window load.  Make sure to leave it in place.
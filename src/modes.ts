@@ -0,0 +1,271 @@
+/**
+ * Game modes: Marathon, Sprint, Ultra, Dig, Versus and Puzzle.
+ *
+ * Every mode plays the same game on the same clock, the engine frame count, and differs only in when the game
+ * is over and how finished games are ranked: Sprint races to a line goal, Ultra scores as much as it can before
+ * a time limit, Marathon plays to a line goal with the level capped on the way, Dig clears the garbage it
+ * starts with while more rises from the bottom, and Versus has no goal of its own: the last player standing wins.
+ * Puzzle plays a board and a queue set up in the editor, towards the goal of the puzzle (see puzzle.ts).
+ */
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * A game mode.
+ */
+export type GameMode = typeof GAME_MODES[number];
+
+
+/**
+ * How a finished game is ranked: by the highest score, by the shortest time, or not at all (it never makes the leaderboard).
+ */
+export type Ranking = 'SCORE' | 'TIME' | 'NONE';
+
+
+/**
+ * Represents the rules of a game mode.
+ */
+export type ModeRules = Readonly<{
+  /**
+   * The name of the mode, as shown to the player.
+   */
+  name: string;
+
+  /**
+   * The number of lines that completes the game, or null when there is no line goal.
+   */
+  lineGoal: number | null;
+
+  /**
+   * The game time that completes the game, in milliseconds, or null when there is no time limit.
+   */
+  timeLimitMs: number | null;
+
+  /**
+   * The highest level the game rises to, or null when the level rises for ever.
+   */
+  levelCap: number | null;
+
+  /**
+   * The number of garbage rows the game starts with.
+   */
+  garbageRows: number;
+
+  /**
+   * The game time between garbage rows rising from the bottom, in milliseconds, or null when none rise.
+   */
+  garbageIntervalMs: number | null;
+
+  /**
+   * Whether clearing the garbage the game started with completes it.
+   */
+  digGoal: boolean;
+
+  /**
+   * How finished games are ranked on the leaderboard.
+   */
+  ranking: Ranking;
+
+  /**
+   * The title of the results of a completed game.
+   */
+  completedTitle: string;
+}>;
+
+
+/**
+ * How far a game has got towards the goal of its mode.
+ */
+export type ModeProgress = Readonly<{
+  /**
+   * The number of lines cleared.
+   */
+  lines: number;
+
+  /**
+   * The game time played, in milliseconds.
+   */
+  timeMs: number;
+
+  /**
+   * The number of garbage rows the game started with that are still on the board.
+   */
+  garbageLeft: number;
+}>;
+
+
+/**
+ * The numbers a finished game is summed up with.
+ */
+export type GameStats = Readonly<{
+  score: number;
+  lines: number;
+  level: number;
+  timeMs: number;
+
+  /**
+   * Whether the game reached the goal of its mode, rather than topping out.
+   */
+  completed: boolean;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Every game mode, in the order they are offered.
+ */
+export const GAME_MODES = ['MARATHON', 'SPRINT', 'ULTRA', 'DIG', 'VERSUS', 'PUZZLE'] as const;
+
+
+/**
+ * The rules of each game mode.
+ *
+ * MARATHON: 150 lines, with the level capped at 15.
+ * SPRINT: 40 lines as fast as possible.
+ * ULTRA: the highest score in 2 minutes.
+ * DIG: clear 10 rows of garbage as fast as possible, while another row rises every 10 seconds.
+ * VERSUS: two players side by side, sending each other garbage (see versus.ts), until one tops out.
+ * PUZZLE: the board, queue and goal of a puzzle (see puzzle.ts); puzzles are not ranked, as each one is different.
+ */
+export const MODE_RULES: Readonly<Record<GameMode, ModeRules>> = {
+  MARATHON: {
+    name: 'Marathon', lineGoal: 150, timeLimitMs: null, levelCap: 15, garbageRows: 0, garbageIntervalMs: null, digGoal: false,
+    ranking: 'SCORE', completedTitle: 'Marathon complete!',
+  },
+  SPRINT: {
+    name: 'Sprint', lineGoal: 40, timeLimitMs: null, levelCap: null, garbageRows: 0, garbageIntervalMs: null, digGoal: false,
+    ranking: 'TIME', completedTitle: 'Sprint complete!',
+  },
+  ULTRA: {
+    name: 'Ultra', lineGoal: null, timeLimitMs: 120000, levelCap: null, garbageRows: 0, garbageIntervalMs: null, digGoal: false,
+    ranking: 'SCORE', completedTitle: "Time's up!",
+  },
+  DIG: {
+    name: 'Dig', lineGoal: null, timeLimitMs: null, levelCap: null, garbageRows: 10, garbageIntervalMs: 10000, digGoal: true,
+    ranking: 'TIME', completedTitle: 'Dig complete!',
+  },
+  VERSUS: {
+    name: 'Versus', lineGoal: null, timeLimitMs: null, levelCap: null, garbageRows: 0, garbageIntervalMs: null, digGoal: false,
+    ranking: 'SCORE', completedTitle: 'Game Over!',
+  },
+  PUZZLE: {
+    name: 'Puzzle', lineGoal: null, timeLimitMs: null, levelCap: null, garbageRows: 0, garbageIntervalMs: null, digGoal: false,
+    ranking: 'NONE', completedTitle: 'Puzzle solved!',
+  },
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- RULES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Checks whether a value names a game mode.
+ * Pure function.
+ * @param value The value to check, e.g. a URL parameter.
+ * @returns True if the value is a GameMode.
+ */
+export const isGameMode = (value: unknown): value is GameMode => (GAME_MODES as readonly unknown[]).includes(value);
+
+
+/**
+ * Checks whether a game has reached the goal of its mode.
+ * Pure function.
+ * @param mode The game mode.
+ * @param progress How far the game has got.
+ * @returns True if the game is complete.
+ */
+export const isModeComplete = (mode: GameMode, progress: ModeProgress): boolean => {
+  const { lineGoal, timeLimitMs, digGoal } = MODE_RULES[mode];
+  return (lineGoal !== null && progress.lines >= lineGoal)
+    || (timeLimitMs !== null && progress.timeMs >= timeLimitMs)
+    || (digGoal && progress.garbageLeft === 0);
+};
+
+
+/**
+ * Caps a level at the level cap of a mode. A game started above the cap keeps its start level.
+ * Pure function.
+ * @param mode The game mode.
+ * @param level The level reached by the lines cleared.
+ * @param startLevel The level the game started on.
+ * @returns The level played.
+ */
+export const capLevel = (mode: GameMode, level: number, startLevel: number): number => {
+  const { levelCap } = MODE_RULES[mode];
+  return levelCap === null ? level : Math.min(level, Math.max(levelCap, startLevel));
+};
+
+
+/**
+ * Gets the number of lines left to the goal of a mode: the lines to clear, or the garbage rows to dig out.
+ * Pure function.
+ * @param mode The game mode.
+ * @param progress How far the game has got.
+ * @returns The lines left, or null when the mode has no line goal.
+ */
+export const linesRemaining = (mode: GameMode, progress: ModeProgress): number | null => {
+  const { lineGoal, digGoal } = MODE_RULES[mode];
+  return digGoal ? progress.garbageLeft
+    : lineGoal === null ? null
+    : Math.max(lineGoal - progress.lines, 0);
+};
+
+
+/**
+ * Gets the time shown on the game clock: the time left in a timed mode, the time played otherwise.
+ * Pure function.
+ * @param mode The game mode.
+ * @param timeMs The game time played, in milliseconds.
+ * @returns The time to show, in milliseconds.
+ */
+export const clockTime = (mode: GameMode, timeMs: number): number => {
+  const { timeLimitMs } = MODE_RULES[mode];
+  return timeLimitMs === null ? timeMs : Math.max(timeLimitMs - timeMs, 0);
+};
+
+
+/**
+ * Formats a game time as minutes, seconds and hundredths.
+ * Pure function.
+ * @param ms The time in milliseconds.
+ * @returns The time, e.g. "2:05.37".
+ */
+export const formatClock = (ms: number): string => {
+  const hundredths = Math.floor(ms / 10);
+  return `${Math.floor(hundredths / 6000)}:${`${Math.floor(hundredths / 100) % 60}`.padStart(2, '0')}.${`${hundredths % 100}`.padStart(2, '0')}`;
+};
+
+
+/**
+ * Sums up a finished game for its results screen: a title, and the numbers that matter in its mode.
+ * Pure function.
+ * Sprint and Dig lead with the time, Ultra and Marathon with the score.
+ * @param mode The game mode.
+ * @param stats The finished game.
+ * @returns The title, and the label and value of each statistic in order.
+ */
+export const modeResults = (mode: GameMode, stats: GameStats): { title: string, rows: [string, string][] } => {
+  const time: [string, string] = ['Time', formatClock(stats.timeMs)];
+  const score: [string, string] = ['Score', `${stats.score}`];
+  const lines: [string, string] = ['Lines', `${stats.lines}`];
+  const level: [string, string] = ['Level', `${stats.level}`];
+  const perMinute: [string, string] = ['Lines per minute', stats.timeMs > 0 ? (stats.lines / (stats.timeMs / 60000)).toFixed(1) : '0.0'];
+
+  const rows: Record<GameMode, [string, string][]> = {
+    SPRINT: [time, lines, perMinute, score],
+    DIG: [time, lines, perMinute, score],
+    ULTRA: [score, lines, perMinute, level],
+    MARATHON: [score, lines, level, time],
+    VERSUS: [lines, score, level, time],
+    PUZZLE: [lines, score, time],
+  };
+  return { title: stats.completed ? MODE_RULES[mode].completedTitle : 'Game Over!', rows: rows[mode] };
+};
+
+/** ---------------------------------------------------------------- END OF RULES ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,181 @@
+/**
+ * Pieces and piece sets.
+ *
+ * Every piece is data: its cells in its spawn orientation, relative to the top-left corner of a square bounding
+ * box it rotates in (as in SRS), and the wall kick table it uses. A piece comes into play with its box centred
+ * on the board, whatever the board's width, and its top row of cells on the top row of the board. A piece set is
+ * the pieces a game draws from, along with the piece every game of the set starts with.
+ *
+ * Piece names are unique across every set (the I tetromino is I, the I pentomino I5), so a cell of the board
+ * names its piece, and its colour, without knowing the set it came from.
+ */
+
+import type { Point } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The name of a piece of any set.
+ */
+export type PieceKey = keyof typeof PIECES;
+
+
+/**
+ * A piece set a game can be played with.
+ */
+export type PieceSetKind = typeof PIECE_SET_KINDS[number];
+
+
+/**
+ * The wall kicks a piece uses: the SRS table of the J, L, S, T and Z pieces, the SRS table of the I piece, or none
+ * for a piece that looks the same in every rotation state and never turns (the O piece).
+ */
+export type KickTable = 'JLSTZ' | 'I' | 'NONE';
+
+
+/**
+ * Represents the shape of a piece.
+ */
+export type PieceShape = Readonly<{
+  /**
+   * The size of the square bounding box the piece rotates in.
+   */
+  size: number;
+
+  /**
+   * The cells of the piece in its spawn orientation, relative to the top-left corner of its box.
+   */
+  cells: readonly Point[];
+
+  /**
+   * The wall kicks the piece uses.
+   */
+  kicks: KickTable;
+}>;
+
+
+/**
+ * Represents a piece set.
+ */
+export type PieceSet = Readonly<{
+  /**
+   * The name of the set, as shown to the player.
+   */
+  name: string;
+
+  /**
+   * The pieces of the set, in a fixed order so that seeded randomizers are reproducible.
+   */
+  pieces: readonly PieceKey[];
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Builds the cells of a shape from rows of text, '#' for a cell and '.' for a gap.
+ * Pure function.
+ * @param rows The rows of the bounding box, top first.
+ * @returns The cells, row by row.
+ */
+const cellsOf = (...rows: string[]): Point[] =>
+  rows.flatMap((row, y) => [...row].flatMap((char, x) => (char === '#' ? [{ x, y }] : [])));
+
+
+/**
+ * The shape of every piece. The tetrominoes are the seven SRS pieces; the pentominoes are the twelve free
+ * pentominoes; the trominoes are the straight and the corner pieces.
+ */
+export const PIECES = {
+  I: { size: 4, kicks: 'I', cells: cellsOf('....', '####', '....', '....') },
+  O: { size: 2, kicks: 'NONE', cells: cellsOf('##', '##') },
+  T: { size: 3, kicks: 'JLSTZ', cells: cellsOf('.#.', '###', '...') },
+  S: { size: 3, kicks: 'JLSTZ', cells: cellsOf('.##', '##.', '...') },
+  Z: { size: 3, kicks: 'JLSTZ', cells: cellsOf('##.', '.##', '...') },
+  J: { size: 3, kicks: 'JLSTZ', cells: cellsOf('#..', '###', '...') },
+  L: { size: 3, kicks: 'JLSTZ', cells: cellsOf('..#', '###', '...') },
+
+  F5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('.##', '##.', '.#.') },
+  I5: { size: 5, kicks: 'I', cells: cellsOf('.....', '.....', '#####', '.....', '.....') },
+  L5: { size: 4, kicks: 'I', cells: cellsOf('...#', '####', '....', '....') },
+  N5: { size: 4, kicks: 'I', cells: cellsOf('##..', '.###', '....', '....') },
+  P5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('##.', '###', '...') },
+  T5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('###', '.#.', '.#.') },
+  U5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('#.#', '###', '...') },
+  V5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('#..', '#..', '###') },
+  W5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('#..', '##.', '.##') },
+  X5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('.#.', '###', '.#.') },
+  Y5: { size: 4, kicks: 'I', cells: cellsOf('.#..', '####', '....', '....') },
+  Z5: { size: 3, kicks: 'JLSTZ', cells: cellsOf('##.', '.#.', '.##') },
+
+  I3: { size: 3, kicks: 'JLSTZ', cells: cellsOf('...', '###', '...') },
+  V3: { size: 2, kicks: 'JLSTZ', cells: cellsOf('#.', '##') },
+} as const satisfies Readonly<Record<string, PieceShape>>;
+
+
+/**
+ * Every piece set, in the order they are offered.
+ */
+export const PIECE_SET_KINDS = ['TETROMINO', 'PENTOMINO', 'TROMINO_TETROMINO'] as const;
+
+
+/**
+ * The piece sets.
+ *
+ * TETROMINO: the seven tetrominoes of the guideline.
+ * PENTOMINO: the twelve pentominoes.
+ * TROMINO_TETROMINO: the tetrominoes with the two trominoes added.
+ */
+export const PIECE_SETS: Readonly<Record<PieceSetKind, PieceSet>> = {
+  TETROMINO: { name: 'Tetrominoes', pieces: ['I', 'O', 'T', 'S', 'Z', 'J', 'L'] },
+  PENTOMINO: { name: 'Pentominoes', pieces: ['F5', 'I5', 'L5', 'N5', 'P5', 'T5', 'U5', 'V5', 'W5', 'X5', 'Y5', 'Z5'] },
+  TROMINO_TETROMINO: { name: 'Trominoes and tetrominoes', pieces: ['I', 'O', 'T', 'S', 'Z', 'J', 'L', 'I3', 'V3'] },
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- PIECES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The name of every piece of every set.
+ */
+export const PIECE_KEYS = Object.keys(PIECES) as PieceKey[];
+
+
+/**
+ * Checks whether a value names a piece.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a PieceKey.
+ */
+export const isPieceKey = (value: unknown): value is PieceKey => (PIECE_KEYS as readonly unknown[]).includes(value);
+
+
+/**
+ * Checks whether a value names a piece set.
+ * Pure function.
+ * @param value The value to check, e.g. a URL parameter.
+ * @returns True if the value is a PieceSetKind.
+ */
+export const isPieceSetKind = (value: unknown): value is PieceSetKind => (PIECE_SET_KINDS as readonly unknown[]).includes(value);
+
+
+/**
+ * Gets where the top-left corner of a piece's bounding box is when the piece comes into play: the box centred
+ * on the board (leaning left when it cannot be exactly centred), and the piece's top row of cells on the top row.
+ * Pure function.
+ * @param type The piece.
+ * @param width The width of the board.
+ * @returns The spawn origin.
+ */
+export const spawnOrigin = (type: PieceKey, width: number): Point => {
+  const { size, cells } = PIECES[type];
+  return { x: Math.floor((width - size) / 2), y: -Math.min(...cells.map(p => p.y)) };
+};
+
+/** ---------------------------------------------------------------- END OF PIECES ------------------------------------------------------------------------------------------------- */
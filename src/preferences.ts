@@ -0,0 +1,239 @@
+/**
+ * Player preferences: key bindings (for one player and for versus), handling, gesture thresholds, display and volumes, saved between visits.
+ *
+ * Unlike replays and saved games, preferences are never rejected as a whole: a missing or invalid field
+ * falls back to its default, so a preference added later (or a hand-edited value) never resets the others.
+ */
+
+import { DEFAULT_VOLUMES, Volumes } from "./audio";
+import { Constants, DEFAULT_SETTINGS } from "./engine";
+import { DEFAULT_GESTURES, GESTURE_THRESHOLDS, GestureSettings, GestureThreshold, isSwipeUpControl } from "./gestures";
+import { Bindings, CONTROLS, DEFAULT_BINDINGS, DEFAULT_HANDLING, Handling } from "./input";
+import type { KeyValueStore } from "./types";
+import { DEFAULT_VERSUS_BINDINGS, VersusBindings } from "./versus";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Represents the player's preferences.
+ */
+export type Preferences = Readonly<{
+  /**
+   * The keys bound to each control.
+   */
+  bindings: Bindings;
+
+  /**
+   * The keys bound to each control of each player in versus.
+   */
+  versusBindings: VersusBindings;
+
+  /**
+   * The auto shift timing, and the soft drop factor new games are started with.
+   */
+  handling: Handling & Readonly<{ softDropFactor: number }>;
+
+  /**
+   * The thresholds touch and pointer gestures are recognized with.
+   */
+  gestures: GestureSettings;
+
+  /**
+   * How the game is shown.
+   */
+  display: Readonly<{
+    /**
+     * How many blocks of the next queue are shown, from 1 to NEXT_QUEUE_SIZE.
+     */
+    nextPieces: number;
+
+    /**
+     * Whether the line clear, lock and hard drop animations are toned down to a still flash.
+     */
+    reducedMotion: boolean;
+  }>;
+
+  /**
+   * The volumes of the sound effects and the music, and whether sound is muted.
+   */
+  audio: Volumes;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Preferences configuration.
+ *
+ * STORAGE_KEY: The key the preferences are saved under.
+ * MAX_DAS: The longest DAS offered, in milliseconds.
+ * MAX_ARR: The longest ARR offered, in milliseconds.
+ * MAX_SOFT_DROP_FACTOR: The fastest soft drop offered.
+ */
+export const PreferencesConfig = {
+  STORAGE_KEY: 'tetris.preferences',
+  MAX_DAS: 500,
+  MAX_ARR: 200,
+  MAX_SOFT_DROP_FACTOR: 40,
+} as const;
+
+
+/**
+ * The preferences until the player changes them.
+ */
+export const DEFAULT_PREFERENCES: Preferences = {
+  bindings: DEFAULT_BINDINGS,
+  versusBindings: DEFAULT_VERSUS_BINDINGS,
+  handling: { ...DEFAULT_HANDLING, softDropFactor: DEFAULT_SETTINGS.softDropFactor },
+  gestures: DEFAULT_GESTURES,
+  display: { nextPieces: 5, reducedMotion: false },
+  audio: DEFAULT_VOLUMES,
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- PREFERENCES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Keeps a number within a range, falling back to a default when it is not a number at all.
+ * Pure function.
+ * @param value The value to check.
+ * @param min The smallest value allowed.
+ * @param max The largest value allowed.
+ * @param fallback The value used when the value is not a finite number.
+ * @returns The value, clamped to the range.
+ */
+export const clampSetting = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+
+
+/**
+ * Reads a value as an object, or an empty one.
+ * Pure function.
+ * @param value The value.
+ * @returns The value as a record of its fields.
+ */
+const record = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+
+
+/**
+ * Reads saved key bindings, taking the keys of each control that has valid ones and the default keys for the others.
+ * Pure function.
+ * @param value The saved bindings.
+ * @param defaults The default bindings.
+ * @returns The bindings.
+ */
+const bindingsFrom = (value: unknown, defaults: Bindings): Bindings => {
+  const saved = record(value);
+  const keysOf = (keys: unknown): string[] | undefined =>
+    Array.isArray(keys) && keys.length > 0 && keys.every(code => typeof code === 'string') ? keys : undefined;
+  return CONTROLS.reduce<Bindings>((acc, control) => ({ ...acc, [control]: keysOf(saved[control]) ?? defaults[control] }), defaults);
+};
+
+
+/**
+ * Checks whether no key is bound twice across some key bindings.
+ * Pure function.
+ * @param bindings The key bindings, e.g. those of both versus players.
+ * @returns True if every key is bound to one control only.
+ */
+const withoutConflicts = (...bindings: readonly Bindings[]): boolean => {
+  const keys = bindings.flatMap(b => CONTROLS.flatMap(control => b[control]));
+  return keys.length === new Set(keys).size;
+};
+
+
+/**
+ * Reads saved preferences, keeping every valid field and using the default for the others.
+ * Pure function.
+ * It never throws. Bindings are taken per control, and only when each key is a string bound to no other control
+ * (of either player, for versus).
+ * @param json The JSON text.
+ * @returns The preferences.
+ */
+export const parsePreferences = (json: string): Preferences => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(json) as unknown;
+    } catch {
+      return undefined;
+    }
+  })();
+
+  const { bindings, versusBindings, handling, gestures, display, audio } = record(parsed);
+  const merged = bindingsFrom(bindings, DEFAULT_BINDINGS);
+  const players = Array.isArray(versusBindings) ? versusBindings : [];
+  const versus: VersusBindings = [
+    bindingsFrom(players[0], DEFAULT_VERSUS_BINDINGS[0]),
+    bindingsFrom(players[1], DEFAULT_VERSUS_BINDINGS[1]),
+  ];
+  const { das, arr, softDropFactor } = record(handling);
+  const savedGestures = record(gestures);
+  const volumes = record(audio);
+  const thresholds = (Object.keys(GESTURE_THRESHOLDS) as GestureThreshold[]).reduce<GestureSettings>(
+    (acc, key) => ({
+      ...acc,
+      [key]: clampSetting(savedGestures[key], GESTURE_THRESHOLDS[key].min, GESTURE_THRESHOLDS[key].max, DEFAULT_GESTURES[key]),
+    }),
+    DEFAULT_GESTURES
+  );
+
+  return {
+    bindings: withoutConflicts(merged) ? merged : DEFAULT_BINDINGS,  // Never load a conflict
+    versusBindings: withoutConflicts(...versus) ? versus : DEFAULT_VERSUS_BINDINGS,
+    handling: {
+      das: clampSetting(das, 0, PreferencesConfig.MAX_DAS, DEFAULT_PREFERENCES.handling.das),
+      arr: clampSetting(arr, 0, PreferencesConfig.MAX_ARR, DEFAULT_PREFERENCES.handling.arr),
+      softDropFactor: clampSetting(softDropFactor, 1, PreferencesConfig.MAX_SOFT_DROP_FACTOR, DEFAULT_PREFERENCES.handling.softDropFactor),
+    },
+    gestures: { ...thresholds, swipeUp: isSwipeUpControl(savedGestures.swipeUp) ? savedGestures.swipeUp : DEFAULT_GESTURES.swipeUp },
+    display: {
+      nextPieces: Math.round(clampSetting(record(display).nextPieces, 1, Constants.NEXT_QUEUE_SIZE, DEFAULT_PREFERENCES.display.nextPieces)),
+      reducedMotion: typeof record(display).reducedMotion === 'boolean' ? record(display).reducedMotion as boolean : DEFAULT_PREFERENCES.display.reducedMotion,
+    },
+    audio: {
+      sfx: clampSetting(volumes.sfx, 0, 1, DEFAULT_VOLUMES.sfx),
+      music: clampSetting(volumes.music, 0, 1, DEFAULT_VOLUMES.music),
+      muted: typeof volumes.muted === 'boolean' ? volumes.muted : DEFAULT_VOLUMES.muted,
+    },
+  };
+};
+
+
+/**
+ * Loads the saved preferences.
+ * Impure function.
+ * It reads from the storage.
+ * @param store The storage to read from.
+ * @returns The saved preferences, or the defaults.
+ */
+export const loadPreferences = (store: KeyValueStore): Preferences => {
+  const saved = store.getItem(PreferencesConfig.STORAGE_KEY);
+  return saved === null ? DEFAULT_PREFERENCES : parsePreferences(saved);
+};
+
+
+/**
+ * Saves the preferences.
+ * Impure function.
+ * It writes to the storage. A refused write is reported rather than thrown.
+ * @param store The storage to write to.
+ * @param preferences The preferences to save.
+ * @returns True if the preferences were saved.
+ */
+export const savePreferences = (store: KeyValueStore, preferences: Preferences): boolean => {
+  try {
+    store.setItem(PreferencesConfig.STORAGE_KEY, JSON.stringify(preferences));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** ---------------------------------------------------------------- END OF PREFERENCES ------------------------------------------------------------------------------------------------- */
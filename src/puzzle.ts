@@ -0,0 +1,415 @@
+/**
+ * Puzzles: a board, a fixed queue of pieces and a goal, set up in the editor and shared as a short code.
+ *
+ * A puzzle is played like any game (see engine.ts): the board is the starting grid, the pieces come in the order of
+ * the queue, and the game ends once the goal is reached or the queue runs out. The editor is a pure reducer over an
+ * EditorState, so painting, the queue and the goal can be tested without the DOM.
+ *
+ * A code is the puzzle packed into bytes and written in URL-safe base64, so it fits in the hash of a link:
+ * a format version, the size of the board, the goal, the queue, then the board row by row as runs of equal cells.
+ * Cells and pieces are written as indexes into PIECE_KEYS, so new pieces must be added to the end of PIECES.
+ */
+
+import type { Board, Cell } from "./engine";
+import type { ClearEvent } from "./scoring";
+import { PIECES, PIECE_KEYS, PieceKey, isPieceKey, spawnOrigin } from "./pieces";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * What a puzzle asks the player to do.
+ *
+ * NONE: nothing; the puzzle is a free play of its queue.
+ * LINES: clear the given number of lines in total.
+ * PERFECT_CLEAR: empty the whole board with a clear.
+ * TSPIN: clear at least the given number of lines with a single (full) T-spin.
+ */
+export type PuzzleGoal =
+  | Readonly<{ kind: 'NONE' }>
+  | Readonly<{ kind: 'LINES', lines: number }>
+  | Readonly<{ kind: 'PERFECT_CLEAR' }>
+  | Readonly<{ kind: 'TSPIN', lines: number }>;
+
+
+/**
+ * The kind of a puzzle goal.
+ */
+export type PuzzleGoalKind = PuzzleGoal['kind'];
+
+
+/**
+ * Represents a puzzle.
+ */
+export type Puzzle = Readonly<{
+  /**
+   * The board the puzzle starts on.
+   */
+  board: Board;
+
+  /**
+   * The pieces the player gets, in order, the first one coming straight into play. The queue never refills.
+   */
+  queue: readonly PieceKey[];
+
+  /**
+   * What the player has to do to solve the puzzle.
+   */
+  goal: PuzzleGoal;
+}>;
+
+
+/**
+ * How far a puzzle has been played, as far as its goal is concerned.
+ */
+export type PuzzleProgress = Readonly<{
+  /**
+   * The lines cleared so far.
+   */
+  lines: number;
+
+  /**
+   * The clear scored by the last lock, or null when it scored none.
+   */
+  clear: ClearEvent | null;
+}>;
+
+
+/**
+ * Represents the immutable state of the editor: the puzzle being edited, and the cell painted onto the board.
+ */
+export type EditorState = Readonly<{
+  puzzle: Puzzle;
+  brush: Cell;
+}>;
+
+
+/**
+ * Something the player does in the editor.
+ *
+ * PAINT: paints a cell of the board with the brush.
+ * BRUSH: picks the cell to paint with (EMPTY erases).
+ * QUEUE: replaces the queue.
+ * GOAL: replaces the goal.
+ * CLEAR: empties the board.
+ */
+export type EditorEvent =
+  | Readonly<{ kind: 'PAINT', x: number, y: number }>
+  | Readonly<{ kind: 'BRUSH', cell: Cell }>
+  | Readonly<{ kind: 'QUEUE', queue: readonly PieceKey[] }>
+  | Readonly<{ kind: 'GOAL', goal: PuzzleGoal }>
+  | Readonly<{ kind: 'CLEAR' }>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Puzzle code configuration.
+ *
+ * VERSION: The version of the code format, written first so that older codes can still be read if it changes.
+ * MAX_QUEUE: The most pieces a puzzle may queue.
+ * MAX_SIZE: The most columns or rows a board may have in a code (one byte each).
+ * MAX_RUN: The longest run of equal cells written as one pair of bytes.
+ * MAX_LINES: The most lines a goal may ask for (one byte).
+ */
+export const PuzzleCode = {
+  VERSION: 1,
+  MAX_QUEUE: 99,
+  MAX_SIZE: 255,
+  MAX_RUN: 255,
+  MAX_LINES: 255,
+} as const;
+
+
+/**
+ * Every kind of goal, in the order they are offered.
+ */
+export const PUZZLE_GOAL_KINDS = ['NONE', 'LINES', 'PERFECT_CLEAR', 'TSPIN'] as const satisfies readonly PuzzleGoalKind[];
+
+
+/**
+ * The name of every kind of goal, as shown to the player.
+ */
+export const GOAL_NAMES: Readonly<Record<PuzzleGoalKind, string>> = {
+  NONE: 'None',
+  LINES: 'Clear lines',
+  PERFECT_CLEAR: 'Perfect clear',
+  TSPIN: 'T-spin',
+};
+
+
+/**
+ * Every cell a board can hold, in the order a code numbers them.
+ */
+const CELL_CODES: readonly Cell[] = ['EMPTY', 'GARBAGE', ...PIECE_KEYS];
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- PUZZLES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Builds a goal from a kind and a number of lines, which only the LINES and TSPIN goals read.
+ * Pure function.
+ * @param kind The kind of goal.
+ * @param lines The number of lines, rounded and kept between one and MAX_LINES.
+ * @returns The goal.
+ */
+export const goalOf = (kind: PuzzleGoalKind, lines: number): PuzzleGoal => {
+  const count = Math.min(Math.max(1, Math.round(Number.isFinite(lines) ? lines : 1)), PuzzleCode.MAX_LINES);
+  switch (kind) {
+    case 'LINES':
+    case 'TSPIN':
+      return { kind, lines: count };
+    default:
+      return { kind };
+  }
+};
+
+
+/**
+ * Describes a goal to the player, e.g. "Clear 4 lines".
+ * Pure function.
+ * @param goal The goal.
+ * @returns The description.
+ */
+export const describeGoal = (goal: PuzzleGoal): string => {
+  switch (goal.kind) {
+    case 'LINES':
+      return `Clear ${goal.lines} line${goal.lines === 1 ? '' : 's'}`;
+    case 'PERFECT_CLEAR':
+      return 'Perfect clear';
+    case 'TSPIN':
+      return `T-spin clearing ${goal.lines}+ line${goal.lines === 1 ? '' : 's'}`;
+    default:
+      return 'Play the queue';
+  }
+};
+
+
+/**
+ * Checks whether a puzzle's goal has been reached.
+ * Pure function.
+ * @param goal The goal of the puzzle.
+ * @param progress How far the puzzle has been played.
+ * @returns True once the puzzle is solved. A puzzle with no goal is never solved; it ends when its queue runs out.
+ */
+export const isPuzzleSolved = (goal: PuzzleGoal, progress: PuzzleProgress): boolean => {
+  const { lines, clear } = progress;
+  switch (goal.kind) {
+    case 'LINES':
+      return lines >= goal.lines;
+    case 'PERFECT_CLEAR':
+      return clear !== null && clear.perfectClear;
+    case 'TSPIN':
+      return clear !== null && clear.spin === 'FULL' && clear.lines >= goal.lines;
+    default:
+      return false;
+  }
+};
+
+
+/**
+ * Checks whether a value is a goal.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a PuzzleGoal.
+ */
+const isPuzzleGoal = (value: unknown): value is PuzzleGoal => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { kind, lines } = value as Record<string, unknown>;
+  return kind === 'LINES' || kind === 'TSPIN'
+    ? Number.isInteger(lines) && (lines as number) >= 1 && (lines as number) <= PuzzleCode.MAX_LINES
+    : kind === 'NONE' || kind === 'PERFECT_CLEAR';
+};
+
+
+/**
+ * Checks whether a value is a playable puzzle: a rectangular board of valid cells, a queue of one to MAX_QUEUE
+ * pieces, and a goal. Whether the board has a size a game can be played on is up to the engine.
+ * Pure function.
+ * @param value The value to check, e.g. the puzzle of imported settings.
+ * @returns True if the value is a Puzzle.
+ */
+export const isPuzzle = (value: unknown): value is Puzzle => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { board, queue, goal } = value as Record<string, unknown>;
+  return Array.isArray(board) && board.length > 0 && board.length <= PuzzleCode.MAX_SIZE
+    && Array.isArray(board[0]) && board[0].length > 0 && board[0].length <= PuzzleCode.MAX_SIZE
+    && board.every(row => Array.isArray(row) && row.length === board[0].length && row.every(cell => CELL_CODES.includes(cell)))
+    && Array.isArray(queue) && queue.length > 0 && queue.length <= PuzzleCode.MAX_QUEUE && queue.every(isPieceKey)
+    && isPuzzleGoal(goal);
+};
+
+/** ---------------------------------------------------------------- END OF PUZZLES ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CODES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Writes the cells of a board as runs of equal cells, each run a cell index and a length of one to MAX_RUN.
+ * Pure function.
+ * @param cells The cells of the board, row by row.
+ * @returns The runs, flattened into bytes.
+ */
+const encodeRuns = (cells: readonly Cell[]): number[] =>
+  cells.reduce<number[][]>((runs, cell) => {
+    const last = runs[runs.length - 1];
+    const index = CELL_CODES.indexOf(cell);
+    return last !== undefined && last[0] === index && last[1] < PuzzleCode.MAX_RUN
+      ? [...runs.slice(0, -1), [index, last[1] + 1]]
+      : [...runs, [index, 1]];
+  }, []).flat();
+
+
+/**
+ * Encodes a puzzle as a code that can be shared in a link.
+ * Pure function.
+ * @param puzzle A valid puzzle.
+ * @returns The code, in URL-safe base64 without padding.
+ */
+export const encodePuzzle = (puzzle: Puzzle): string => {
+  const { board, queue, goal } = puzzle;
+  const bytes = [
+    PuzzleCode.VERSION,
+    board[0].length,
+    board.length,
+    PUZZLE_GOAL_KINDS.indexOf(goal.kind),
+    goal.kind === 'LINES' || goal.kind === 'TSPIN' ? goal.lines : 0,
+    queue.length,
+    ...queue.map(type => PIECE_KEYS.indexOf(type)),
+    ...encodeRuns(board.flat()),
+  ];
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+
+/**
+ * Decodes a code written by encodePuzzle.
+ * Pure function.
+ * Anything that is not a valid code (a typo, a truncated link, a newer format) is reported rather than thrown.
+ * @param code The code, e.g. from the hash of a link.
+ * @returns The puzzle, or an error to show to the player.
+ */
+export const parsePuzzle = (code: string): { puzzle: Puzzle } | { error: string } => {
+  const invalid = { error: 'This puzzle code is not valid.' };
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) return invalid;
+
+  const bytes = (() => {
+    try {
+      return [...atob(code.replace(/-/g, '+').replace(/_/g, '/'))].map(char => char.charCodeAt(0));
+    } catch {
+      return null;
+    }
+  })();
+  if (bytes === null || bytes.length < 6) return invalid;
+
+  const [version, width, height, goalIndex, lines, queueLength] = bytes;
+  if (version !== PuzzleCode.VERSION) return { error: 'This puzzle code was made by another version of the game.' };
+
+  const queue = bytes.slice(6, 6 + queueLength).map(index => PIECE_KEYS[index]);
+  const runs = bytes.slice(6 + queueLength);
+  const cells = Array.from({ length: runs.length / 2 }, (_, i) => Array<Cell>(runs[2 * i + 1]).fill(CELL_CODES[runs[2 * i]])).flat();
+  const kind = PUZZLE_GOAL_KINDS[goalIndex];
+  if (runs.length % 2 !== 0 || cells.length !== width * height || kind === undefined) return invalid;
+
+  const puzzle = {
+    board: Array.from({ length: height }, (_, y) => cells.slice(y * width, (y + 1) * width)),
+    queue,
+    goal: goalOf(kind, lines),
+  };
+  return isPuzzle(puzzle) ? { puzzle } : invalid;
+};
+
+/** ---------------------------------------------------------------- END OF CODES ------------------------------------------------------------------------------------------------- */
+/* ----------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- EDITOR ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Starts a puzzle with an empty board, an empty queue and no goal.
+ * Pure function.
+ * @param width The number of columns.
+ * @param height The number of rows.
+ * @returns The puzzle, which needs a queue before it can be played.
+ */
+export const emptyPuzzle = (width: number, height: number): Puzzle => ({
+  board: Array.from({ length: height }, () => Array<Cell>(width).fill('EMPTY')),
+  queue: [],
+  goal: { kind: 'NONE' },
+});
+
+
+/**
+ * Reads a queue typed by the player, e.g. "TSZ IOJL" or "I5, P5". Letters may be in either case, and spaces and
+ * commas between pieces are optional.
+ * Pure function.
+ * @param text The text typed.
+ * @returns The queue, or undefined if the text names something that is not a piece.
+ */
+export const parseQueue = (text: string): PieceKey[] | undefined => {
+  const compact = text.toUpperCase().replace(/[\s,]+/g, '');
+  const tokens = compact.match(/[A-Z]\d?/g) ?? [];
+  return tokens.join('') === compact && tokens.every(isPieceKey) ? tokens as PieceKey[] : undefined;
+};
+
+
+/**
+ * Writes a queue the way parseQueue reads it.
+ * Pure function.
+ * @param queue The queue.
+ * @returns The pieces, separated by spaces.
+ */
+export const formatQueue = (queue: readonly PieceKey[]): string => queue.join(' ');
+
+
+/**
+ * Tells the player what stops a puzzle from being played, if anything.
+ * Pure function.
+ * @param puzzle The puzzle being edited.
+ * @returns The problem, or null when the puzzle can be played.
+ */
+export const puzzleProblem = (puzzle: Puzzle): string | null => {
+  const { board, queue } = puzzle;
+  if (queue.length === 0) return 'Add some pieces to the queue.';
+  if (queue.length > PuzzleCode.MAX_QUEUE) return `The queue can hold at most ${PuzzleCode.MAX_QUEUE} pieces.`;
+  const origin = spawnOrigin(queue[0], board[0].length);
+  const blocked = PIECES[queue[0]].cells.some(p => board[origin.y + p.y]?.[origin.x + p.x] !== 'EMPTY');
+  return blocked ? 'Leave room at the top for the first piece to come into play.' : null;
+};
+
+
+/**
+ * Applies an editor event to the editor.
+ * Pure function.
+ * @param state The editor.
+ * @param event What the player did. Painting outside the board is ignored.
+ * @returns The updated editor.
+ */
+export const stepEditor = (state: EditorState, event: EditorEvent): EditorState => {
+  const { puzzle } = state;
+  switch (event.kind) {
+    case 'PAINT': {
+      const { x, y } = event;
+      if (puzzle.board[y]?.[x] === undefined || puzzle.board[y][x] === state.brush) return state;
+      const board = puzzle.board.map((row, ry) => (ry === y ? row.map((cell, rx) => (rx === x ? state.brush : cell)) : row));
+      return { ...state, puzzle: { ...puzzle, board } };
+    }
+    case 'BRUSH':
+      return { ...state, brush: event.cell };
+    case 'QUEUE':
+      return { ...state, puzzle: { ...puzzle, queue: event.queue } };
+    case 'GOAL':
+      return { ...state, puzzle: { ...puzzle, goal: event.goal } };
+    case 'CLEAR':
+      return { ...state, puzzle: { ...puzzle, board: emptyPuzzle(puzzle.board[0].length, puzzle.board.length).board } };
+  }
+};
+
+/** ---------------------------------------------------------------- END OF EDITOR ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------ */
@@ -0,0 +1,256 @@
+/**
+ * Seeded piece randomizers.
+ *
+ * Every strategy in this file is a pure function of its input state: the PRNG state is carried
+ * along inside the RandomizerState instead of being hidden in a global, so the same seed always
+ * produces the same sequence of pieces. This is what makes games reproducible for tests and bug reports.
+ */
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The built-in randomizer strategies.
+ *
+ * RANDOM: every piece is drawn uniformly and independently (the classic behaviour, droughts included).
+ * BAG_7: each bag holds one of every piece and is shuffled, so the same piece never waits more than 12 draws.
+ * BAG_14: like BAG_7 but each bag holds two of every piece.
+ * TGM: history-based randomizer, rerolls a few times when the drawn piece is in the recent history.
+ * FIXED: deals the pieces in the order they are given, over and over (e.g. the queue of a puzzle).
+ */
+export type RandomizerKind = 'RANDOM' | 'BAG_7' | 'BAG_14' | 'TGM' | 'FIXED';
+
+
+/**
+ * Represents the immutable state of a randomizer.
+ */
+export type RandomizerState<K extends string = string> = Readonly<{
+  /**
+   * The strategy used to draw the next piece.
+   */
+  kind: RandomizerKind;
+
+  /**
+   * The set of pieces to draw from (for FIXED, the sequence to deal, which may repeat a piece).
+   */
+  pieces: readonly K[];
+
+  /**
+   * The current state of the pseudo random number generator.
+   */
+  rng: number;
+
+  /**
+   * The pieces left in the current bag (bag strategies only), or of the current round of the sequence (FIXED only).
+   */
+  bag: readonly K[];
+
+  /**
+   * The most recently drawn pieces, newest first (TGM strategy only).
+   */
+  history: readonly K[];
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * TGM randomizer configuration.
+ *
+ * HISTORY_LENGTH: The number of recent pieces remembered.
+ * ROLLS: The number of times a piece is drawn before accepting one that is in the history.
+ * INITIAL_HISTORY: The history at the start of a game, which keeps S and Z out of the first draws.
+ */
+const Tgm = {
+  HISTORY_LENGTH: 4,
+  ROLLS: 6,
+  INITIAL_HISTORY: ['Z', 'S', 'Z', 'S'],
+} as const;
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- RANDOM NUMBERS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Advances a mulberry32 pseudo random number generator by one step.
+ * Pure function.
+ * The generator state is passed in and returned instead of being stored, so the same input
+ * always produces the same output.
+ * @param rng The current generator state.
+ * @returns A number in [0, 1) and the next generator state.
+ */
+export const nextRandom = (rng: number): [number, number] => {
+  const next = (rng + 0x6d2b79f5) >>> 0;
+  const a = Math.imul(next ^ (next >>> 15), next | 1);
+  const b = (a + Math.imul(a ^ (a >>> 7), a | 61)) ^ a;
+  return [((b ^ (b >>> 14)) >>> 0) / 4294967296, next];
+};
+
+
+/**
+ * Draws a random integer in [0, max).
+ * Pure function.
+ * @param rng The current generator state.
+ * @param max The exclusive upper bound.
+ * @returns The integer and the next generator state.
+ */
+const randomInt = (rng: number, max: number): [number, number] => {
+  const [value, nextRng] = nextRandom(rng);
+  return [Math.floor(value * max), nextRng];
+};
+
+
+/**
+ * Shuffles an array with the Fisher-Yates algorithm.
+ * Pure function.
+ * The input array is copied, and the generator state is threaded through .reduce() instead of a loop.
+ * @param items The items to shuffle.
+ * @param rng The current generator state.
+ * @returns The shuffled copy and the next generator state.
+ */
+const shuffle = <T>(items: readonly T[], rng: number): [T[], number] =>
+  items.reduceRight<[T[], number]>(([acc, r], _, i) => {
+    const [j, nextRng] = randomInt(r, i + 1);
+    const swapped = acc.map((item, k) => (k === i ? acc[j] : k === j ? acc[i] : item));
+    return [swapped, nextRng];
+  }, [[...items], rng]);
+
+/** ---------------------------------------------------------------- END OF RANDOM NUMBERS ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- RANDOMIZERS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates a randomizer for the given strategy and seed.
+ * Pure function.
+ * @param kind The strategy used to draw pieces.
+ * @param seed The seed of the pseudo random number generator.
+ * @param pieces The set of pieces to draw from.
+ * @returns The initial randomizer state.
+ */
+export const createRandomizer = <K extends string>(
+  kind: RandomizerKind,
+  seed: number,
+  pieces: readonly K[]
+): RandomizerState<K> => ({
+  kind,
+  pieces,
+  rng: seed >>> 0,
+  bag: [],
+  history: (Tgm.INITIAL_HISTORY as readonly string[]).filter((p): p is K => pieces.includes(p as K)),
+});
+
+
+/**
+ * Draws a piece from a bag, refilling the bag with a fresh shuffle once it is empty.
+ * Pure function.
+ * @param r The current randomizer state.
+ * @param copies The number of copies of every piece in a bag.
+ * @returns The drawn piece and the next randomizer state.
+ */
+const drawFromBag = <K extends string>(r: RandomizerState<K>, copies: number): { piece: K, randomizer: RandomizerState<K> } => {
+  const [bag, rng] = r.bag.length > 0
+    ? [r.bag, r.rng]
+    : shuffle(Array.from({ length: copies }, () => r.pieces).flat(), r.rng);
+  const [piece, ...rest] = bag;
+  return { piece, randomizer: { ...r, rng, bag: rest } };
+};
+
+
+/**
+ * Deals the next piece of a fixed sequence, starting the sequence again once it has all been dealt.
+ * Pure function.
+ * The generator state is left untouched, as nothing is random.
+ * @param r The current randomizer state.
+ * @returns The dealt piece and the next randomizer state.
+ */
+const dealInOrder = <K extends string>(r: RandomizerState<K>): { piece: K, randomizer: RandomizerState<K> } => {
+  const [piece, ...rest] = r.bag.length > 0 ? r.bag : r.pieces;
+  return { piece, randomizer: { ...r, bag: rest } };
+};
+
+
+/**
+ * Draws a piece with the TGM strategy: roll up to Tgm.ROLLS times, stopping as soon as a piece outside
+ * the history comes up, and keep the last roll otherwise.
+ * Pure function.
+ * @param r The current randomizer state.
+ * @returns The drawn piece and the next randomizer state.
+ */
+const drawFromHistory = <K extends string>(r: RandomizerState<K>): { piece: K, randomizer: RandomizerState<K> } => {
+  const roll = (rng: number, rollsLeft: number): [K, number] => {
+    const [index, nextRng] = randomInt(rng, r.pieces.length);
+    const piece = r.pieces[index];
+    return r.history.includes(piece) && rollsLeft > 1 ? roll(nextRng, rollsLeft - 1) : [piece, nextRng];
+  };
+  const [piece, rng] = roll(r.rng, Tgm.ROLLS);
+  return {
+    piece,
+    randomizer: { ...r, rng, history: [piece, ...r.history].slice(0, Tgm.HISTORY_LENGTH) },
+  };
+};
+
+
+/**
+ * Draws the next piece from a randomizer.
+ * Pure function.
+ * Given the same randomizer state it always returns the same piece and the same next state.
+ * @param r The current randomizer state.
+ * @returns The drawn piece and the next randomizer state.
+ */
+export const nextPiece = <K extends string>(r: RandomizerState<K>): { piece: K, randomizer: RandomizerState<K> } => {
+  switch (r.kind) {
+    case 'BAG_7':
+      return drawFromBag(r, 1);
+    case 'BAG_14':
+      return drawFromBag(r, 2);
+    case 'TGM':
+      return drawFromHistory(r);
+    case 'FIXED':
+      return dealInOrder(r);
+    case 'RANDOM':
+    default: {
+      const [index, rng] = randomInt(r.rng, r.pieces.length);
+      return { piece: r.pieces[index], randomizer: { ...r, rng } };
+    }
+  }
+};
+
+
+/**
+ * Checks whether a value names one of the built-in randomizer strategies.
+ * Pure function.
+ * @param value The value to check, e.g. a URL parameter.
+ * @returns True if the value is a RandomizerKind.
+ */
+export const isRandomizerKind = (value: unknown): value is RandomizerKind =>
+  value === 'RANDOM' || value === 'BAG_7' || value === 'BAG_14' || value === 'TGM' || value === 'FIXED';
+
+
+/**
+ * Checks whether a value is a valid randomizer state, e.g. one restored from a saved game.
+ * Pure function.
+ * @param value The value to check.
+ * @param isPiece Checks that a value is one of the pieces.
+ * @returns True if the value is a RandomizerState over those pieces.
+ */
+export const isRandomizerState = <K extends string>(
+  value: unknown,
+  isPiece: (piece: unknown) => piece is K
+): value is RandomizerState<K> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { kind, pieces, rng, bag, history } = value as Record<string, unknown>;
+  const isPieces = (list: unknown) => Array.isArray(list) && list.every(isPiece);
+  return isRandomizerKind(kind)
+    && isPieces(pieces) && (pieces as K[]).length > 0
+    && Number.isInteger(rng) && (rng as number) >= 0 && (rng as number) <= 0xFFFFFFFF
+    && isPieces(bag)
+    && isPieces(history);
+};
+
+/** ---------------------------------------------------------------- END OF RANDOMIZERS ------------------------------------------------------------------------------------------------- */
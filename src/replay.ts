@@ -0,0 +1,383 @@
+/**
+ * Replays: recording, the versioned JSON format, and playback.
+ *
+ * A replay is the seed and settings of a game plus the actions that flowed into the reducer,
+ * each stamped with the engine frame it happened on. Because the engine is deterministic,
+ * feeding the same actions on the same frames through the same reducer reproduces the game exactly.
+ *
+ * This module does not know the game's types: the state, settings and actions are type parameters,
+ * and playback is given the reducer to run (see ReplayEngine).
+ */
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * A recorded action and the frame it happened on.
+ */
+export type ReplayEntry<A> = readonly [frame: number, action: A];
+
+
+/**
+ * Represents a recorded game.
+ */
+export type Replay<S, A> = Readonly<{
+  /**
+   * The version of the replay format.
+   */
+  version: number;
+
+  /**
+   * The seed the game was started with.
+   */
+  seed: number;
+
+  /**
+   * The settings the game was started with.
+   */
+  settings: S;
+
+  /**
+   * The number of frames recorded.
+   */
+  frames: number;
+
+  /**
+   * Every action except the frame clock, in the order they happened.
+   */
+  actions: readonly ReplayEntry<A>[];
+}>;
+
+
+/**
+ * The result of importing a replay: the replay, or the reason it was rejected.
+ */
+export type ReplayParseResult<S, A> = { replay: Replay<S, A> } | { error: string };
+
+
+/**
+ * What playback needs to know about the game.
+ */
+export type ReplayEngine<St, S, A> = Readonly<{
+  /**
+   * Creates the state a game starts in.
+   */
+  init: (seed: number, settings: S) => St;
+
+  /**
+   * Applies one action to a state.
+   */
+  reduce: (state: St, action: A) => St;
+
+  /**
+   * Gets the engine frame of a state.
+   */
+  frameOf: (state: St) => number;
+
+  /**
+   * The action that advances the engine by one frame.
+   */
+  tick: A;
+}>;
+
+
+/**
+ * Represents the immutable state of a replay being played back.
+ */
+export type Playback<St, S, A> = Readonly<{
+  /**
+   * The replay being played.
+   */
+  replay: Replay<S, A>;
+
+  /**
+   * The game state reached so far.
+   */
+  state: St;
+
+  /**
+   * The index of the next action to apply.
+   */
+  cursor: number;
+
+  /**
+   * The playback speed, as a multiple of real time.
+   */
+  speed: number;
+
+  /**
+   * Indicates whether playback is paused.
+   */
+  paused: boolean;
+
+  /**
+   * Indicates whether the replay has been played to its end.
+   */
+  finished: boolean;
+}>;
+
+
+/**
+ * A command from the playback controls.
+ *
+ * STEP: the playback clock ticked (ignored while paused).
+ * TOGGLE: pause or resume playback.
+ * SPEED: change the playback speed.
+ * SEEK: jump to a frame.
+ */
+export type PlaybackCommand =
+  | Readonly<{ kind: 'STEP' }>
+  | Readonly<{ kind: 'TOGGLE' }>
+  | Readonly<{ kind: 'SPEED', speed: number }>
+  | Readonly<{ kind: 'SEEK', frame: number }>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * The current version of the replay format. Replays with another version are rejected on import.
+ * Version 2 added the soft drop factor to the game settings, version 3 the game mode,
+ * version 4 the line clear and entry delays, version 5 the board size and the piece set, and version 6 the puzzle.
+ */
+export const REPLAY_VERSION = 6;
+
+
+/**
+ * The playback speeds offered, as multiples of real time.
+ */
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4] as const;
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- RECORDING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Creates an empty replay for a new game.
+ * Pure function.
+ * @param seed The seed the game is started with.
+ * @param settings The settings the game is started with.
+ * @returns An empty replay.
+ */
+export const createReplay = <S, A>(seed: number, settings: S): Replay<S, A> => ({
+  version: REPLAY_VERSION,
+  seed,
+  settings,
+  frames: 0,
+  actions: [],
+});
+
+
+/**
+ * Records an action.
+ * Pure function.
+ * It returns a new replay with the action appended, and never modifies the input replay.
+ * @param replay The replay so far.
+ * @param frame The frame the action happened on (before it was applied).
+ * @param action The action.
+ * @returns The updated replay.
+ */
+export const recordAction = <S, A>(replay: Replay<S, A>, frame: number, action: A): Replay<S, A> => ({
+  ...replay,
+  frames: Math.max(replay.frames, frame),
+  actions: [...replay.actions, [frame, action]],
+});
+
+
+/**
+ * Records that the game has reached a frame, so playback knows how long the replay is.
+ * Pure function.
+ * @param replay The replay so far.
+ * @param frame The frame the game has reached.
+ * @returns The updated replay.
+ */
+export const recordFrame = <S, A>(replay: Replay<S, A>, frame: number): Replay<S, A> =>
+  frame > replay.frames ? { ...replay, frames: frame } : replay;
+
+/** ---------------------------------------------------------------- END OF RECORDING ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- FORMAT ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Exports a replay as JSON.
+ * Pure function.
+ * @param replay The replay to export.
+ * @returns The JSON text.
+ */
+export const serializeReplay = <S, A>(replay: Replay<S, A>): string => JSON.stringify(replay);
+
+
+/**
+ * Checks that a value already read from JSON is a replay, checking its version and every field.
+ * Pure function.
+ * @param value The value to check, e.g. the recording inside a saved game.
+ * @param isSettings Checks that a value is valid game settings.
+ * @param isAction Checks that a value is a valid action.
+ * @returns The replay, or the reason it was rejected.
+ */
+export const checkReplay = <S, A>(
+  value: unknown,
+  isSettings: (value: unknown) => value is S,
+  isAction: (value: unknown) => value is A
+): ReplayParseResult<S, A> => {
+  if (typeof value !== 'object' || value === null) return { error: 'Not a replay file' };
+
+  const { version, seed, settings, frames, actions } = value as Record<string, unknown>;
+  const isEntry = (entry: unknown): entry is ReplayEntry<A> =>
+    Array.isArray(entry) && entry.length === 2 && Number.isInteger(entry[0]) && entry[0] >= 0 && isAction(entry[1]);
+
+  if (version !== REPLAY_VERSION) return { error: `Unsupported replay version ${String(version)}` };
+  if (!Number.isInteger(seed)) return { error: 'Invalid seed' };
+  if (!isSettings(settings)) return { error: 'Invalid settings' };
+  if (!Number.isInteger(frames) || (frames as number) < 0) return { error: 'Invalid frame count' };
+  if (!Array.isArray(actions) || !actions.every(isEntry)) return { error: 'Invalid action log' };
+
+  return { replay: { version, seed: seed as number, settings, frames: frames as number, actions } };
+};
+
+
+/**
+ * Imports a replay from JSON, checking its version and every field.
+ * Pure function.
+ * It never throws: malformed input is reported as an error instead.
+ * @param json The JSON text.
+ * @param isSettings Checks that a value is valid game settings.
+ * @param isAction Checks that a value is a valid action.
+ * @returns The replay, or the reason it was rejected.
+ */
+export const parseReplay = <S, A>(
+  json: string,
+  isSettings: (value: unknown) => value is S,
+  isAction: (value: unknown) => value is A
+): ReplayParseResult<S, A> => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(json) as unknown;
+    } catch {
+      return undefined;
+    }
+  })();
+
+  return checkReplay(parsed, isSettings, isAction);
+};
+
+/** ---------------------------------------------------------------- END OF FORMAT ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- PLAYBACK ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Starts playing a replay from its first frame.
+ * Pure function.
+ * @param engine The game to replay.
+ * @param replay The replay to play.
+ * @param speed The playback speed.
+ * @returns The playback at frame 0.
+ */
+export const startPlayback = <St, S, A>(
+  engine: ReplayEngine<St, S, A>,
+  replay: Replay<S, A>,
+  speed: number = 1
+): Playback<St, S, A> => ({
+  replay,
+  state: engine.init(replay.seed, replay.settings),
+  cursor: 0,
+  speed,
+  paused: false,
+  finished: false,
+});
+
+
+/**
+ * Plays one frame: applies every action recorded on the current frame, then advances the engine.
+ * Pure function.
+ * Playback finishes once every action has been applied and the recorded length is reached,
+ * or when the engine stops advancing (game over) with nothing left to apply on this frame.
+ * @param engine The game being replayed.
+ * @param pb The playback so far.
+ * @returns The playback one frame later.
+ */
+export const stepPlayback = <St, S, A>(engine: ReplayEngine<St, S, A>, pb: Playback<St, S, A>): Playback<St, S, A> => {
+  if (pb.finished) return pb;
+
+  const frame = engine.frameOf(pb.state);
+  const pending = pb.replay.actions.slice(pb.cursor);
+  const due = pending.findIndex(([f]) => f > frame);
+  const count = due === -1 ? pending.length : due;
+
+  const acted = pending.slice(0, count).reduce((state, [, action]) => engine.reduce(state, action), pb.state);
+  const state = engine.reduce(acted, engine.tick);
+  const cursor = pb.cursor + count;
+  const stalled = engine.frameOf(state) === engine.frameOf(acted);
+  const done = cursor >= pb.replay.actions.length && engine.frameOf(state) >= pb.replay.frames;
+
+  return { ...pb, state, cursor, finished: stalled || done };
+};
+
+
+/**
+ * Moves playback to a frame, replaying from the start when seeking backwards.
+ * Pure function.
+ * Seeking never skips an action: every frame before the target is played, only without rendering.
+ * @param engine The game being replayed.
+ * @param pb The playback so far.
+ * @param frame The frame to move to.
+ * @returns The playback at the target frame (or at the end, if the replay is shorter).
+ */
+export const seekPlayback = <St, S, A>(engine: ReplayEngine<St, S, A>, pb: Playback<St, S, A>, frame: number): Playback<St, S, A> => {
+  const from = frame < engine.frameOf(pb.state)
+    ? { ...startPlayback(engine, pb.replay, pb.speed), paused: pb.paused }
+    : pb;
+  const target = Math.min(frame, pb.replay.frames);
+  return Array.from({ length: Math.max(target - engine.frameOf(from.state), 0) })
+    .reduce<Playback<St, S, A>>(acc => (acc.finished ? acc : stepPlayback(engine, acc)), from);
+};
+
+
+/**
+ * Changes the playback speed, clamped to the slowest and fastest speeds offered.
+ * Pure function.
+ * @param pb The playback.
+ * @param speed The requested speed.
+ * @returns The playback at the new speed.
+ */
+export const setPlaybackSpeed = <St, S, A>(pb: Playback<St, S, A>, speed: number): Playback<St, S, A> => ({
+  ...pb,
+  speed: Math.min(Math.max(speed, PLAYBACK_SPEEDS[0]), PLAYBACK_SPEEDS[PLAYBACK_SPEEDS.length - 1]),
+});
+
+
+
+/**
+ * Applies a command from the playback controls.
+ * Pure function.
+ * Meant to be used as the reducer of a scan over the playback control streams.
+ * @param engine The game being replayed.
+ * @param pb The playback so far.
+ * @param command The command.
+ * @returns The updated playback.
+ */
+export const applyPlaybackCommand = <St, S, A>(
+  engine: ReplayEngine<St, S, A>,
+  pb: Playback<St, S, A>,
+  command: PlaybackCommand
+): Playback<St, S, A> => {
+  switch (command.kind) {
+    case 'STEP':
+      return pb.paused ? pb : stepPlayback(engine, pb);
+    case 'TOGGLE':
+      return { ...pb, paused: !pb.paused };
+    case 'SPEED':
+      return setPlaybackSpeed(pb, command.speed);
+    case 'SEEK':
+      return seekPlayback(engine, pb, command.frame);
+  }
+};
+
+/** ---------------------------------------------------------------- END OF PLAYBACK ------------------------------------------------------------------------------------------------- */
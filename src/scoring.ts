@@ -0,0 +1,262 @@
+/**
+ * Guideline scoring.
+ *
+ * Line clears are scored by tier and level, T-spins are detected with the 3-corner rule,
+ * and consecutive clears build REN combos and back-to-back bonuses. Every function here is pure:
+ * the combo and back-to-back streaks are carried in a ScoringState that the caller stores.
+ */
+
+import { RotationState } from "./srs";
+import { Block, Point } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The kind of T-spin performed by the locking piece.
+ */
+export type SpinKind = 'NONE' | 'MINI' | 'FULL';
+
+
+/**
+ * Represents the streaks that carry over from one lock to the next.
+ */
+export type ScoringState = Readonly<{
+  /**
+   * The current REN combo: -1 when the last lock cleared nothing, 0 after the first clear of a streak.
+   */
+  combo: number;
+
+  /**
+   * Indicates whether the last clear was "difficult" (a Tetris or a T-spin clear), which enables the back-to-back bonus.
+   */
+  backToBack: boolean;
+}>;
+
+
+/**
+ * Describes a single lock that scored, for display in the sidebar.
+ */
+export type ClearEvent = Readonly<{
+  /**
+   * The number of lines cleared.
+   */
+  lines: number;
+
+  /**
+   * The T-spin performed, if any.
+   */
+  spin: SpinKind;
+
+  /**
+   * Indicates whether the clear emptied the whole board.
+   */
+  perfectClear: boolean;
+
+  /**
+   * Indicates whether the back-to-back bonus was applied.
+   */
+  backToBack: boolean;
+
+  /**
+   * The REN combo after this clear.
+   */
+  combo: number;
+
+  /**
+   * The points awarded for this lock.
+   */
+  points: number;
+
+  /**
+   * A human readable label, e.g. "T-SPIN DOUBLE" or "B2B TETRIS".
+   */
+  label: string;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Scoring table, in points per level.
+ *
+ * LINES: Points for 0 to 4 lines without a T-spin.
+ * MINI_TSPIN: Points for 0 to 2 lines with a mini T-spin.
+ * TSPIN: Points for 0 to 3 lines with a T-spin.
+ * PERFECT_CLEAR: Bonus for 1 to 4 lines that empty the board (index 0 is unused).
+ * B2B_PERFECT_TETRIS: Perfect clear bonus for a back-to-back Tetris, replacing the usual one.
+ * COMBO: Points per combo step.
+ * B2B_MULTIPLIER: Multiplier applied to a difficult clear that follows another difficult clear.
+ * SOFT_DROP: Points per row during a soft drop (not multiplied by level).
+ * HARD_DROP: Points per row during a hard drop (not multiplied by level).
+ */
+export const Points = {
+  LINES: [0, 100, 300, 500, 800],
+  MINI_TSPIN: [100, 200, 400],
+  TSPIN: [400, 800, 1200, 1600],
+  PERFECT_CLEAR: [0, 800, 1200, 1800, 2000],
+  B2B_PERFECT_TETRIS: 3200,
+  COMBO: 50,
+  B2B_MULTIPLIER: 1.5,
+  SOFT_DROP: 1,
+  HARD_DROP: 2,
+} as const;
+
+
+/**
+ * The streaks at the start of a game.
+ */
+export const initialScoring: ScoringState = { combo: -1, backToBack: false };
+
+
+/**
+ * The names of each line clear tier, indexed by the number of lines.
+ */
+const LINE_NAMES = ['', 'SINGLE', 'DOUBLE', 'TRIPLE', 'TETRIS'] as const;
+
+
+/**
+ * The diagonal corners around the centre of a T piece.
+ */
+const T_CORNERS: readonly Point[] = [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: -1, y: 1 }, { x: 1, y: 1 }];
+
+
+/**
+ * The two corners on the side the T piece points to, for each rotation state.
+ */
+const T_FRONT_CORNERS: Readonly<Record<RotationState, readonly Point[]>> = {
+  '0': [{ x: -1, y: -1 }, { x: 1, y: -1 }],
+  'R': [{ x: 1, y: -1 }, { x: 1, y: 1 }],
+  '2': [{ x: -1, y: 1 }, { x: 1, y: 1 }],
+  'L': [{ x: -1, y: -1 }, { x: -1, y: 1 }],
+};
+
+
+/**
+ * The index of the last SRS kick test, which always upgrades a mini T-spin to a full one.
+ */
+const LAST_KICK = 4;
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- T-SPIN DETECTION ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Detects a T-spin with the 3-corner rule.
+ * Pure function.
+ * A T piece whose last move was a rotation is a T-spin when at least three of the four corners
+ * around its centre are occupied (walls and the floor count as occupied). It is a full T-spin when
+ * both corners it points to are occupied, or when the rotation needed the last kick; otherwise it is a mini.
+ * @param block The locking block.
+ * @param type The type of the locking block.
+ * @param rotation The rotation state of the locking block.
+ * @param kick The kick used by the last rotation, or null if the last move was not a rotation.
+ * @param isOccupied Whether a cell of the board is blocked.
+ * @returns The kind of T-spin.
+ */
+export const detectTSpin = (
+  block: Block,
+  type: string,
+  rotation: RotationState,
+  kick: number | null,
+  isOccupied: (p: Point) => boolean
+): SpinKind => {
+  if (type !== 'T' || kick === null) return 'NONE';
+
+  // The centre of a T is the only cell touching all three others
+  const center = block.find(p => block.filter(q => Math.abs(q.x - p.x) + Math.abs(q.y - p.y) === 1).length === 3);
+  if (!center) return 'NONE';
+
+  const occupied = (corner: Point) => isOccupied({ x: center.x + corner.x, y: center.y + corner.y });
+  if (T_CORNERS.filter(occupied).length < 3) return 'NONE';
+
+  return T_FRONT_CORNERS[rotation].every(occupied) || kick === LAST_KICK ? 'FULL' : 'MINI';
+};
+
+/** ---------------------------------------------------------------- END OF T-SPIN DETECTION ------------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- SCORING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Builds the display label of a clear.
+ * Pure function.
+ * @returns The label, e.g. "B2B T-SPIN DOUBLE" or "PERFECT CLEAR TETRIS".
+ */
+const clearLabel = (lines: number, spin: SpinKind, backToBack: boolean, perfectClear: boolean): string =>
+  [
+    backToBack ? 'B2B' : '',
+    spin === 'MINI' ? 'MINI T-SPIN' : spin === 'FULL' ? 'T-SPIN' : '',
+    LINE_NAMES[Math.min(lines, 4)],
+    perfectClear ? 'PERFECT CLEAR' : '',
+  ].filter(part => part !== '').join(' ');
+
+
+/**
+ * Scores a locked piece and advances the combo and back-to-back streaks.
+ * Pure function.
+ * Given the same streaks and lock, it always awards the same points; the streaks are returned, never modified.
+ * @param scoring The streaks before the lock.
+ * @param lock The lock: lines cleared, T-spin, whether the board is now empty, and the level it happened on.
+ * @returns The points awarded, the new streaks, and the clear event (null when nothing notable happened).
+ */
+export const scoreLock = (
+  scoring: ScoringState,
+  lock: Readonly<{ lines: number, spin: SpinKind, perfectClear: boolean, level: number }>
+): { points: number, scoring: ScoringState, event: ClearEvent | null } => {
+  const { lines, spin, perfectClear, level } = lock;
+
+  if (lines === 0 && spin === 'NONE') {
+    return { points: 0, scoring: { ...scoring, combo: -1 }, event: null };
+  }
+
+  const tier = Math.min(lines, 4);
+  const base = spin === 'FULL' ? Points.TSPIN[Math.min(tier, 3)]
+    : spin === 'MINI' ? Points.MINI_TSPIN[Math.min(tier, 2)]
+    : Points.LINES[tier];
+
+  // A Tetris or any T-spin that clears lines is difficult; other clears break the back-to-back chain
+  const difficult = lines > 0 && (tier === 4 || spin !== 'NONE');
+  const backToBack = difficult && scoring.backToBack;
+  const combo = lines > 0 ? scoring.combo + 1 : -1;
+
+  const perfectBonus = !perfectClear || lines === 0 ? 0
+    : backToBack && tier === 4 ? Points.B2B_PERFECT_TETRIS
+    : Points.PERFECT_CLEAR[tier];
+
+  const points = Math.floor(
+    (base * (backToBack ? Points.B2B_MULTIPLIER : 1) + Points.COMBO * Math.max(combo, 0) + perfectBonus) * level
+  );
+
+  return {
+    points,
+    scoring: { combo, backToBack: lines > 0 ? difficult : scoring.backToBack },
+    event: {
+      lines,
+      spin,
+      perfectClear: perfectClear && lines > 0,
+      backToBack,
+      combo,
+      points,
+      label: clearLabel(lines, spin, backToBack, perfectClear && lines > 0),
+    },
+  };
+};
+
+
+/**
+ * Gets the points for dropping a block a number of rows.
+ * Pure function.
+ * @param rows The number of rows the block fell.
+ * @param hard Whether it was a hard drop (otherwise a soft drop).
+ * @returns The points awarded.
+ */
+export const dropPoints = (rows: number, hard: boolean): number =>
+  rows * (hard ? Points.HARD_DROP : Points.SOFT_DROP);
+
+/** ---------------------------------------------------------------- END OF SCORING ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,66 @@
+/**
+ * Input scripts: a plain text list of actions to feed into the engine, e.g. from the command line (see cli.ts).
+ *
+ * Each line holds one command, and everything after a # is a comment:
+ *
+ *   ACTION [count]   applies an action (see ACTIONS in engine.ts) once, or count times in a row
+ *   WAIT frames      lets the engine clock run for a number of frames
+ *
+ * Actions are applied on the current frame, so time only passes on WAIT (or on TICK).
+ */
+
+import { Action, isAction } from "./engine";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The result of reading an input script: the actions to apply in order, or the first error found.
+ */
+export type ScriptParseResult = { actions: readonly Action[] } | { error: string };
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- PARSING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Reads one line of a script.
+ * Pure function.
+ * @param line The line, without its comment.
+ * @returns The actions of the line (none for a blank line), or the reason it was rejected.
+ */
+const parseLine = (line: string): ScriptParseResult => {
+  const [command, count, ...rest] = line.trim().split(/\s+/).filter(word => word !== '');
+  if (command === undefined) return { actions: [] };
+
+  const times = count === undefined ? 1 : Number(count);
+  if (!Number.isInteger(times) || times < 0 || rest.length > 0) return { error: `Invalid count "${line.trim()}"` };
+
+  const action = command.toUpperCase() === 'WAIT' ? 'TICK' : command.toUpperCase();
+  if (!isAction(action)) return { error: `Unknown action "${command}"` };
+
+  return { actions: Array.from({ length: times }, () => action) };
+};
+
+
+/**
+ * Reads an input script.
+ * Pure function.
+ * It never throws: the first malformed line is reported as an error, along with its line number.
+ * Functional programming style.
+ * It uses .map() and .reduce() rather than loops.
+ * @param text The script.
+ * @returns Every action of the script in order, or the first error.
+ */
+export const parseScript = (text: string): ScriptParseResult =>
+  text.split(/\r?\n/)
+    .map(line => parseLine(line.replace(/#.*/, '')))
+    .reduce<ScriptParseResult>((acc, result, index) =>
+      'error' in acc ? acc
+        : 'error' in result ? { error: `Line ${index + 1}: ${result.error}` }
+        : { actions: [...acc.actions, ...result.actions] },
+      { actions: [] }
+    );
+
+/** ---------------------------------------------------------------- END OF PARSING ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,286 @@
+/**
+ * Saved games.
+ *
+ * A snapshot is a live game frozen in a versioned JSON format: the full state (board, pieces, score, level,
+ * randomizer) together with the recording so far, so a resumed game carries on exactly where it stopped and
+ * can still be exported as a replay. Snapshots written by an older version are migrated step by step;
+ * anything that cannot be migrated or fails validation is rejected rather than handed to the reducer.
+ */
+
+import { Constants, Session, isAction, isGameSettings, isState } from "./engine";
+import { RandomizerState, isRandomizerState, nextPiece } from "./randomizer";
+import { checkReplay } from "./replay";
+import type { KeyValueStore } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Represents a saved game.
+ */
+export type Snapshot = Readonly<{
+  /**
+   * The version of the snapshot format.
+   */
+  version: number;
+
+  /**
+   * When the game was saved, in milliseconds since the Unix epoch.
+   */
+  savedAt: number;
+
+  /**
+   * The game and its recording.
+   */
+  session: Session;
+}>;
+
+
+/**
+ * The result of restoring a snapshot: the snapshot, or the reason it was rejected.
+ */
+export type SnapshotParseResult = { snapshot: Snapshot } | { error: string };
+
+
+/**
+ * Upgrades a snapshot from one version of the format to the next.
+ */
+type Migration = (snapshot: Readonly<Record<string, unknown>>) => Record<string, unknown>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * The current version of the snapshot format. Bump it, and add a migration, whenever State changes shape.
+ */
+export const SNAPSHOT_VERSION = 9;
+
+
+/**
+ * The key the saved game is stored under.
+ */
+const SNAPSHOT_KEY = 'tetris.snapshot';
+
+
+/**
+ * The migrations of older snapshots, keyed by the version they upgrade from.
+ * Each one returns a snapshot of the next version; a version without a path to SNAPSHOT_VERSION is rejected.
+ */
+const MIGRATIONS: Readonly<Record<number, Migration>> = {
+  // Version 2 added the soft drop factor to the settings, which used to be fixed at 20
+  1: snapshot => {
+    const withFactor = (settings: unknown) => ({ softDropFactor: 20, ...(settings as object) });
+    const state = snapshot.state as Record<string, unknown>;
+    const recording = snapshot.recording as Record<string, unknown>;
+    return {
+      ...snapshot,
+      version: 2,
+      state: { ...state, settings: withFactor(state?.settings) },
+      recording: { ...recording, version: 2, settings: withFactor(recording?.settings) },
+    };
+  },
+
+  // Version 3 replaced the single next block with the next queue, which draws further ahead of the same randomizer
+  2: snapshot => {
+    const { nextBlock, nextBlockType, ...state } = (snapshot.state ?? {}) as Record<string, unknown>;
+    const isPiece = (piece: unknown): piece is string => typeof piece === 'string';
+    const filled = isRandomizerState(state.randomizer, isPiece)
+      ? Array.from({ length: Constants.NEXT_QUEUE_SIZE - 1 }).reduce<{ queue: unknown[], randomizer: RandomizerState<string> }>(
+        acc => {
+          const drawn = nextPiece(acc.randomizer);
+          return { queue: [...acc.queue, drawn.piece], randomizer: drawn.randomizer };
+        },
+        { queue: [nextBlockType], randomizer: state.randomizer }
+      )
+      : undefined;  // Left without a queue, so the state is rejected
+    return {
+      ...snapshot,
+      version: 3,
+      state: filled ? { ...state, nextQueue: filled.queue, randomizer: filled.randomizer } : state,
+    };
+  },
+
+  // Version 4 added the game mode to the settings; every game used to be an endless marathon
+  3: snapshot => {
+    const withMode = (settings: unknown) => ({ mode: 'MARATHON', ...(settings as object) });
+    const state = snapshot.state as Record<string, unknown>;
+    const recording = snapshot.recording as Record<string, unknown>;
+    return {
+      ...snapshot,
+      version: 4,
+      state: { completed: false, ...state, settings: withMode(state?.settings) },
+      recording: { ...recording, version: 3, settings: withMode(recording?.settings) },
+    };
+  },
+
+  // Version 5 added the garbage generator, seeded from the game seed as new games are, and the garbage left to dig
+  4: snapshot => {
+    const state = snapshot.state as Record<string, unknown>;
+    return {
+      ...snapshot,
+      version: 5,
+      state: { garbageRng: (Number(state?.seed) ^ Constants.GARBAGE_SALT) >>> 0, garbageTimer: 0, digRows: [], ...state },
+    };
+  },
+
+  // Version 6 added the count of blocks locked; a game saved before counts from where it was saved
+  5: snapshot => ({ ...snapshot, version: 6, state: { pieces: 0, ...(snapshot.state as object) } }),
+
+  // Version 7 added the line clear and entry delays; a game saved before carries on without them, as it was recorded
+  6: snapshot => {
+    const withoutDelays = (settings: unknown) => ({ lineClearDelayMs: 0, entryDelayMs: 0, ...(settings as object) });
+    const state = snapshot.state as Record<string, unknown>;
+    const recording = snapshot.recording as Record<string, unknown>;
+    return {
+      ...snapshot,
+      version: 7,
+      state: { phase: 'FALLING', phaseTimer: 0, lastLock: null, ...state, settings: withoutDelays(state?.settings) },
+      recording: { ...recording, version: 4, settings: withoutDelays(recording?.settings) },
+    };
+  },
+
+  // Version 8 added the board size and the piece set; every game used to be tetrominoes on a 10 by 20 board
+  7: snapshot => {
+    const withBoard = (settings: unknown) => ({ boardWidth: 10, boardHeight: 20, pieceSet: 'TETROMINO', ...(settings as object) });
+    const state = snapshot.state as Record<string, unknown>;
+    const recording = snapshot.recording as Record<string, unknown>;
+    return {
+      ...snapshot,
+      version: 8,
+      state: { ...state, settings: withBoard(state?.settings) },
+      recording: { ...recording, version: 5, settings: withBoard(recording?.settings) },
+    };
+  },
+
+  // Version 9 added the puzzle to the settings; every game used to start on an empty board
+  8: snapshot => {
+    const withPuzzle = (settings: unknown) => ({ puzzle: null, ...(settings as object) });
+    const state = snapshot.state as Record<string, unknown>;
+    const recording = snapshot.recording as Record<string, unknown>;
+    return {
+      ...snapshot,
+      version: 9,
+      state: { ...state, settings: withPuzzle(state?.settings) },
+      recording: { ...recording, version: 6, settings: withPuzzle(recording?.settings) },
+    };
+  },
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- FORMAT ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Exports a live game as a snapshot in JSON.
+ * Pure function.
+ * @param session The game and its recording.
+ * @param savedAt When the game is saved.
+ * @returns The JSON text.
+ */
+export const serializeSnapshot = (session: Session, savedAt: number): string =>
+  JSON.stringify({ version: SNAPSHOT_VERSION, savedAt, state: session.state, recording: session.recording });
+
+
+/**
+ * Upgrades a snapshot to the current version, one migration at a time.
+ * Pure function.
+ * @param snapshot The snapshot as read from JSON.
+ * @returns The snapshot in the current version, or undefined when there is no migration path.
+ */
+const migrate = (snapshot: Readonly<Record<string, unknown>>): Readonly<Record<string, unknown>> | undefined => {
+  const { version } = snapshot;
+  if (version === SNAPSHOT_VERSION) return snapshot;
+  if (typeof version !== 'number' || !MIGRATIONS[version]) return undefined;
+  return migrate(MIGRATIONS[version](snapshot));
+};
+
+
+/**
+ * Restores a snapshot from JSON, migrating it from an older version when possible.
+ * Pure function.
+ * It never throws: malformed input is reported as an error instead, and every field of the state
+ * is checked so a restored game cannot crash the reducer.
+ * @param json The JSON text.
+ * @returns The snapshot, or the reason it was rejected.
+ */
+export const parseSnapshot = (json: string): SnapshotParseResult => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(json) as unknown;
+    } catch {
+      return undefined;
+    }
+  })();
+
+  if (typeof parsed !== 'object' || parsed === null) return { error: 'Not a saved game' };
+
+  const migrated = migrate(parsed as Record<string, unknown>);
+  if (!migrated) return { error: `Unsupported saved game version ${String((parsed as Record<string, unknown>).version)}` };
+
+  const { savedAt, state, recording } = migrated;
+  if (typeof savedAt !== 'number' || !Number.isFinite(savedAt)) return { error: 'Invalid save time' };
+  if (!isState(state)) return { error: 'Invalid game state' };
+
+  const replay = checkReplay(recording, isGameSettings, isAction);
+  if ('error' in replay) return replay;
+
+  return { snapshot: { version: SNAPSHOT_VERSION, savedAt, session: { state, recording: replay.replay } } };
+};
+
+/** ---------------------------------------------------------------- END OF FORMAT ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- STORAGE ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Saves a live game, replacing any game saved before.
+ * Impure function.
+ * It writes to the storage. A refused write is reported rather than thrown.
+ * @param store The storage to write to.
+ * @param session The game and its recording.
+ * @param savedAt When the game is saved.
+ * @returns True if the game was saved.
+ */
+export const saveSnapshot = (store: KeyValueStore, session: Session, savedAt: number): boolean => {
+  try {
+    store.setItem(SNAPSHOT_KEY, serializeSnapshot(session, savedAt));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+
+/**
+ * Loads the saved game.
+ * Impure function.
+ * It reads from the storage.
+ * @param store The storage to read from.
+ * @returns The saved game, the reason it could not be restored, or null when no game is saved.
+ */
+export const loadSnapshot = (store: KeyValueStore): SnapshotParseResult | null => {
+  const saved = store.getItem(SNAPSHOT_KEY);
+  return saved === null ? null : parseSnapshot(saved);
+};
+
+
+/**
+ * Forgets the saved game.
+ * Impure function.
+ * It writes to the storage.
+ * @param store The storage to write to.
+ */
+export const clearSnapshot = (store: KeyValueStore): void => {
+  try {
+    store.removeItem(SNAPSHOT_KEY);
+  } catch {
+    // Storage is unavailable, so there is nothing to forget
+  }
+};
+
+/** ---------------------------------------------------------------- END OF STORAGE ------------------------------------------------------------------------------------------------- */
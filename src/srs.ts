@@ -0,0 +1,226 @@
+/**
+ * Super Rotation System (SRS).
+ *
+ * Every piece rotates inside a fixed bounding box (4x4 for I, 3x3 for J, L, S, T and Z, and the box given in
+ * pieces.ts for any other piece) instead of around the average of its cells, so a piece returns to exactly the
+ * same cells after four rotations. When the rotated piece does not fit, the kick table of the piece is tried in order.
+ *
+ * Kick offsets are written as in the guideline, with positive y pointing up. The game grid has y pointing
+ * down, so the y offset is negated when a kick is applied.
+ */
+
+import { PIECES, PieceKey } from "./pieces";
+import { Block, Point } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The four SRS rotation states: spawn (0), clockwise (R), upside down (2) and counter-clockwise (L).
+ */
+export type RotationState = '0' | 'R' | '2' | 'L';
+
+
+/**
+ * A rotation requested by the player.
+ */
+export type Rotation = 'CW' | 'CCW' | '180';
+
+
+/**
+ * The result of a successful rotation.
+ */
+export type RotationResult = Readonly<{
+  /**
+   * The rotated (and possibly kicked) block.
+   */
+  block: Block;
+
+  /**
+   * The rotation state after the rotation.
+   */
+  rotation: RotationState;
+
+  /**
+   * The index of the kick test that succeeded, 0 when the piece rotated in place.
+   */
+  kick: number;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * The rotation states in clockwise order.
+ */
+const ROTATION_ORDER: readonly RotationState[] = ['0', 'R', '2', 'L'];
+
+
+/**
+ * Wall kick offsets for the J, L, S, T and Z pieces, keyed by "from>to" (guideline orientation, y up).
+ */
+const JLSTZ_KICKS: Readonly<Record<string, readonly [number, number][]>> = {
+  '0>R': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  'R>0': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  'R>2': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  '2>R': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  '2>L': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+  'L>2': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  'L>0': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  '0>L': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+};
+
+
+/**
+ * Wall kick offsets for the I piece, keyed by "from>to" (guideline orientation, y up).
+ */
+const I_KICKS: Readonly<Record<string, readonly [number, number][]>> = {
+  '0>R': [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  'R>0': [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  'R>2': [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+  '2>R': [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  '2>L': [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  'L>2': [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  'L>0': [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  '0>L': [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+};
+
+
+/**
+ * Kick offsets for 180° rotations, which SRS itself does not define. Shared by every piece.
+ */
+const HALF_TURN_KICKS: Readonly<Record<string, readonly [number, number][]>> = {
+  '0>2': [[0, 0], [0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]],
+  '2>0': [[0, 0], [0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]],
+  'R>L': [[0, 0], [1, 0], [1, 2], [1, 1], [0, 2], [0, 1]],
+  'L>R': [[0, 0], [-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]],
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- ROTATION ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Gets the rotation state reached by applying a rotation.
+ * Pure function.
+ * @param from The current rotation state.
+ * @param rotation The rotation to apply.
+ * @returns The new rotation state.
+ */
+export const nextRotationState = (from: RotationState, rotation: Rotation): RotationState => {
+  const steps = rotation === 'CW' ? 1 : rotation === 'CCW' ? 3 : 2;
+  return ROTATION_ORDER[(ROTATION_ORDER.indexOf(from) + steps) % ROTATION_ORDER.length];
+};
+
+
+/**
+ * Checks whether a value is one of the four rotation states.
+ * Pure function.
+ * @param value The value to check, e.g. the rotation of a restored game.
+ * @returns True if the value is a RotationState.
+ */
+export const isRotationState = (value: unknown): value is RotationState =>
+  (ROTATION_ORDER as readonly unknown[]).includes(value);
+
+
+/**
+ * Rotates a point clockwise a number of quarter turns inside a square box.
+ * Pure function.
+ * @param p The point, relative to the top-left corner of the box.
+ * @param size The size of the box.
+ * @param turns The number of clockwise quarter turns.
+ * @returns The rotated point.
+ */
+const rotateInBox = (p: Point, size: number, turns: number): Point =>
+  Array.from({ length: turns }).reduce<Point>(q => ({ x: size - 1 - q.y, y: q.x }), p);
+
+
+/**
+ * Gets the cells of a piece in a rotation state, relative to its bounding box.
+ * Pure function.
+ * @param kind The type of the piece.
+ * @param rotation The rotation state.
+ * @returns The cells of the piece.
+ */
+const shapeCells = (kind: PieceKey, rotation: RotationState): Point[] => {
+  const shape = PIECES[kind];
+  return shape.cells.map(p => rotateInBox(p, shape.size, ROTATION_ORDER.indexOf(rotation)));
+};
+
+
+/**
+ * Finds the top-left corner of the bounding box of a block in play.
+ * Pure function.
+ * The block's own top-left cell is matched against the top-left cell of the piece's shape in the
+ * same rotation state, so no extra position has to be stored alongside the block.
+ * @param block The block in play.
+ * @param kind The type of the piece.
+ * @param rotation The current rotation state.
+ * @returns The top-left corner of the bounding box.
+ */
+const boxOrigin = (block: Block, kind: PieceKey, rotation: RotationState): Point => {
+  const cells = shapeCells(kind, rotation);
+  return {
+    x: Math.min(...block.map(p => p.x)) - Math.min(...cells.map(p => p.x)),
+    y: Math.min(...block.map(p => p.y)) - Math.min(...cells.map(p => p.y)),
+  };
+};
+
+
+/**
+ * Gets the kick offsets to try for a rotation, converted to grid orientation (y down).
+ * Pure function.
+ * @param kind The type of the piece.
+ * @param from The rotation state before the rotation.
+ * @param to The rotation state after the rotation.
+ * @returns The offsets to try, in order.
+ */
+const kickOffsets = (kind: PieceKey, from: RotationState, to: RotationState): Point[] => {
+  const key = `${from}>${to}`;
+  const table = HALF_TURN_KICKS[key] ?? (PIECES[kind].kicks === 'I' ? I_KICKS : JLSTZ_KICKS)[key];
+  return table.map(([x, y]) => ({ x, y: -y }));
+};
+
+
+/**
+ * Rotates a block with the Super Rotation System.
+ * Pure function.
+ * The block is first rotated inside its bounding box, then each kick offset is tried in order
+ * until the `fits` predicate accepts the result. A piece without kicks (the O piece) never changes shape.
+ * Functional programming style.
+ * It uses .map() and .find() rather than loops.
+ * @param block The block to rotate.
+ * @param kind The type of the piece.
+ * @param from The current rotation state.
+ * @param rotation The rotation to apply.
+ * @param fits Whether a candidate block is a legal position on the board.
+ * @returns The rotated block, its new rotation state and the kick used, or undefined when every kick fails.
+ */
+export const rotateWithKicks = (
+  block: Block,
+  kind: PieceKey,
+  from: RotationState,
+  rotation: Rotation,
+  fits: (candidate: Block) => boolean
+): RotationResult | undefined => {
+  const to = nextRotationState(from, rotation);
+  if (PIECES[kind].kicks === 'NONE') return fits(block) ? { block, rotation: to, kick: 0 } : undefined;
+
+  const origin = boxOrigin(block, kind, from);
+  const size = PIECES[kind].size;
+  const turns = (ROTATION_ORDER.indexOf(to) - ROTATION_ORDER.indexOf(from) + 4) % 4;
+  const rotated = block.map(p => {
+    const q = rotateInBox({ x: p.x - origin.x, y: p.y - origin.y }, size, turns);
+    return { x: q.x + origin.x, y: q.y + origin.y };
+  });
+
+  const candidates = kickOffsets(kind, from, to).map(offset => rotated.map(p => ({ x: p.x + offset.x, y: p.y + offset.y })));
+  const kick = candidates.findIndex(fits);
+  return kick >= 0 ? { block: candidates[kick], rotation: to, kick } : undefined;
+};
+
+/** ---------------------------------------------------------------- END OF ROTATION ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,386 @@
+/**
+ * Statistics: how a game is being played, beyond its score.
+ *
+ * Like the sound, the statistics follow the game rather than being told about it: each new state is compared
+ * with the one before it to count the pieces placed, the clears of each tier, the T-spins, the longest combo and
+ * the pieces dealt. The controls the player pressed for each piece are counted too, and compared on lock with the
+ * fewest that could have placed it there (its finesse): a piece placed with more presses than needed is a finesse
+ * fault. Finesse is only judged where it is well defined: for a piece the player moved themselves, that dropped
+ * straight into place from above, without tucks or spins under the stack. Every function here is pure.
+ */
+
+import { Board, Cell, Constants, GameReplay, REPLAY_ENGINE, State, isOutOfBound, spawnBlock, willCollide } from "./engine";
+import { PIECE_KEYS, PieceKey } from "./pieces";
+import { startPlayback, stepPlayback } from "./replay";
+import { Rotation, RotationState, rotateWithKicks } from "./srs";
+import type { Control } from "./input";
+import type { Block } from "./types";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * The tier of a clear, by the number of lines it cleared. Clearing four lines or more (with a pentomino) is a Tetris.
+ */
+export type ClearTier = typeof CLEAR_TIERS[number];
+
+
+/**
+ * Represents what the statistics of a game have counted so far.
+ */
+export type StatsState = Readonly<{
+  /**
+   * The number of clears of each tier.
+   */
+  clears: Readonly<Record<ClearTier, number>>;
+
+  /**
+   * The number of T-spins, mini or full, with or without lines.
+   */
+  tSpins: number;
+
+  /**
+   * The number of perfect clears.
+   */
+  perfectClears: number;
+
+  /**
+   * The longest REN combo: 0 for a single clear, 1 for two clears in a row, and so on.
+   */
+  maxCombo: number;
+
+  /**
+   * The number of each piece placed. Pieces that were never placed are left out.
+   */
+  distribution: Readonly<Partial<Record<PieceKey, number>>>;
+
+  /**
+   * The number of pieces placed with more presses than needed.
+   */
+  finesseFaults: number;
+
+  /**
+   * The controls pressed that moved or turned the piece in play, or null when they are not known
+   * (the game was resumed or replayed with this piece in play), which keeps the piece from being judged.
+   */
+  inputs: number | null;
+}>;
+
+
+/**
+ * Represents the statistics of a game, as shown to the player and kept with its leaderboard entry.
+ */
+export type StatsSummary = Readonly<{
+  /**
+   * The number of pieces placed.
+   */
+  pieces: number;
+
+  /**
+   * The number of lines cleared.
+   */
+  lines: number;
+
+  /**
+   * Pieces placed per second of game time.
+   */
+  pps: number;
+
+  /**
+   * Lines cleared per minute of game time.
+   */
+  lpm: number;
+
+  clears: Readonly<Record<ClearTier, number>>;
+  tSpins: number;
+  perfectClears: number;
+  maxCombo: number;
+  distribution: Readonly<Partial<Record<PieceKey, number>>>;
+  finesseFaults: number;
+}>;
+
+
+/**
+ * A position of a piece while looking for the fewest presses that place it: its cells and its rotation state.
+ */
+type Placement = Readonly<{
+  block: Block;
+  rotation: RotationState;
+}>;
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Every clear tier, from one line up.
+ */
+export const CLEAR_TIERS = ['SINGLE', 'DOUBLE', 'TRIPLE', 'TETRIS'] as const;
+
+
+/**
+ * The name of each clear tier, as shown to the player.
+ */
+export const CLEAR_TIER_NAMES: Readonly<Record<ClearTier, string>> = {
+  SINGLE: 'Singles',
+  DOUBLE: 'Doubles',
+  TRIPLE: 'Triples',
+  TETRIS: 'Tetrises',
+};
+
+
+/**
+ * The controls that count towards the finesse of a piece: the moves and the rotations. Drops and hold do not.
+ */
+const FINESSE_CONTROLS: readonly Control[] = ['LEFT', 'RIGHT', 'ROTATE_CW', 'ROTATE_CCW', 'ROTATE_180'];
+
+
+/**
+ * The most presses a placement is searched for. Every piece reaches any column and orientation of the widest
+ * board in fewer, so a placement not found within them is not judged.
+ */
+const FINESSE_DEPTH = 8;
+
+
+/**
+ * The statistics of a game before its first piece.
+ */
+export const initialStats: StatsState = {
+  clears: { SINGLE: 0, DOUBLE: 0, TRIPLE: 0, TETRIS: 0 },
+  tSpins: 0,
+  perfectClears: 0,
+  maxCombo: 0,
+  distribution: {},
+  finesseFaults: 0,
+  inputs: 0,
+};
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- FINESSE ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Moves a block sideways.
+ * Pure function.
+ * @param block The block.
+ * @param dx The columns to move it by, negative for left.
+ * @returns The moved block.
+ */
+const shifted = (block: Block, dx: number): Block => block.map(p => ({ x: p.x + dx, y: p.y }));
+
+
+/**
+ * Describes the cells of a block wherever it is in its column, so that a piece is matched with where it locked
+ * whatever the height it was moved at.
+ * Pure function.
+ * @param block The block.
+ * @returns The cells, lifted to the top row and sorted.
+ */
+const footprintOf = (block: Block): string => {
+  const top = Math.min(...block.map(p => p.y));
+  return block.map(p => `${p.x},${p.y - top}`).sort().join(' ');
+};
+
+
+/**
+ * Finds the placements one press away on an empty board: a move either way, holding a move to the wall
+ * (auto shift, which takes a single press however far it goes), or a rotation with its kicks.
+ * Pure function.
+ * @param p The placement.
+ * @param type The piece.
+ * @param grid The empty board.
+ * @returns The placements reached.
+ */
+const nextPlacements = (p: Placement, type: PieceKey, grid: Board): Placement[] => {
+  const fits = (block: Block) => !isOutOfBound(block, grid) && !willCollide(block, grid);
+  const toWall = (block: Block, dx: number): Block => (fits(shifted(block, dx)) ? toWall(shifted(block, dx), dx) : block);
+  const moves = [-1, 1].flatMap(dx => (fits(shifted(p.block, dx)) ? [shifted(p.block, dx), toWall(p.block, dx)] : []));
+  const turns = (['CW', 'CCW', '180'] as const satisfies readonly Rotation[]).flatMap(rotation => {
+    const turned = rotateWithKicks(p.block, type, p.rotation, rotation, fits);
+    return turned ? [{ block: turned.block, rotation: turned.rotation }] : [];
+  });
+  return [...moves.map(block => ({ block, rotation: p.rotation })), ...turns];
+};
+
+
+/**
+ * Finds the fewest presses that bring a piece from where it comes into play above where it locked, on an empty
+ * board of the same size: the finesse of the placement.
+ * Pure function.
+ * The search goes breadth first, one press at a time, recursively, never visiting a placement twice.
+ * @param type The piece.
+ * @param target Where the piece locked.
+ * @param width The width of the board.
+ * @param height The height of the board.
+ * @returns The fewest presses, or null when the placement cannot be reached within FINESSE_DEPTH presses.
+ */
+export const finesseOf = (type: PieceKey, target: Block, width: number, height: number): number | null => {
+  const grid: Board = Array.from({ length: height }, () => Array<Cell>(width).fill('EMPTY'));
+  const goal = footprintOf(target);
+  const keyOf = (p: Placement) => `${p.rotation} ${footprintOf(p.block)}`;
+
+  const search = (frontier: readonly Placement[], seen: ReadonlySet<string>, presses: number): number | null => {
+    if (frontier.some(p => footprintOf(p.block) === goal)) return presses;
+    if (frontier.length === 0 || presses >= FINESSE_DEPTH) return null;
+    const reached = new Map(frontier.flatMap(p => nextPlacements(p, type, grid)).map(p => [keyOf(p), p] as const));
+    const next = [...reached].filter(([key]) => !seen.has(key)).map(([, p]) => p);
+    return search(next, new Set([...seen, ...reached.keys()]), presses + 1);
+  };
+
+  const start: Placement = { block: spawnBlock(type, width), rotation: '0' };
+  return search([start], new Set([keyOf(start)]), 0);
+};
+
+
+/**
+ * Checks whether a piece dropped straight into where it locked: nothing on the board above any of its cells.
+ * Pure function.
+ * @param block Where the piece locked.
+ * @param grid The board before the lock.
+ * @returns True if finesse can be judged for the placement.
+ */
+const droppedStraight = (block: Block, grid: Board): boolean =>
+  block.every(p => grid.slice(0, Math.max(p.y, 0)).every(row => row[p.x] === 'EMPTY'));
+
+/** ---------------------------------------------------------------- END OF FINESSE ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- TRACKING ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Counts what a new state brought, compared with the state before it.
+ * Pure function.
+ * A lock counts its piece and its clear, and judges the finesse of the piece when the presses are known; a lock or
+ * a hold starts the count of presses again. The statistics start again with the game.
+ * @param stats The statistics so far.
+ * @param previous The state before.
+ * @param s The new state.
+ * @param presses The controls pressed in between, or null when they are not known (e.g. in a replay).
+ * @returns The statistics with the new state counted.
+ */
+export const stepStats = (stats: StatsState, previous: State, s: State, presses: readonly Control[] | null): StatsState => {
+  const fresh = presses === null ? null : 0;  // The count of presses for a new piece
+  if (s.pieces < previous.pieces || s.frame < previous.frame) return { ...initialStats, inputs: fresh };
+
+  const moving = previous.phase === 'FALLING' && !previous.gamePaused && !previous.gameEnd;
+  const pressed = moving && presses !== null ? presses.filter(control => FINESSE_CONTROLS.includes(control)).length : 0;
+  const inputs = presses === null ? null : stats.inputs === null ? null : stats.inputs + pressed;
+
+  const lock = s.pieces > previous.pieces ? s.lastLock : null;
+  if (lock === null) return { ...stats, inputs: s.holdUsed && !previous.holdUsed ? fresh : inputs };
+
+  const clear = lock.clear;
+  const tier = clear !== null && clear.lines > 0 ? CLEAR_TIERS[Math.min(clear.lines, CLEAR_TIERS.length) - 1] : null;
+  const finesse = inputs !== null && droppedStraight(lock.block, previous.grid)
+    ? finesseOf(lock.type, lock.block, previous.grid[0].length, previous.grid.length)
+    : null;
+
+  return {
+    clears: tier === null ? stats.clears : { ...stats.clears, [tier]: stats.clears[tier] + 1 },
+    tSpins: stats.tSpins + (clear !== null && clear.spin !== 'NONE' ? 1 : 0),
+    perfectClears: stats.perfectClears + (clear?.perfectClear ? 1 : 0),
+    maxCombo: Math.max(stats.maxCombo, clear?.combo ?? 0),
+    distribution: { ...stats.distribution, [lock.type]: (stats.distribution[lock.type] ?? 0) + 1 },
+    finesseFaults: stats.finesseFaults + (finesse !== null && inputs !== null && inputs > finesse ? 1 : 0),
+    inputs: fresh,
+  };
+};
+
+
+/**
+ * Counts the statistics of a replay, up to a frame, by playing it back. Presses are not recorded, so no finesse
+ * is judged: the finesse faults are those of the game as it goes on from there.
+ * Pure function.
+ * @param replay The replay, e.g. the recording of a saved game being resumed.
+ * @param frame The frame to count up to.
+ * @returns The statistics at that frame, without the presses of the piece in play.
+ */
+export const replayStats = (replay: GameReplay, frame: number = replay.frames): StatsState => {
+  const start = startPlayback(REPLAY_ENGINE, replay, 1);
+  return Array.from({ length: Math.max(Math.min(frame, replay.frames), 0) }).reduce(
+    ({ pb, stats }: { pb: typeof start, stats: StatsState }) => {
+      if (pb.finished) return { pb, stats };
+      const next = stepPlayback(REPLAY_ENGINE, pb);
+      return { pb: next, stats: stepStats(stats, pb.state, next.state, null) };
+    },
+    { pb: start, stats: { ...initialStats, inputs: null } }
+  ).stats;
+};
+
+/** ---------------------------------------------------------------- END OF TRACKING ------------------------------------------------------------------------------------------------- */
+/* ------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- SUMMARY ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Sums up the statistics of a game, with the rates worked out over its game time.
+ * Pure function.
+ * @param stats The statistics counted.
+ * @param s The state of the game.
+ * @returns The summary.
+ */
+export const summarizeStats = (stats: StatsState, s: State): StatsSummary => {
+  const timeMs = s.frame * Constants.FRAME_MS;
+  const { clears, tSpins, perfectClears, maxCombo, distribution, finesseFaults } = stats;
+  return {
+    pieces: s.pieces,
+    lines: s.clearedRows,
+    pps: timeMs > 0 ? s.pieces / (timeMs / 1000) : 0,
+    lpm: timeMs > 0 ? s.clearedRows / (timeMs / 60000) : 0,
+    clears, tSpins, perfectClears, maxCombo, distribution, finesseFaults,
+  };
+};
+
+
+/**
+ * Lists the statistics of a game for the player: the few that are worth following while playing, or all of them
+ * for the results of a finished game, including the clears of each tier and the pieces dealt.
+ * Pure function.
+ * @param summary The statistics.
+ * @param detailed Whether to list all of them.
+ * @returns The label and value of each statistic in order.
+ */
+export const statsRows = (summary: StatsSummary, detailed: boolean): [string, string][] => {
+  const live: [string, string][] = [
+    ['Pieces', `${summary.pieces}`],
+    ['Pieces per second', summary.pps.toFixed(2)],
+    ['Lines per minute', summary.lpm.toFixed(1)],
+    ['T-spins', `${summary.tSpins}`],
+    ['Max combo', `${summary.maxCombo}`],
+    ['Finesse faults', `${summary.finesseFaults}`],
+  ];
+  if (!detailed) return live;
+
+  const dealt = PIECE_KEYS.filter(type => (summary.distribution[type] ?? 0) > 0);
+  return [
+    ...live,
+    ...CLEAR_TIERS.map((tier): [string, string] => [CLEAR_TIER_NAMES[tier], `${summary.clears[tier]}`]),
+    ['Perfect clears', `${summary.perfectClears}`],
+    ['Distribution', dealt.length > 0 ? dealt.map(type => `${type} ${summary.distribution[type]}`).join(', ') : '-'],
+  ];
+};
+
+
+/**
+ * Checks whether a value is a valid summary of statistics, e.g. one read back with a leaderboard entry.
+ * Pure function.
+ * @param value The value to check.
+ * @returns True if the value is a StatsSummary.
+ */
+export const isStatsSummary = (value: unknown): value is StatsSummary => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { pieces, lines, pps, lpm, clears, tSpins, perfectClears, maxCombo, distribution, finesseFaults } = value as Record<string, unknown>;
+  const isCount = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+  const isCounts = (record: unknown, keys: readonly string[]) => typeof record === 'object' && record !== null
+    && Object.entries(record).every(([key, n]) => keys.includes(key) && isCount(n));
+  return [pieces, lines, pps, lpm, tSpins, perfectClears, maxCombo, finesseFaults].every(isCount)
+    && isCounts(clears, CLEAR_TIERS) && CLEAR_TIERS.every(tier => tier in (clears as object))
+    && isCounts(distribution, PIECE_KEYS);
+};
+
+/** ---------------------------------------------------------------- END OF SUMMARY ------------------------------------------------------------------------------------------------- */
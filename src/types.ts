@@ -0,0 +1,28 @@
+/**
+ * Common types shared between the game modules.
+ */
+
+/**
+ * Represents a point in 2D space.
+ */
+export type Point = {
+  x: number;
+  y: number;
+};
+
+
+/**
+ * Represents a block as an array of Points.
+ */
+export type Block = Point[];
+
+
+/**
+ * The part of the Web Storage API used to save data between visits. localStorage satisfies it,
+ * and tests can pass an in-memory store instead.
+ */
+export type KeyValueStore = Readonly<{
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}>;
@@ -0,0 +1,305 @@
+/**
+ * Two-player versus: two boards side by side on one keyboard, each clear sending garbage to the other.
+ *
+ * Each player has their own State (with its own randomizer, started from the same seed so both get the same
+ * pieces), their own controller and their own key bindings. Clears attack with the guideline attack table;
+ * an attack first cancels the garbage waiting to rise on the attacker's board, and whatever is left waits on the
+ * opponent's board until they lock a block without clearing a line. Every function here is pure.
+ */
+
+import { Action, GameSettings, State, createGame, pushGarbage, step } from "./engine";
+import { Bindings, Control, Handling, InputEvent, InputState, controlFor, initialInput, rebind, stepInput } from "./input";
+import type { ClearEvent } from "./scoring";
+
+/** ---------------------------------------------------------------- TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+
+/**
+ * A player: the first (left) or the second (right).
+ */
+export type PlayerIndex = 0 | 1;
+
+
+/**
+ * Represents the immutable state of one player.
+ */
+export type Player = Readonly<{
+  /**
+   * The player's game.
+   */
+  state: State;
+
+  /**
+   * The player's controller, which times their auto shift.
+   */
+  input: InputState;
+
+  /**
+   * The rows of garbage sent by the opponent that have not risen yet.
+   */
+  incoming: number;
+}>;
+
+
+/**
+ * Represents the immutable state of a match.
+ */
+export type Match = Readonly<{
+  players: readonly [Player, Player];
+}>;
+
+
+/**
+ * Something a match reacts to: a control pressed or released by one of the players, or one engine frame passing for both.
+ */
+export type MatchEvent =
+  | Readonly<{ kind: 'FRAME' }>
+  | (Exclude<InputEvent, { kind: 'FRAME' }> & Readonly<{ player: PlayerIndex }>);
+
+
+/**
+ * The keys bound to each control of each player.
+ */
+export type VersusBindings = readonly [Bindings, Bindings];
+
+/** ---------------------------------------------------------------- END OF TYPE ALIASES ------------------------------------------------------------------------------------------------- */
+/* --------------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- CONSTANTS ---------------------------------------------------------------------------------------------------- */
+
+/**
+ * Attack table, in rows of garbage sent.
+ *
+ * LINES: Rows for 0 to 4 lines without a T-spin.
+ * MINI_TSPIN: Rows for 0 to 2 lines with a mini T-spin.
+ * TSPIN: Rows for 0 to 3 lines with a T-spin.
+ * BACK_TO_BACK: Extra rows for a back-to-back clear.
+ * COMBO: Extra rows for each REN combo, the last entry for every longer combo.
+ * PERFECT_CLEAR: Extra rows for emptying the board.
+ */
+export const Attack = {
+  LINES: [0, 0, 1, 2, 4],
+  MINI_TSPIN: [0, 0, 1],
+  TSPIN: [0, 2, 4, 6],
+  BACK_TO_BACK: 1,
+  COMBO: [0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5],
+  PERFECT_CLEAR: 10,
+} as const;
+
+
+/**
+ * The keys bound to each player until they rebind them: the left of the keyboard for the first player,
+ * the arrows and the keys around them for the second.
+ */
+export const DEFAULT_VERSUS_BINDINGS: VersusBindings = [
+  {
+    LEFT: ['KeyA'],
+    RIGHT: ['KeyD'],
+    SOFT_DROP: ['KeyS'],
+    HARD_DROP: ['KeyW'],
+    ROTATE_CW: ['KeyE'],
+    ROTATE_CCW: ['KeyQ'],
+    ROTATE_180: ['KeyZ'],
+    HOLD: ['ShiftLeft'],
+    TOGGLE_GHOST: ['KeyG'],
+    PAUSE: ['Escape'],
+    RESTART: ['KeyR'],
+    MUTE: ['Digit1'],
+  },
+  {
+    LEFT: ['ArrowLeft'],
+    RIGHT: ['ArrowRight'],
+    SOFT_DROP: ['ArrowDown'],
+    HARD_DROP: ['ArrowUp'],
+    ROTATE_CW: ['Period'],
+    ROTATE_CCW: ['Comma'],
+    ROTATE_180: ['Slash'],
+    HOLD: ['ShiftRight'],
+    TOGGLE_GHOST: ['KeyL'],
+    PAUSE: ['KeyP'],
+    RESTART: ['Backspace'],
+    MUTE: ['KeyM'],
+  },
+];
+
+
+/**
+ * The players, in order.
+ */
+export const PLAYERS: readonly PlayerIndex[] = [0, 1];
+
+/** ---------------------------------------------------------------- END OF CONSTANTS ----------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- ATTACK ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Counts the rows of garbage a clear sends.
+ * Pure function.
+ * @param clear The clear.
+ * @returns The rows sent, before cancelling any garbage waiting on the attacker's board.
+ */
+export const attackOf = (clear: ClearEvent): number => {
+  if (clear.lines === 0) return 0;
+
+  const tier = Math.min(clear.lines, 4);
+  const base = clear.spin === 'FULL' ? Attack.TSPIN[Math.min(tier, 3)]
+    : clear.spin === 'MINI' ? Attack.MINI_TSPIN[Math.min(tier, 2)]
+    : Attack.LINES[tier];
+  return base
+    + (clear.backToBack ? Attack.BACK_TO_BACK : 0)
+    + Attack.COMBO[Math.min(Math.max(clear.combo, 0), Attack.COMBO.length - 1)]
+    + (clear.perfectClear ? Attack.PERFECT_CLEAR : 0);
+};
+
+/** ---------------------------------------------------------------- END OF ATTACK ------------------------------------------------------------------------------------------------- */
+/* ---------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- MATCH ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Starts a match. Both players start from the same seed, so they are dealt the same pieces.
+ * Pure function.
+ * @param seed The seed of both games.
+ * @param settings The settings of both games.
+ * @returns The new match.
+ */
+export const startMatch = (seed: number, settings: Partial<GameSettings> = {}): Match => {
+  const player: Player = { state: createGame({ seed, settings: { ...settings, mode: 'VERSUS' } }), input: initialInput, incoming: 0 };
+  return { players: [player, player] };
+};
+
+
+/**
+ * Gets the opponent of a player.
+ * Pure function.
+ * @param player The player.
+ * @returns The other player.
+ */
+export const opponentOf = (player: PlayerIndex): PlayerIndex => (player === 0 ? 1 : 0);
+
+
+/**
+ * Checks whether a match is over, and who won it.
+ * Pure function.
+ * @param match The match.
+ * @returns Whether either player has topped out, and the player still standing (null while playing, or when both topped out at once).
+ */
+export const matchResult = (match: Match): { over: boolean, winner: PlayerIndex | null } => {
+  const [first, second] = match.players.map(p => p.state.gameEnd);
+  return { over: first || second, winner: first === second ? null : first ? 1 : 0 };
+};
+
+
+/**
+ * Replaces one player of a match.
+ * Pure function.
+ * @param match The match.
+ * @param index The player to replace.
+ * @param player The new state of the player.
+ * @returns The updated match.
+ */
+const withPlayer = (match: Match, index: PlayerIndex, player: Player): Match => ({
+  players: index === 0 ? [player, match.players[1]] : [match.players[0], player],
+});
+
+
+/**
+ * Applies one action of a player, and settles the garbage it sends or lets rise.
+ * Pure function.
+ * A lock that clears lines attacks: the attack cancels the player's own incoming garbage first, and the rest is
+ * added to the opponent's. A lock that clears nothing lets all of the player's incoming garbage rise.
+ * Pausing and restarting always apply to both boards, so the players stay in step.
+ * @param match The match.
+ * @param index The player.
+ * @param action The action.
+ * @returns The updated match.
+ */
+const playAction = (match: Match, index: PlayerIndex, action: Action): Match => {
+  if (action === 'PAUSE' || action === 'RESTART') {
+    const both = match.players.map(p => ({ ...p, state: step(p.state, action), incoming: action === 'RESTART' ? 0 : p.incoming }));
+    return { players: [both[0], both[1]] };
+  }
+
+  const before = match.players[index];
+  const state = step(before.state, action);
+  if (state.pieces === before.state.pieces) return withPlayer(match, index, { ...before, state });
+
+  const lines = state.clearedRows - before.state.clearedRows;
+  if (lines === 0) return withPlayer(match, index, { ...before, state: pushGarbage(state, before.incoming), incoming: 0 });
+
+  const attack = state.lastClear ? attackOf(state.lastClear) : 0;
+  const cancelled = Math.min(attack, before.incoming);
+  const opponent = match.players[opponentOf(index)];
+  const attacked = withPlayer(match, opponentOf(index), { ...opponent, incoming: opponent.incoming + attack - cancelled });
+  return withPlayer(attacked, index, { ...before, state, incoming: before.incoming - cancelled });
+};
+
+
+/**
+ * Reacts to a control or a frame.
+ * Pure function.
+ * A control goes through the controller of the player who pressed it; a frame goes through both controllers,
+ * the first player's first. Once the match is over, only restarting does anything.
+ * @param match The match.
+ * @param event The control pressed or released, or a frame.
+ * @param handling The auto shift timing of both players.
+ * @returns The updated match.
+ */
+export const stepMatch = (match: Match, event: MatchEvent, handling: Handling): Match => {
+  const players = event.kind === 'FRAME' ? PLAYERS : [event.player];
+  const input: InputEvent = event.kind === 'FRAME' ? event : { kind: event.kind, control: event.control };
+
+  return players.reduce((acc, index) => {
+    const handled = stepInput(acc.players[index].input, input, handling);
+    const controlled = withPlayer(acc, index, { ...acc.players[index], input: handled.input });
+    return handled.actions.reduce((m, action) => (action === 'RESTART' || !matchResult(m).over ? playAction(m, index, action) : m), controlled);
+  }, match);
+};
+
+/** ---------------------------------------------------------------- END OF MATCH ------------------------------------------------------------------------------------------------- */
+/* -------------------------------------------------------------------------------------------------------------------------------------------------------------------------------- */
+
+
+/** ---------------------------------------------------------------- BINDINGS ------------------------------------------------------------------------------------------------- */
+
+/**
+ * Finds the player and control a key is bound to.
+ * Pure function.
+ * @param bindings The key bindings of both players.
+ * @param code The KeyboardEvent code of the key.
+ * @returns The player and control, or undefined when the key is not bound.
+ */
+export const playerControlFor = (bindings: VersusBindings, code: string): { player: PlayerIndex, control: Control } | undefined =>
+  PLAYERS
+    .map(player => ({ player, control: controlFor(bindings[player], code) }))
+    .find((bound): bound is { player: PlayerIndex, control: Control } => bound.control !== undefined);
+
+
+/**
+ * Binds a key to a control of a player, unless the key already belongs to another control of either player.
+ * Pure function.
+ * @param bindings The key bindings of both players.
+ * @param player The player.
+ * @param control The control to rebind.
+ * @param code The KeyboardEvent code of the new key.
+ * @returns The new bindings, or the player and control the key is already bound to.
+ */
+export const rebindPlayer = (
+  bindings: VersusBindings,
+  player: PlayerIndex,
+  control: Control,
+  code: string
+): { bindings: VersusBindings } | { conflict: { player: PlayerIndex, control: Control } } => {
+  const other = opponentOf(player);
+  const taken = controlFor(bindings[other], code);
+  if (taken !== undefined) return { conflict: { player: other, control: taken } };
+
+  const result = rebind(bindings[player], control, code);
+  if ('conflict' in result) return { conflict: { player, control: result.conflict } };
+  return { bindings: player === 0 ? [result.bindings, bindings[1]] : [bindings[0], result.bindings] };
+};
+
+/** ---------------------------------------------------------------- END OF BINDINGS ------------------------------------------------------------------------------------------------- */
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { AudioDevice, Bus, Music, SOUND_TONES, Tone, beatLength, createMixer, initialMusic, soundsOf, stepMusic } from "../src/audio";
+import { Board, Cell, State, createGame, step } from "../src/engine";
+
+const boardWith = (rows: number, holes: readonly number[]): Board =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x): Cell => y >= 20 - rows && !holes.includes(x) ? 'GARBAGE' : 'EMPTY')
+  );
+
+/**
+ * A device that plays nothing, keeping a log of what it was asked to do instead.
+ */
+const fakeDevice = (time: number) => {
+  const volumes: [Bus, number][] = [];
+  const tones: [Bus, Tone, number][] = [];
+  const device: AudioDevice = {
+    now: () => time,
+    setVolume: (bus, volume) => { volumes.push([bus, volume]); },
+    playTone: (bus, tone, at) => { tones.push([bus, tone, at]); },
+    resume: () => undefined,
+  };
+  return { device, volumes, tones };
+};
+
+describe("audio", () => {
+  it("hears moves, rotations, locks and clears by tier", () => {
+    const game = createGame({ seed: 1, settings: { lineClearDelayMs: 0, entryDelayMs: 0 } });
+    const sounds = (s: State, ...actions: Parameters<typeof step>[1][]) => soundsOf(s, actions.reduce(step, s));
+    expect(sounds(game, 'LEFT')).toEqual(['MOVE']);
+    expect(sounds(game, 'ROTATE_CW')).toEqual(['ROTATE']);
+    expect(sounds(game, 'TICK')).toEqual([]);
+    expect(sounds(game, 'HARD_DROP')).toEqual(['LOCK']);
+    expect(sounds({ ...game, grid: boardWith(2, [4, 5]) }, 'HARD_DROP')).toEqual(['LOCK', 'DOUBLE']);
+    expect(sounds({ ...game, grid: boardWith(2, [4, 5]), clearedRows: 8 }, 'HARD_DROP')).toEqual(['LOCK', 'DOUBLE', 'LEVEL_UP']);
+    expect(soundsOf(game, { ...game, gameEnd: true })).toEqual(['GAME_OVER']);
+    expect(soundsOf(step(game, 'HARD_DROP'), game)).toEqual([]);  // Restarting
+  });
+
+  it("schedules the music ahead of the clock, faster on higher levels, and stops while paused", () => {
+    const first = stepMusic(initialMusic, 10, 1, true);
+    expect(first.tones[0].offset).toBe(0);
+    expect(first.music.nextTime).toBeGreaterThanOrEqual(10 + Music.LOOKAHEAD_S);
+    expect(stepMusic(first.music, 10.01, 1, true).tones).toEqual([]);  // Already scheduled
+    expect(beatLength(10)).toBeLessThan(beatLength(1));
+    expect(beatLength(99)).toBe(beatLength(Music.MAX_TEMPO_LEVEL));
+
+    const paused = stepMusic(first.music, 11, 1, false);
+    expect(paused).toEqual({ music: { ...first.music, nextTime: null }, tones: [] });
+    const resumed = stepMusic(paused.music, 20, 1, true);
+    expect(resumed.tones[0].offset).toBe(0);
+    expect(resumed.tones[0].frequency).not.toBe(first.tones[0].frequency);  // Carries on where it stopped
+  });
+
+  it("plays effects and music through their buses, muted on the master bus", () => {
+    const { device, volumes, tones } = fakeDevice(5);
+    const mixer = createMixer(device);
+    mixer.setVolumes({ sfx: 0.5, music: 0.25, muted: true });
+    expect(volumes).toEqual([['MASTER', 0], ['SFX', 0.5], ['MUSIC', 0.25]]);
+
+    mixer.play(['LOCK', 'TETRIS']);
+    expect(tones).toEqual([...SOUND_TONES.LOCK, ...SOUND_TONES.TETRIS].map(tone => ['SFX', tone, 5]));
+
+    mixer.playMusic(stepMusic(initialMusic, 5, 1, true).tones, 5);
+    expect(tones.slice(SOUND_TONES.LOCK.length + SOUND_TONES.TETRIS.length).every(([bus]) => bus === 'MUSIC')).toBe(true);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "../src/engine";
+import { cellChanges, sceneOf } from "../src/board";
+
+describe("board scenes", () => {
+  it("draws the block in play over the hint, and the hint over the ghost", () => {
+    const s = createGame({ seed: 1 });
+    const ghost = s.block.map(p => ({ ...p, y: p.y + 18 }));  // The first block lands on the floor
+    const scene = sceneOf(s, 3, [{ x: 0, y: 19 }, ghost[0]]);
+    s.block.forEach(p => expect(scene.cells[p.y][p.x]).toBe(s.currentBlockType));
+    expect(scene.cells[19][0]).toBe('HINT');
+    expect(scene.cells.flat().filter(look => look === 'GHOST')).toHaveLength(3);
+    expect(scene.queue).toEqual(s.nextQueue.slice(0, 3));
+  });
+
+  it("only lists the cells that changed", () => {
+    const s = createGame({ seed: 1 });
+    const first = sceneOf(s, 5);
+    expect(cellChanges(null, first)).toHaveLength(200);
+    expect(cellChanges(first, sceneOf(s, 5))).toEqual([]);
+
+    const moved = cellChanges(first, sceneOf(step(s, 'LEFT'), 5));
+    expect(moved.length).toBeGreaterThan(0);
+    expect(moved.length).toBeLessThanOrEqual(16);  // The block and its ghost, where they were and where they are
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { Action, Board, Cell, State, createGame, piecesLeft, step } from "../src/engine";
+import { BotConfig, DEFAULT_WEIGHTS, evaluate, initialBot, parseWeights, placements, plan, playGame, stepBot } from "../src/bot";
+import type { Block } from "../src/types";
+
+const boardWith = (rows: number, holes: readonly number[]): Board =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x): Cell => y >= 20 - rows && !holes.includes(x) ? 'GARBAGE' : 'EMPTY')
+  );
+
+describe("bot", () => {
+  it("finds every column and rotation a block can reach, each landing where its actions put it", () => {
+    const game = createGame({ seed: 1 });
+    const found = placements(game.grid, game.block, game.currentBlockType, game.rotation);
+    expect(found.length).toBeGreaterThan(5);
+    found.forEach(p => expect(p.actions.reduce(step, game).grid).toEqual(
+      game.grid.map((row, y) => row.map((cell, x) => p.block.some(c => c.x === x && c.y === y) ? p.type : cell)).slice(0)
+    ));
+  });
+
+  it("scores boards by height, holes, bumpiness and lines", () => {
+    const weights = { height: -1, lines: 10, holes: -100, bumpiness: -1000 };
+    expect(evaluate(boardWith(2, []), 0, weights)).toBe(-20);
+    expect(evaluate(boardWith(1, [0]), 0, weights)).toBe(-9 - 1000);
+    expect(evaluate(boardWith(1, []), 2, weights)).toBe(-10 + 20);
+  });
+
+  it("fills the well to clear a line", () => {
+    const game = { ...createGame({ seed: 1 }), grid: boardWith(1, [0, 1]) };  // The first block is an O
+    const best = plan(game, DEFAULT_WEIGHTS)!;
+    expect(best.actions.reduce(step, game).clearedRows).toBe(1);
+  });
+
+  it("never holds for a block a puzzle has run out of", () => {
+    const game = createGame({
+      seed: 1,
+      settings: { mode: 'PUZZLE', puzzle: { board: boardWith(0, []), queue: ['O', 'S'], goal: { kind: 'NONE' } }, lineClearDelayMs: 0, entryDelayMs: 0 },
+    });
+    const shaft = boardWith(18, [4, 5]);  // An O clears two lines, an S only fits on its side
+    const last = { ...step(game, 'HARD_DROP'), grid: shaft };
+    expect([last.currentBlockType, last.nextQueue[0], piecesLeft(last)]).toEqual(['S', 'O', 0]);
+
+    const lines = { height: 0, lines: 1, holes: 0, bumpiness: 0 };
+    const best = plan(last, lines)!;
+    expect(best.actions).not.toContain('HOLD');
+    expect(best.actions.reduce(step, last).lastLock?.type).toBe('S');
+  });
+
+  it("clears lines on its own without topping out", () => {
+    const end = playGame(7, {}, DEFAULT_WEIGHTS, 40);
+    expect(end.gameEnd).toBe(false);
+    expect(end.pieces).toBe(40);
+    expect(end.clearedRows).toBeGreaterThan(10);
+  });
+
+  it("sends its moves at once and the hard drop a few frames later, and nothing while paused", () => {
+    const game = createGame({ seed: 1 });
+    const { actions } = plan(game, DEFAULT_WEIGHTS)!;
+    const frames = Array.from({ length: 60 }).reduce<{ bot: typeof initialBot, sent: Action[][] }>(
+      (acc) => {
+        const next = stepBot(acc.bot, game, DEFAULT_WEIGHTS);
+        return { bot: next.bot, sent: [...acc.sent, next.actions] };
+      },
+      { bot: initialBot, sent: [] }
+    );
+    expect(frames.sent[0]).toEqual(actions.slice(0, -1));
+    expect(frames.sent[BotConfig.MOVE_FRAMES + 1]).toEqual(['HARD_DROP']);
+    expect(frames.sent.flat()).toEqual(actions);
+    expect(stepBot(initialBot, step(game, 'PAUSE'), DEFAULT_WEIGHTS)).toEqual({ bot: initialBot, actions: [] });
+  });
+
+  it.each([15, 20])("lands every block where it planned, even at level %i", level => {
+    const game = createGame({ seed: 3, settings: { startLevel: level, lineClearDelayMs: 0, entryDelayMs: 0 } });
+    const frame = ({ bot, s }: { bot: typeof initialBot, s: State }) => {
+      const next = stepBot(bot, s, DEFAULT_WEIGHTS);
+      return { bot: next.bot, s: [...next.actions, 'TICK' as const].reduce(step, s) };
+    };
+    const cells = (block: Block) => block.map(p => `${p.x},${p.y}`).sort();
+    Array.from({ length: 10 }).reduce<{ bot: typeof initialBot, s: State }>(acc => {
+      const planned = plan(acc.s, DEFAULT_WEIGHTS)!;
+      const locked = Array.from({ length: 60 }).reduce<typeof acc>(played => (played.s.pieces > acc.s.pieces ? played : frame(played)), acc);  // Until it locks
+      expect(cells(locked.s.lastLock!.block)).toEqual(cells(planned.block));
+      return locked;
+    }, { bot: initialBot, s: game });
+  });
+
+  it("reads weights given as four numbers", () => {
+    expect(parseWeights("-1,2,-3,-4")).toEqual({ height: -1, lines: 2, holes: -3, bumpiness: -4 });
+    expect(parseWeights("1,2,three,4")).toBeUndefined();
+    expect(parseWeights("1,2")).toBeUndefined();
+  });
+});
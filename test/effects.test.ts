@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { sceneOf } from "../src/board";
+import { Effects, effectCells, particlesOf } from "../src/effects";
+import { Action, Board, Cell, State, createGame, step } from "../src/engine";
+
+const boardWith = (rows: number, holes: readonly number[]): Board =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x): Cell => y >= 20 - rows && !holes.includes(x) ? 'GARBAGE' : 'EMPTY')
+  );
+
+const ticks = (n: number) => Array<Action>(n).fill('TICK');
+
+/**
+ * Turns a T block into the slot of a T-spin double, under an overhang, and locks it there. The two rows it fills
+ * are cleared, unless another hole is left in them.
+ */
+const tSpin = (game: State, clears: boolean): State => {
+  const hole = (x: number, y: number) =>
+    y === 17 ? x !== 3 : (y === 18 && x >= 3 && x <= 5) || (y === 19 && x === 4) || (y >= 18 && x === 9 && !clears);
+  const grid = Array.from({ length: 20 }, (_, y) => Array.from({ length: 10 }, (_, x): Cell => y < 17 || hole(x, y) ? 'EMPTY' : 'GARBAGE'));
+  const pointingRight = [{ x: 4, y: 17 }, { x: 4, y: 18 }, { x: 5, y: 18 }, { x: 4, y: 19 }];
+  return (['ROTATE_CW', 'HARD_DROP'] as const).reduce(step, { ...game, grid, block: pointingRight, currentBlockType: 'T', rotation: 'R' });
+};
+
+describe("effects", () => {
+  it("flashes the cleared rows, then wipes them from the centre, with the block in play hidden", () => {
+    const locked = step({ ...createGame({ seed: 1 }), grid: boardWith(2, [4, 5]) }, 'HARD_DROP');
+    const scene = sceneOf(locked, 5);
+    expect(scene.cells.slice(18).flat().every(look => look === 'FLASH')).toBe(true);
+    expect(scene.cells.slice(0, 18).flat().every(look => look === 'EMPTY' || look === 'TRAIL')).toBe(true);  // No block, ghost or hint
+    expect(sceneOf(ticks(Effects.FLASH_FRAMES).reduce(step, locked), 5).cells[18][0]).toBe('EMPTY');  // Blinked off
+
+    const wiping = sceneOf(ticks(14).reduce(step, locked), 5).cells[19];
+    expect(wiping.slice(4, 6)).toEqual(['EMPTY', 'EMPTY']);
+    expect([wiping[0], wiping[9]]).toEqual(['FLASH', 'FLASH']);
+    expect(effectCells(ticks(14).reduce(step, locked), true).every(cell => cell.look === 'FLASH')).toBe(true);
+  });
+
+  it("flashes a locked block and trails a hard drop for a few frames, unless motion is reduced", () => {
+    const dropped = step(createGame({ seed: 1 }), 'HARD_DROP');
+    const cells = effectCells(dropped, false);
+    expect(cells.filter(cell => cell.look === 'FLASH')).toHaveLength(4);
+    expect(cells.filter(cell => cell.look === 'TRAIL').length).toBeGreaterThan(0);
+    expect(effectCells(dropped, true)).toEqual([]);
+    expect(effectCells(ticks(Effects.TRAIL_FRAMES).reduce(step, dropped), false)).toEqual([]);
+  });
+
+  it("throws the same particles on every replay of a Tetris or T-spin clear, and freezes them while paused", () => {
+    const game = createGame({ seed: 1 });
+    const tetris = step({
+      ...game,
+      grid: boardWith(4, [0]),
+      block: [0, 1, 2, 3].map(y => ({ x: 0, y })),
+      currentBlockType: 'I',
+    }, 'HARD_DROP');
+    const flying = ticks(5).reduce(step, tetris);
+    expect(particlesOf(flying, false)).toHaveLength(Effects.PARTICLE_COUNT);
+    expect(particlesOf(flying, false)).toEqual(particlesOf(ticks(5).reduce(step, tetris), false));
+    expect(particlesOf(step(step(flying, 'PAUSE'), 'TICK'), false)).toEqual(particlesOf(flying, false));
+    expect(particlesOf(flying, true)).toEqual([]);
+    expect(particlesOf(ticks(Effects.PARTICLE_FRAMES).reduce(step, tetris), false)).toEqual([]);
+
+    const single = step({ ...game, grid: boardWith(1, [4, 5]) }, 'HARD_DROP');
+    expect(particlesOf(single, false)).toEqual([]);
+
+    const double = tSpin(game, true);
+    expect(double.lastLock?.clear).toMatchObject({ lines: 2, spin: 'FULL' });
+    expect(particlesOf(double, false).every(p => Number.isFinite(p.x) && Number.isFinite(p.y))).toBe(true);
+    expect(particlesOf(double, false)).toHaveLength(Effects.PARTICLE_COUNT);
+
+    const none = tSpin(game, false);
+    expect(none.lastLock?.clear).toMatchObject({ lines: 0, spin: 'FULL' });
+    expect(particlesOf(none, false)).toEqual([]);
+  });
+});
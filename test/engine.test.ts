@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { Action, Board, Cell, Constants, State, createGame, pushGarbage, step, toAscii } from "../src/engine";
+
+/**
+ * Builds a board whose bottom rows are filled with garbage, leaving the given columns empty.
+ */
+const boardWith = (rows: number, holes: readonly number[]): Board =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x): Cell => y >= 20 - rows && !holes.includes(x) ? 'GARBAGE' : 'EMPTY')
+  );
+
+/**
+ * Settings that bring the next block into play on the same frame as the lock, as before the delays were added.
+ */
+const instant = { lineClearDelayMs: 0, entryDelayMs: 0 };
+
+const play = (actions: readonly Action[], seed = 1) => actions.reduce(step, createGame({ seed, settings: instant }));
+
+/**
+ * A game whose first block (an O) rests on the floor, with its lock delay not yet started.
+ */
+const grounded = () => {
+  const game = createGame({ seed: 1, settings: instant });
+  return { ...game, block: game.block.map(p => ({ ...p, y: p.y + 18 })), lowestRow: 19 };
+};
+
+describe("engine", () => {
+  it("creates the same game from the same config", () => {
+    const actions: Action[] = ['HARD_DROP', 'LEFT', 'ROTATE_CW', 'TICK', 'HOLD', 'HARD_DROP'];
+    expect(play(actions, 42)).toEqual(play(actions, 42));
+    expect(createGame({ seed: 3, settings: { startLevel: 5 } }).settings).toEqual({
+      mode: 'MARATHON', randomizer: 'BAG_7', gravityCurve: 'GUIDELINE', startLevel: 5, linesPerLevel: 10, softDropFactor: 20,
+      lineClearDelayMs: 300, entryDelayMs: 100, boardWidth: 10, boardHeight: 20, pieceSet: 'TETROMINO', puzzle: null,
+    });
+  });
+
+  it("draws the opening block from the seeded randomizer, like every block after it", () => {
+    const opening = ({ currentBlockType, nextQueue }: State) => [currentBlockType, ...nextQueue];
+    const bag = (seed: number) => opening(createGame({ seed })).slice(0, 7);  // Six in the queue, so the falling one completes the bag
+    Array.from({ length: 10 }, (_, seed) => expect([...bag(seed)].sort()).toEqual(['I', 'J', 'L', 'O', 'S', 'T', 'Z']));
+    expect(new Set(Array.from({ length: 10 }, (_, seed) => bag(seed)[0])).size).toBeGreaterThan(1);
+    Array.from({ length: 20 }, (_, seed) => createGame({ seed, settings: { randomizer: 'TGM' } }).currentBlockType)
+      .forEach(first => expect(['S', 'Z']).not.toContain(first));
+  });
+
+  it("moves the block until it reaches a wall", () => {
+    expect(play(['LEFT']).block.map(p => p.x)).toEqual([3, 4, 3, 4]);
+    expect(Math.min(...play(Array(10).fill('LEFT')).block.map(p => p.x))).toBe(0);
+  });
+
+  it("hard drops the block onto the floor and spawns the next one", () => {
+    const s = play(['HARD_DROP']);
+    expect(s.grid[18].filter(cell => cell === 'O')).toHaveLength(2);
+    expect(s.grid[19].filter(cell => cell === 'O')).toHaveLength(2);
+    expect(s.currentBlockType).toBe(createGame({ seed: 1 }).nextQueue[0]);
+    expect(s.score).toBe(36);
+  });
+
+  it("shows the ghost of the block until it is toggled off", () => {
+    expect(createGame({ seed: 1 }).showGhost).toBe(true);
+    expect(play(['TOGGLE_GHOST']).showGhost).toBe(false);
+    expect(play(['TOGGLE_GHOST', 'TOGGLE_GHOST', 'HARD_DROP']).showGhost).toBe(true);
+  });
+
+  it("keeps the next queue full, popping one block per lock or hold", () => {
+    const s = createGame({ seed: 1, settings: instant });
+    const dropped = play(['HARD_DROP']);
+    expect(s.nextQueue).toHaveLength(Constants.NEXT_QUEUE_SIZE);
+    expect(dropped.nextQueue.slice(0, -1)).toEqual(s.nextQueue.slice(1));
+    expect(play(['HOLD']).nextQueue).toEqual(dropped.nextQueue);
+    expect(play(['HOLD', 'HARD_DROP']).currentBlockType).toBe(s.nextQueue[1]);
+    expect(play(['HOLD', 'HARD_DROP', 'HARD_DROP']).pieces).toBe(2);
+  });
+
+  it("clears full rows", () => {
+    const s = step({ ...createGame({ seed: 1, settings: instant }), grid: boardWith(2, [4, 5]) }, 'HARD_DROP');
+    expect(s.clearedRows).toBe(2);
+    expect(s.grid.every(row => row.every(cell => cell === 'EMPTY'))).toBe(true);
+  });
+
+  it("keeps cleared rows on the board for the line clear delay, then waits the entry delay for the next block", () => {
+    const game = createGame({ seed: 1 });
+    const locked = step({ ...game, grid: boardWith(2, [4, 5]) }, 'HARD_DROP');
+    expect(locked).toMatchObject({ phase: 'LINE_CLEAR', clearedRows: 2, pieces: 1 });
+    expect(locked.grid.slice(18).every(row => row.every(cell => cell !== 'EMPTY'))).toBe(true);
+    expect(locked.lastLock).toMatchObject({ frame: 0, type: 'O', rows: [18, 19] });
+    expect(step(locked, 'LEFT')).toBe(locked);
+
+    const ticks = (n: number) => Array<Action>(n).fill('TICK');
+    const collapsed = ticks(Math.ceil(300 / Constants.FRAME_MS)).reduce(step, locked);
+    expect(collapsed.phase).toBe('ENTRY');
+    expect(collapsed.grid.every(row => row.every(cell => cell === 'EMPTY'))).toBe(true);
+
+    const spawned = ticks(Math.ceil(100 / Constants.FRAME_MS)).reduce(step, collapsed);
+    expect(spawned).toMatchObject({ phase: 'FALLING', currentBlockType: game.nextQueue[0] });
+    expect(step(spawned, 'PAUSE').phase).toBe('FALLING');
+  });
+
+  it("holds the block once per piece", () => {
+    const s = play(['HOLD']);
+    expect(s.heldBlockType).toBe('O');
+    expect(s.currentBlockType).toBe(createGame({ seed: 1 }).nextQueue[0]);
+    expect(step(s, 'HOLD')).toBe(s);
+  });
+
+  it("locks a block resting on the floor once the lock delay runs out", () => {
+    const ticks = Math.ceil(Constants.LOCK_DELAY_MS / Constants.FRAME_MS);
+    expect(Array<Action>(ticks - 1).fill('TICK').reduce(step, grounded()).pieces).toBe(0);
+    expect(Array<Action>(ticks).fill('TICK').reduce(step, grounded()).pieces).toBe(1);
+  });
+
+  it("restarts the lock delay when a resting block is moved", () => {
+    const ticks = Math.ceil(Constants.LOCK_DELAY_MS / Constants.FRAME_MS);
+    const moved = [...Array<Action>(ticks - 1).fill('TICK'), 'LEFT' as const].reduce(step, grounded());
+    expect([moved.lockTimer, moved.lockResets]).toEqual([0, 1]);
+    expect(Array<Action>(ticks - 1).fill('TICK').reduce(step, moved).pieces).toBe(0);
+    expect(Array<Action>(ticks).fill('TICK').reduce(step, moved).pieces).toBe(1);
+  });
+
+  it("locks on contact once every lock reset is used up", () => {
+    const moves = Array.from({ length: Constants.MAX_LOCK_RESETS }, (_, i): Action => (i % 2 === 0 ? 'LEFT' : 'RIGHT'));
+    const spent = moves.reduce(step, grounded());
+    expect(spent.lockResets).toBe(Constants.MAX_LOCK_RESETS);
+    expect(step(spent, 'LEFT').lockTimer).toBe(spent.lockTimer);  // No more resets
+    expect(step(spent, 'TICK').pieces).toBe(1);
+  });
+
+  it("rotates the block and lets gravity pull it down", () => {
+    const s = play(['HOLD', 'ROTATE_CW']);
+    expect(s.rotation).toBe('R');
+    expect(play(['HOLD', 'ROTATE_CW', ...Array(100).fill('TICK')]).block).not.toEqual(s.block);
+  });
+
+  it("drops the block to the floor in one frame at 20G, however tall the board", () => {
+    const s = step(createGame({ seed: 1, settings: { ...instant, startLevel: 20, boardHeight: Constants.MAX_BOARD_HEIGHT } }), 'TICK');
+    expect(Math.max(...s.block.map(p => p.y))).toBe(Constants.MAX_BOARD_HEIGHT - 1);
+  });
+
+  it("ends the game when the stack reaches the top", () => {
+    const s = step({ ...createGame({ seed: 1 }), grid: boardWith(18, [0]) }, 'HARD_DROP');
+    expect(s.gameEnd).toBe(true);
+    expect(s.highscore).toBe(s.score);
+    expect(step(s, 'LEFT')).toBe(s);
+  });
+
+  it("ends a game once it reaches the goal of its mode", () => {
+    const sprint = { ...createGame({ seed: 1, settings: { mode: 'SPRINT' } }), clearedRows: 38 };
+    const done = step({ ...sprint, grid: boardWith(2, [4, 5]) }, 'HARD_DROP');
+    expect([done.gameEnd, done.completed, done.clearedRows]).toEqual([true, true, 40]);
+
+    const ultra = createGame({ seed: 1, settings: { mode: 'ULTRA' } });
+    const almost = { ...ultra, frame: 120000 / Constants.FRAME_MS - 1 };
+    expect(step(almost, 'TICK')).toMatchObject({ gameEnd: true, completed: true });
+    expect(step(almost, 'PAUSE').gameEnd).toBe(false);
+  });
+
+  it("pushes garbage rows up from the bottom, each with a single hole", () => {
+    const s = pushGarbage({ ...createGame({ seed: 1 }), grid: boardWith(1, [4, 5]) }, 3);
+    expect(s.grid[16].filter(cell => cell === 'GARBAGE')).toHaveLength(8);
+    expect(s.grid.slice(17).every(row => row.filter(cell => cell === 'EMPTY').length === 1)).toBe(true);
+    expect(pushGarbage(createGame({ seed: 1 }), 3).grid).toEqual(pushGarbage(createGame({ seed: 1 }), 3).grid);
+
+    const toppedOut = pushGarbage({ ...createGame({ seed: 1 }), grid: boardWith(18, [0]) }, 3);
+    expect(toppedOut.gameEnd).toBe(true);
+    expect(toppedOut.completed).toBe(false);
+  });
+
+  it("digs through the garbage of a Dig game while more rises on a timer", () => {
+    const dig = createGame({ seed: 1, settings: { ...instant, mode: 'DIG' } });
+    expect(dig.digRows).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+    expect(dig.grid.slice(10).every(row => row.filter(cell => cell === 'GARBAGE').length === 9)).toBe(true);
+
+    const risen = Array<Action>(10000 / Constants.FRAME_MS).fill('TICK').reduce(step, dig);
+    expect(risen.digRows).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17, 18]);
+    expect(risen.grid[19].filter(cell => cell === 'GARBAGE')).toHaveLength(9);
+
+    const done = step({ ...dig, grid: boardWith(1, [4, 5]), digRows: [19] }, 'HARD_DROP');
+    expect(done).toMatchObject({ gameEnd: true, completed: true, digRows: [] });
+  });
+
+  it("prints the board as text", () => {
+    const lines = toAscii(createGame({ seed: 1, settings: instant })).split('\n');
+    expect(lines).toHaveLength(20);
+    expect(lines[0]).toBe('....oo....');
+    expect(toAscii(play(['HARD_DROP'])).split('\n')[19]).toBe('....OO....');
+  });
+});
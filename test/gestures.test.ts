@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Action } from "../src/engine";
+import { DEFAULT_GESTURES, GestureSettings, PointerLike, initialGesture, pointerSample, stepGesture } from "../src/gestures";
+import { InputEvent, initialInput, stepInput } from "../src/input";
+
+/**
+ * A synthetic pointer event: the first finger, at a point on the screen and a time in milliseconds.
+ */
+const pointer = (type: string, x: number, y: number, timeStamp: number, pointerId = 1): PointerLike =>
+  ({ type, pointerId, clientX: x, clientY: y, timeStamp });
+
+/**
+ * Feeds pointer events through the recognizer, then the controller, and collects the actions sent.
+ */
+const gesture = (events: readonly PointerLike[], settings: GestureSettings = DEFAULT_GESTURES): Action[] => {
+  const inputs = events.reduce(
+    (acc, evt) => {
+      const sample = pointerSample(evt);
+      if (!sample) return acc;
+      const result = stepGesture(acc.gesture, sample, settings);
+      return { gesture: result.gesture, events: [...acc.events, ...result.events] };
+    },
+    { gesture: initialGesture, events: [] as InputEvent[] }
+  ).events;
+  return inputs.reduce(
+    (acc, event) => {
+      const result = stepInput(acc.input, event, { das: 167, arr: 33 });
+      return { input: result.input, actions: [...acc.actions, ...result.actions] };
+    },
+    { input: initialInput, actions: [] as Action[] }
+  ).actions;
+};
+
+describe("gestures", () => {
+  it("rotates on a tap", () => {
+    expect(gesture([pointer('pointerdown', 100, 100, 0), pointer('pointerup', 103, 102, 120)])).toEqual(['ROTATE_CW']);
+    expect(gesture([pointer('pointerdown', 100, 100, 0), pointer('pointerup', 100, 100, 900)])).toEqual([]);  // A long press
+  });
+
+  it("moves one cell for each cell dragged", () => {
+    expect(gesture([
+      pointer('pointerdown', 100, 100, 0),
+      pointer('pointermove', 150, 104, 50),   // Two cells right
+      pointer('pointermove', 76, 110, 100),   // Back to one cell left
+      pointer('pointerup', 76, 110, 400),
+    ])).toEqual(['RIGHT', 'RIGHT', 'LEFT', 'LEFT', 'LEFT']);
+  });
+
+  it("hard drops on a flick down and soft drops on a slow swipe down", () => {
+    expect(gesture([pointer('pointerdown', 100, 100, 0), pointer('pointermove', 102, 160, 60), pointer('pointerup', 102, 200, 100)]))
+      .toEqual(['HARD_DROP']);
+    expect(gesture([pointer('pointerdown', 100, 100, 0), pointer('pointermove', 102, 160, 300), pointer('pointerup', 102, 250, 800)]))
+      .toEqual(['SOFT_DROP_START', 'SOFT_DROP_END']);
+  });
+
+  it("presses the swipe up control on a flick up", () => {
+    const flick = [pointer('pointerdown', 100, 200, 0), pointer('pointerup', 100, 120, 100)];
+    expect(gesture(flick)).toEqual(['HOLD']);
+    expect(gesture(flick, { ...DEFAULT_GESTURES, swipeUp: 'PAUSE' })).toEqual(['PAUSE']);
+  });
+
+  it("follows only the first pointer and releases soft drop when cancelled", () => {
+    expect(gesture([
+      pointer('pointerdown', 100, 100, 0),
+      pointer('pointerdown', 300, 100, 10, 2),
+      pointer('pointermove', 400, 100, 50, 2),
+      pointer('pointerup', 400, 100, 60, 2),
+      pointer('pointerup', 100, 100, 100),
+    ])).toEqual(['ROTATE_CW']);
+    expect(gesture([pointer('pointerdown', 100, 100, 0), pointer('pointermove', 100, 200, 300), pointer('pointercancel', 100, 200, 400)]))
+      .toEqual(['SOFT_DROP_START', 'SOFT_DROP_END']);
+  });
+});
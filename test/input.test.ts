@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { Action, Constants } from "../src/engine";
+import { DEFAULT_BINDINGS, InputEvent, InputState, RELEASE_ALL, controlFor, initialInput, keyLabel, rebind, stepInput } from "../src/input";
+
+const handling = { das: 160, arr: 32 };
+
+/**
+ * Feeds events through the controller and collects every action it sends.
+ */
+const run = (events: readonly InputEvent[], h = handling): { input: InputState, actions: Action[] } =>
+  events.reduce(
+    (acc, event) => {
+      const result = stepInput(acc.input, event, h);
+      return { input: result.input, actions: [...acc.actions, ...result.actions] };
+    },
+    { input: initialInput, actions: [] as Action[] }
+  );
+
+const frames = (n: number): InputEvent[] => Array(n).fill({ kind: 'FRAME' });
+const moves = (actions: Action[], direction: Action) => actions.filter(a => a === direction).length;
+
+describe("controller", () => {
+  it("moves once on press, then repeats after DAS at the ARR", () => {
+    const down: InputEvent = { kind: 'DOWN', control: 'LEFT' };
+    expect(run([down, ...frames(9)]).actions.filter(a => a !== 'TICK')).toEqual(['LEFT']);  // 144 ms < DAS
+    expect(moves(run([down, ...frames(10)]).actions, 'LEFT')).toBe(2);                       // 160 ms: DAS charged
+    expect(moves(run([down, ...frames(12)]).actions, 'LEFT')).toBe(3);                       // 192 ms: one ARR later
+    expect(run([down, ...frames(10)]).actions.at(-1)).toBe('TICK');
+  });
+
+  it("sends the block to the wall with an ARR of 0", () => {
+    const { actions } = run([{ kind: 'DOWN', control: 'RIGHT' }, ...frames(10)], { das: 160, arr: 0 });
+    expect(moves(actions, 'RIGHT')).toBe(1 + Constants.MAX_BOARD_WIDTH);  // The press, then the widest board's worth
+  });
+
+  it("shifts towards the most recent direction held", () => {
+    const { input, actions } = run([
+      { kind: 'DOWN', control: 'LEFT' },
+      { kind: 'DOWN', control: 'RIGHT' },
+      ...frames(10),
+      { kind: 'UP', control: 'RIGHT' },
+    ]);
+    expect(moves(actions, 'RIGHT')).toBe(2);
+    expect(moves(actions, 'LEFT')).toBe(1);
+    expect(input).toEqual({ held: ['LEFT'], shiftTimer: 0 });
+    expect(run([{ kind: 'UP', control: 'LEFT' }]).input).toEqual(initialInput);
+  });
+
+  it("lets go of every held control when the page loses the keyboard", () => {
+    const held = run([{ kind: 'DOWN', control: 'LEFT' }, { kind: 'DOWN', control: 'SOFT_DROP' }, ...frames(5)]);
+    const released = [...RELEASE_ALL, ...frames(30)].reduce(
+      (acc, event) => {
+        const result = stepInput(acc.input, event, handling);
+        return { input: result.input, actions: [...acc.actions, ...result.actions] };
+      },
+      { input: held.input, actions: [] as Action[] }
+    );
+    expect(released.input).toEqual(initialInput);
+    expect(released.actions.filter(a => a !== 'TICK')).toEqual(['SOFT_DROP_END']);  // No auto shift after the release
+    expect(run(RELEASE_ALL).input).toEqual(initialInput);
+  });
+
+  it("turns the other controls into actions", () => {
+    expect(run([
+      { kind: 'DOWN', control: 'SOFT_DROP' },
+      { kind: 'UP', control: 'SOFT_DROP' },
+      { kind: 'DOWN', control: 'HARD_DROP' },
+      { kind: 'UP', control: 'HARD_DROP' },
+      { kind: 'DOWN', control: 'RESTART' },
+    ]).actions).toEqual(['SOFT_DROP_START', 'SOFT_DROP_END', 'HARD_DROP', 'RESTART']);
+  });
+});
+
+describe("bindings", () => {
+  it("finds the control of a key", () => {
+    expect(controlFor(DEFAULT_BINDINGS, 'ArrowLeft')).toBe('LEFT');
+    expect(controlFor(DEFAULT_BINDINGS, 'KeyY')).toBeUndefined();
+  });
+
+  it("rebinds a key unless another control uses it", () => {
+    expect(rebind(DEFAULT_BINDINGS, 'HOLD', 'Space')).toEqual({ conflict: 'HARD_DROP' });
+    const result = rebind(DEFAULT_BINDINGS, 'HOLD', 'KeyV');
+    expect('bindings' in result && result.bindings.HOLD).toEqual(['KeyV']);
+    expect('bindings' in rebind(DEFAULT_BINDINGS, 'HOLD', 'KeyC')).toBe(true);
+  });
+
+  it("names keys", () => {
+    expect(['KeyA', 'Digit1', 'ArrowUp', 'Space'].map(keyLabel)).toEqual(['A', '1', '↑', 'Space']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  LeaderboardConfig, LeaderboardEntry, addEntry, bestScore, emptyLeaderboard, loadLeaderboard,
+  mergeLeaderboards, parseLeaderboard, qualifies, saveLeaderboard, serializeLeaderboard, topEntries
+} from "../src/leaderboard";
+import { createGame } from "../src/engine";
+import { initialStats, summarizeStats } from "../src/stats";
+import type { KeyValueStore } from "../src/types";
+
+const entry = (score: number, name = 'Ann'): LeaderboardEntry =>
+  ({ name, score, lines: 10, level: 2, durationMs: 60000, date: 1700000000000 + score });
+
+/**
+ * An in-memory stand-in for localStorage.
+ */
+const memoryStore = (): KeyValueStore & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+  };
+};
+
+describe("leaderboard", () => {
+  it("keeps the best entries of each mode, best first", () => {
+    const board = Array.from({ length: 15 }, (_, i) => entry((i + 1) * 100))
+      .reduce((acc, e) => addEntry(acc, 'MARATHON', e), addEntry(emptyLeaderboard, 'SPRINT', entry(50)));
+
+    expect(topEntries(board, 'MARATHON')).toHaveLength(LeaderboardConfig.SIZE);
+    expect(bestScore(board, 'MARATHON')).toBe(1500);
+    expect(topEntries(board, 'MARATHON').map(e => e.score).at(-1)).toBe(600);
+    expect(bestScore(board, 'SPRINT')).toBe(50);
+    expect(qualifies(board, 'MARATHON', entry(550))).toBe(false);
+    expect(qualifies(board, 'MARATHON', entry(650))).toBe(true);
+  });
+
+  it("ranks Sprint games by time", () => {
+    const board = [entry(900), { ...entry(100), durationMs: 45000 }].reduce((acc, e) => addEntry(acc, 'SPRINT', e), emptyLeaderboard);
+    expect(topEntries(board, 'SPRINT').map(e => e.durationMs)).toEqual([45000, 60000]);
+    expect(bestScore(board, 'SPRINT')).toBe(900);
+    expect(qualifies(board, 'SPRINT', { ...entry(0), durationMs: 50000 })).toBe(true);
+  });
+
+  it("cleans up names", () => {
+    const board = addEntry(addEntry(emptyLeaderboard, 'M', entry(1, '  a   very long name indeed  ')), 'M', entry(2, ' '));
+    expect(topEntries(board, 'M').map(e => e.name)).toEqual(['Anonymous', 'a very long name']);
+  });
+
+  it("exports, imports and merges without duplicates", () => {
+    const board = addEntry(addEntry(emptyLeaderboard, 'M', entry(100)), 'M', entry(200));
+    const parsed = parseLeaderboard(serializeLeaderboard(board));
+    expect(parsed).toEqual({ leaderboard: board });
+
+    const merged = mergeLeaderboards(board, addEntry(board, 'M', entry(300, 'Bo')));
+    expect(topEntries(merged, 'M').map(e => e.score)).toEqual([300, 200, 100]);
+  });
+
+  it("keeps the statistics of each game, and rejects entries whose statistics are broken", () => {
+    const stats = summarizeStats(initialStats, createGame({ seed: 1 }));
+    const board = addEntry(addEntry(emptyLeaderboard, 'M', { ...entry(200), stats }), 'M', entry(100));
+    expect(parseLeaderboard(serializeLeaderboard(board))).toEqual({ leaderboard: board });
+    expect(parseLeaderboard(serializeLeaderboard(addEntry(board, 'M', { ...entry(300), stats: { ...stats, pieces: 'many' as never } }))))
+      .toEqual({ error: 'Invalid leaderboard entry' });
+  });
+
+  it("rejects malformed files", () => {
+    expect(parseLeaderboard('nope')).toEqual({ error: 'Not a leaderboard file' });
+    expect(parseLeaderboard('{"version":2,"modes":{}}')).toEqual({ error: 'Unsupported leaderboard version 2' });
+    expect(parseLeaderboard('{"version":1,"modes":{"M":[{"name":"x"}]}}')).toEqual({ error: 'Invalid leaderboard entry' });
+  });
+
+  it("saves to and loads from storage", () => {
+    const store = memoryStore();
+    expect(loadLeaderboard(store)).toEqual(emptyLeaderboard);
+
+    const board = addEntry(emptyLeaderboard, 'M', entry(100));
+    expect(saveLeaderboard(store, board)).toBe(true);
+    expect(loadLeaderboard(store)).toEqual(board);
+
+    store.items.set(LeaderboardConfig.STORAGE_KEY, '{corrupt');
+    expect(loadLeaderboard(store)).toEqual(emptyLeaderboard);
+    expect(saveLeaderboard({ ...store, setItem: () => { throw new Error('full'); } }, board)).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { getTickRate, levelForLines } from "../src/levels";
+
+describe("levels", () => {
+  it("levels up every linesPerLevel lines", () => {
+    expect(levelForLines(0, 1, 10)).toBe(1);
+    expect(levelForLines(9, 1, 10)).toBe(1);
+    expect(levelForLines(10, 1, 10)).toBe(2);
+    expect(levelForLines(25, 5, 5)).toBe(10);
+  });
+
+  it("follows the guideline formula", () => {
+    expect(getTickRate(1, 'GUIDELINE', 16, 20)).toBe(1000);
+    expect(getTickRate(2, 'GUIDELINE', 16, 20)).toBeCloseTo(793);
+    expect(getTickRate(15, 'GUIDELINE', 16, 20)).toBeCloseTo(7.06, 1);
+  });
+
+  it("reaches 20G at high levels", () => {
+    expect(getTickRate(20, 'GUIDELINE', 16, 20)).toBe(16 / 20);
+    expect(getTickRate(20, 'GUIDELINE', 16, 40)).toBe(16 / 40);  // The whole height of a taller board
+  });
+
+  it("follows the NES table", () => {
+    expect(getTickRate(1, 'NES', 16, 20)).toBeCloseTo(48 * 1000 / 60.0988);
+    expect(getTickRate(99, 'NES', 16, 20)).toBeCloseTo(1000 / 60.0988);
+  });
+
+  it("gets faster with every level", () => {
+    Array.from({ length: 25 }, (_, i) => i + 1).forEach(level =>
+      expect(getTickRate(level + 1, 'GUIDELINE', 16, 20)).toBeLessThanOrEqual(getTickRate(level, 'GUIDELINE', 16, 20))
+    );
+  });
+});
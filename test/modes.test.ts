@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { capLevel, clockTime, formatClock, isModeComplete, linesRemaining, modeResults } from "../src/modes";
+
+describe("game modes", () => {
+  it("completes each mode at its goal", () => {
+    const start = { lines: 0, timeMs: 0, garbageLeft: 0 };
+    expect(isModeComplete('SPRINT', { ...start, lines: 39, timeMs: 600000 })).toBe(false);
+    expect(isModeComplete('SPRINT', { ...start, lines: 40 })).toBe(true);
+    expect(isModeComplete('ULTRA', { ...start, lines: 500, timeMs: 119999 })).toBe(false);
+    expect(isModeComplete('ULTRA', { ...start, timeMs: 120000 })).toBe(true);
+    expect(isModeComplete('MARATHON', { ...start, lines: 150 })).toBe(true);
+    expect(isModeComplete('DIG', { ...start, lines: 30, garbageLeft: 1 })).toBe(false);
+    expect(isModeComplete('DIG', start)).toBe(true);
+  });
+
+  it("caps the Marathon level", () => {
+    expect(capLevel('MARATHON', 16, 1)).toBe(15);
+    expect(capLevel('MARATHON', 18, 18)).toBe(18);
+    expect(capLevel('SPRINT', 16, 1)).toBe(16);
+  });
+
+  it("counts lines left and the clock", () => {
+    const progress = { lines: 12, timeMs: 0, garbageLeft: 3 };
+    expect(linesRemaining('SPRINT', progress)).toBe(28);
+    expect(linesRemaining('ULTRA', progress)).toBeNull();
+    expect(linesRemaining('DIG', progress)).toBe(3);
+    expect(clockTime('ULTRA', 20000)).toBe(100000);
+    expect(clockTime('SPRINT', 20000)).toBe(20000);
+    expect(formatClock(125370)).toBe('2:05.37');
+  });
+
+  it("sums up the results of each mode", () => {
+    const stats = { score: 1200, lines: 40, level: 5, timeMs: 60000, completed: true };
+    expect(modeResults('SPRINT', stats)).toEqual({
+      title: 'Sprint complete!',
+      rows: [['Time', '1:00.00'], ['Lines', '40'], ['Lines per minute', '40.0'], ['Score', '1200']],
+    });
+    expect(modeResults('ULTRA', { ...stats, completed: false }).title).toBe('Game Over!');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { Action, Constants, createGame, isState, spawnBlock, step } from "../src/engine";
+import { PIECES, PIECE_KEYS, PIECE_SETS, PieceKey, isPieceSetKind, spawnOrigin } from "../src/pieces";
+import { rotateWithKicks } from "../src/srs";
+
+const ticks = (n: number) => Array<Action>(n).fill('TICK');
+
+describe("pieces", () => {
+  it("spawns the tetrominoes where the guideline puts them on a 10 column board", () => {
+    expect(spawnBlock('I', 10)).toEqual([3, 4, 5, 6].map(x => ({ x, y: 0 })));
+    expect(spawnBlock('O', 10)).toEqual([{ x: 4, y: 0 }, { x: 5, y: 0 }, { x: 4, y: 1 }, { x: 5, y: 1 }]);
+    expect(spawnBlock('T', 10)).toEqual([{ x: 4, y: 0 }, { x: 3, y: 1 }, { x: 4, y: 1 }, { x: 5, y: 1 }]);
+  });
+
+  it("centres every piece on any width, with its top row of cells on the top row", () => {
+    [Constants.MIN_BOARD_WIDTH, 11, Constants.MAX_BOARD_WIDTH].forEach(width =>
+      PIECE_KEYS.forEach(type => {
+        const block = spawnBlock(type, width);
+        const left = Math.min(...block.map(p => p.x));
+        const right = width - 1 - Math.max(...block.map(p => p.x));
+        expect(Math.min(...block.map(p => p.y))).toBe(0);
+        expect(left).toBeGreaterThanOrEqual(0);
+        expect(right).toBeGreaterThanOrEqual(0);
+        expect(spawnOrigin(type, width).x).toBe(Math.floor((width - PIECES[type].size) / 2));
+      })
+    );
+  });
+
+  it("rotates every piece back to its cells after four turns", () => {
+    const inside = () => true;
+    PIECE_KEYS.filter((type: PieceKey) => PIECES[type].kicks !== 'NONE').forEach(type => {
+      const block = spawnBlock(type, 10);
+      const turned = [0, 1, 2, 3].reduce(acc => rotateWithKicks(acc.block, type, acc.rotation, 'CW', inside)!, { block, rotation: '0' as const });
+      expect(turned.rotation).toBe('0');
+      expect(turned.block).toEqual(block);
+    });
+  });
+
+  it("plays a pentomino game on a wider, taller board, drawing only from its set", () => {
+    const game = createGame({ seed: 7, settings: { pieceSet: 'PENTOMINO', boardWidth: 14, boardHeight: 30 } });
+    expect([game.grid.length, game.grid[0].length]).toEqual([30, 14]);
+    expect(PIECE_SETS.PENTOMINO.pieces).toContain(game.currentBlockType);
+    expect(game.block).toHaveLength(5);
+
+    const played = Array.from({ length: 12 }, () => ['HARD_DROP', ...ticks(30)] as Action[]).flat().reduce(step, game);
+    expect(played.pieces).toBe(12);
+    expect(played.nextQueue.every(type => PIECE_SETS.PENTOMINO.pieces.includes(type))).toBe(true);
+    expect(played.grid.flat().filter(cell => cell !== 'EMPTY')).toHaveLength(5 * 12 - 14 * played.clearedRows);
+    expect(isState(played)).toBe(true);
+    expect(isState({ ...played, grid: played.grid.slice(1) })).toBe(false);
+  });
+
+  it("names the piece sets a game can be played with", () => {
+    expect(isPieceSetKind('TROMINO_TETROMINO')).toBe(true);
+    expect(isPieceSetKind('HEXOMINO')).toBe(false);
+    expect(new Set(PIECE_SETS.TROMINO_TETROMINO.pieces)).toEqual(new Set([...PIECE_SETS.TETROMINO.pieces, 'I3', 'V3']));
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GESTURES } from "../src/gestures";
+import { DEFAULT_BINDINGS } from "../src/input";
+import { DEFAULT_PREFERENCES, parsePreferences } from "../src/preferences";
+import { DEFAULT_VERSUS_BINDINGS } from "../src/versus";
+
+describe("preferences", () => {
+  it("round-trips through JSON", () => {
+    const prefs = {
+      bindings: { ...DEFAULT_BINDINGS, HOLD: ['KeyV'] },
+      versusBindings: [DEFAULT_VERSUS_BINDINGS[0], { ...DEFAULT_VERSUS_BINDINGS[1], HOLD: ['Enter'] }],
+      handling: { das: 100, arr: 0, softDropFactor: 40 },
+      gestures: { ...DEFAULT_GESTURES, dragCell: 30, swipeUp: 'PAUSE' as const },
+      display: { nextPieces: 2, reducedMotion: true },
+      audio: { sfx: 0.25, music: 0, muted: true },
+    };
+    expect(parsePreferences(JSON.stringify(prefs))).toEqual(prefs);
+  });
+
+  it("falls back to the defaults field by field", () => {
+    expect(parsePreferences('nonsense')).toEqual(DEFAULT_PREFERENCES);
+    expect(parsePreferences('{"handling":{"das":9999,"arr":"fast"}}').handling)
+      .toEqual({ das: 500, arr: DEFAULT_PREFERENCES.handling.arr, softDropFactor: 20 });
+    expect(parsePreferences('{"bindings":{"HOLD":["Space"]}}').bindings).toEqual(DEFAULT_BINDINGS);
+    expect(parsePreferences('{"versusBindings":[{"HOLD":["ArrowUp"]}]}').versusBindings).toEqual(DEFAULT_VERSUS_BINDINGS);
+    expect(parsePreferences('{"gestures":{"dragCell":1,"swipeUp":"RESTART"}}').gestures)
+      .toEqual({ ...DEFAULT_GESTURES, dragCell: 8 });
+    expect(parsePreferences('{"audio":{"sfx":2,"music":"loud"}}').audio).toEqual({ sfx: 1, music: 0.3, muted: false });
+    expect(parsePreferences('{"display":{"nextPieces":9,"reducedMotion":"yes"}}').display).toEqual({ nextPieces: 6, reducedMotion: false });
+  });
+});
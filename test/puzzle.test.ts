@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { Board, Cell, GameSettings, createGame, isGameSettings, piecesLeft, step } from "../src/engine";
+import { ClearEvent } from "../src/scoring";
+import {
+  Puzzle, PuzzleCode, emptyPuzzle, encodePuzzle, goalOf, isPuzzleSolved, parsePuzzle, parseQueue, puzzleProblem, stepEditor
+} from "../src/puzzle";
+
+/**
+ * A 10 by 20 board whose bottom row is full but for the four columns an I piece drops into from its spawn.
+ */
+const wellBoard = (): Board =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x): Cell => (y === 19 && (x < 3 || x > 6) ? 'GARBAGE' : 'EMPTY'))
+  );
+
+const puzzleGame = (puzzle: Puzzle) =>
+  createGame({ seed: 1, settings: { mode: 'PUZZLE', puzzle, lineClearDelayMs: 0, entryDelayMs: 0 } });
+
+const clear = (lines: number, spin: ClearEvent['spin'], perfectClear = false): ClearEvent =>
+  ({ lines, spin, perfectClear, backToBack: false, combo: 0, points: 0, label: '' });
+
+describe("puzzles", () => {
+  it("round-trips a puzzle through a code that fits in a URL", () => {
+    const board = wellBoard().map((row, y) => (y === 18 ? row.map((cell, x): Cell => (x === 0 ? 'T' : x === 9 ? 'I5' : cell)) : row));
+    const puzzle: Puzzle = { board, queue: ['I', 'T', 'P5', 'V3'], goal: { kind: 'TSPIN', lines: 2 } };
+    const code = encodePuzzle(puzzle);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(code.length).toBeLessThan(40);
+    expect(parsePuzzle(code)).toEqual({ puzzle });
+  });
+
+  it("keeps line goals to what a code can hold", () => {
+    const puzzle: Puzzle = { board: wellBoard(), queue: ['I'], goal: goalOf('LINES', 300) };
+    expect(puzzle.goal).toEqual({ kind: 'LINES', lines: PuzzleCode.MAX_LINES });
+    expect(parsePuzzle(encodePuzzle(puzzle))).toEqual({ puzzle });
+    expect(isGameSettings({ ...puzzleGame(puzzle).settings, puzzle: { ...puzzle, goal: { kind: 'TSPIN', lines: 256 } } })).toBe(false);
+  });
+
+  it("reports codes that cannot be read", () => {
+    const code = encodePuzzle({ board: wellBoard(), queue: ['I'], goal: { kind: 'NONE' } });
+    expect(parsePuzzle('')).toHaveProperty('error');
+    expect(parsePuzzle('not a code!')).toHaveProperty('error');
+    expect(parsePuzzle(code.slice(0, -4))).toHaveProperty('error');
+    expect(parsePuzzle(`B${code.slice(1)}`)).toEqual({ error: 'This puzzle code was made by another version of the game.' });
+  });
+
+  it("plays the board and queue of a puzzle, ending when the queue runs out", () => {
+    const puzzle: Puzzle = { board: wellBoard(), queue: ['O', 'T', 'S'], goal: { kind: 'NONE' } };
+    const game = puzzleGame(puzzle);
+    expect(game.grid).toEqual(puzzle.board);
+    expect(game.currentBlockType).toBe('O');
+    expect(game.nextQueue.slice(0, 2)).toEqual(['T', 'S']);
+    expect(piecesLeft(game)).toBe(2);
+    expect(piecesLeft(createGame({ seed: 1 }))).toBeNull();
+
+    const held = step(game, 'HOLD');
+    expect([held.currentBlockType, held.heldBlockType, piecesLeft(held)]).toEqual(['T', 'O', 1]);
+
+    const last = step(step(held, 'HARD_DROP'), 'HARD_DROP');
+    expect([last.gameEnd, last.currentBlockType, last.heldBlockType, piecesLeft(last)]).toEqual([false, 'O', null, 0]);  // The held piece comes last
+    const ended = step(last, 'HARD_DROP');
+    expect([ended.gameEnd, ended.completed]).toEqual([true, false]);
+  });
+
+  it("rejects hold with an empty slot once the queue has no pieces left to bring in", () => {
+    const game = puzzleGame({ board: wellBoard(), queue: ['O'], goal: { kind: 'NONE' } });
+    expect(step(game, 'HOLD')).toEqual(game);
+  });
+
+  it("completes the game once its goal is reached", () => {
+    const lines = puzzleGame({ board: wellBoard(), queue: ['I', 'O'], goal: { kind: 'LINES', lines: 1 } });
+    expect(step(lines, 'HARD_DROP')).toMatchObject({ gameEnd: true, completed: true, clearedRows: 1 });
+
+    const perfect = puzzleGame({ board: wellBoard(), queue: ['I', 'O'], goal: { kind: 'PERFECT_CLEAR' } });
+    expect(step(perfect, 'HARD_DROP')).toMatchObject({ gameEnd: true, completed: true });
+
+    const tspin = { kind: 'TSPIN', lines: 2 } as const;
+    expect(isPuzzleSolved(tspin, { lines: 2, clear: clear(2, 'FULL') })).toBe(true);
+    expect(isPuzzleSolved(tspin, { lines: 2, clear: clear(1, 'FULL') })).toBe(false);
+    expect(isPuzzleSolved(tspin, { lines: 2, clear: clear(2, 'MINI') })).toBe(false);
+    expect(isPuzzleSolved({ kind: 'NONE' }, { lines: 40, clear: clear(4, 'NONE', true) })).toBe(false);
+  });
+
+  it("keeps a puzzle to boards the size of the game", () => {
+    const settings = puzzleGame({ board: wellBoard(), queue: ['I'], goal: { kind: 'NONE' } }).settings;
+    expect(isGameSettings(settings)).toBe(true);
+    expect(isGameSettings({ ...settings, boardWidth: 12 } satisfies GameSettings)).toBe(false);
+    expect(isGameSettings({ ...settings, puzzle: { ...settings.puzzle, queue: [] } })).toBe(false);
+  });
+
+  it("paints the board, reads the queue and reports what stops a puzzle from being played", () => {
+    const start = { puzzle: emptyPuzzle(10, 20), brush: 'GARBAGE' as const };
+    const painted = stepEditor(stepEditor(start, { kind: 'PAINT', x: 0, y: 19 }), { kind: 'PAINT', x: 10, y: 19 });
+    expect(painted.puzzle.board[19].filter(cell => cell !== 'EMPTY')).toEqual(['GARBAGE']);
+    expect(stepEditor(stepEditor(painted, { kind: 'BRUSH', cell: 'EMPTY' }), { kind: 'PAINT', x: 0, y: 19 }).puzzle).toEqual(start.puzzle);
+    expect(stepEditor(painted, { kind: 'CLEAR' }).puzzle).toEqual(start.puzzle);
+
+    expect(parseQueue('tsz, I5 p5i3')).toEqual(['T', 'S', 'Z', 'I5', 'P5', 'I3']);
+    expect(parseQueue('TQ')).toBeUndefined();
+    expect(puzzleProblem(painted.puzzle)).toBe('Add some pieces to the queue.');
+
+    const queued = stepEditor(painted, { kind: 'QUEUE', queue: ['T'] });
+    expect(puzzleProblem(queued.puzzle)).toBeNull();
+    expect(puzzleProblem(stepEditor({ ...queued, brush: 'I' }, { kind: 'PAINT', x: 4, y: 0 }).puzzle)).not.toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createRandomizer, nextPiece, RandomizerKind, RandomizerState } from "../src/randomizer";
+
+const PIECES = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
+
+/** Draws `count` pieces from a randomizer. */
+const draw = (r: RandomizerState, count: number): string[] =>
+  Array.from({ length: count }).reduce<[string[], RandomizerState]>(([acc, state]) => {
+    const { piece, randomizer } = nextPiece(state);
+    return [[...acc, piece], randomizer];
+  }, [[], r])[0];
+
+describe("randomizer", () => {
+  const kinds: RandomizerKind[] = ['RANDOM', 'BAG_7', 'BAG_14', 'TGM'];
+
+  it.each(kinds)("%s is reproducible from the seed", kind => {
+    expect(draw(createRandomizer(kind, 1234, PIECES), 50))
+      .toEqual(draw(createRandomizer(kind, 1234, PIECES), 50));
+    expect(draw(createRandomizer(kind, 1234, PIECES), 50))
+      .not.toEqual(draw(createRandomizer(kind, 4321, PIECES), 50));
+  });
+
+  it("BAG_7 deals every piece once per bag", () => {
+    const pieces = draw(createRandomizer('BAG_7', 42, PIECES), 70);
+    Array.from({ length: 10 }, (_, i) => pieces.slice(i * 7, i * 7 + 7)).forEach(bag =>
+      expect([...bag].sort()).toEqual([...PIECES].sort())
+    );
+  });
+
+  it("BAG_14 deals every piece twice per bag", () => {
+    const bag = draw(createRandomizer('BAG_14', 42, PIECES), 14);
+    PIECES.forEach(p => expect(bag.filter(q => q === p)).toHaveLength(2));
+  });
+
+  it("TGM never starts with S or Z", () => {
+    Array.from({ length: 20 }, (_, seed) => draw(createRandomizer('TGM', seed, PIECES), 1)[0])
+      .forEach(first => expect(['S', 'Z']).not.toContain(first));
+  });
+});
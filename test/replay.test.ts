@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  Playback, Replay, ReplayEngine, applyPlaybackCommand, createReplay, parseReplay, recordAction, recordFrame,
+  seekPlayback, serializeReplay, startPlayback, stepPlayback
+} from "../src/replay";
+
+/** A tiny deterministic game: a counter that actions add to, and a frame clock. */
+type CounterState = { frame: number, total: number, step: number };
+type CounterAction = 'TICK' | 'ADD' | 'DOUBLE';
+type CounterSettings = { step: number };
+
+const engine: ReplayEngine<CounterState, CounterSettings, CounterAction> = {
+  init: (seed, settings) => ({ frame: 0, total: seed, step: settings.step }),
+  reduce: (s, a) => a === 'TICK' ? { ...s, frame: s.frame + 1 } : a === 'ADD' ? { ...s, total: s.total + s.step } : { ...s, step: s.step * 2 },
+  frameOf: s => s.frame,
+  tick: 'TICK',
+};
+
+const isSettings = (v: unknown): v is CounterSettings => typeof v === 'object' && v !== null && Number.isInteger((v as CounterSettings).step);
+const isAction = (v: unknown): v is CounterAction => v === 'TICK' || v === 'ADD' || v === 'DOUBLE';
+
+/** Plays a script of [frame, action] live, recording it, and returns the final state and replay. */
+const playLive = (script: [number, CounterAction][], frames: number) =>
+  Array.from({ length: frames }).reduce<{ state: CounterState, replay: Replay<CounterSettings, CounterAction> }>(
+    ({ state, replay }) => {
+      const acted = script.filter(([f]) => f === state.frame).reduce(
+        (acc, [, action]) => ({ state: engine.reduce(acc.state, action), replay: recordAction(acc.replay, acc.state.frame, action) }),
+        { state, replay }
+      );
+      const ticked = engine.reduce(acted.state, 'TICK');
+      return { state: ticked, replay: recordFrame(acted.replay, ticked.frame) };
+    },
+    { state: engine.init(7, { step: 3 }), replay: createReplay(7, { step: 3 }) }
+  );
+
+describe("replay", () => {
+  const script: [number, CounterAction][] = [[0, 'ADD'], [2, 'DOUBLE'], [2, 'ADD'], [5, 'ADD']];
+  const live = playLive(script, 8);
+
+  it("records actions with their frame", () => {
+    expect(live.replay.frames).toBe(8);
+    expect(live.replay.actions).toEqual(script);
+  });
+
+  it("round-trips through JSON", () => {
+    expect(parseReplay(serializeReplay(live.replay), isSettings, isAction)).toEqual({ replay: live.replay });
+  });
+
+  it("rejects other versions and malformed files", () => {
+    expect(parseReplay(JSON.stringify({ ...live.replay, version: 99 }), isSettings, isAction)).toHaveProperty('error');
+    expect(parseReplay('not json', isSettings, isAction)).toHaveProperty('error');
+    expect(parseReplay(JSON.stringify({ ...live.replay, actions: [[0, 'JUMP']] }), isSettings, isAction)).toHaveProperty('error');
+  });
+
+  it("plays back to the same final state", () => {
+    const played = Array.from({ length: 20 }).reduce<Playback<CounterState, CounterSettings, CounterAction>>(
+      pb => stepPlayback(engine, pb), startPlayback(engine, live.replay));
+    expect(played.finished).toBe(true);
+    expect(played.state).toEqual(live.state);
+  });
+
+  it("seeks forwards and backwards", () => {
+    const start = startPlayback(engine, live.replay);
+    const forward = seekPlayback(engine, start, 3);
+    expect(forward.state).toEqual({ frame: 3, total: 7 + 3 + 6, step: 6 });
+    const back = seekPlayback(engine, seekPlayback(engine, start, 8), 1);
+    expect(back.state).toEqual({ frame: 1, total: 10, step: 3 });
+  });
+
+  it("ignores the clock while paused and clamps the speed", () => {
+    const paused = applyPlaybackCommand(engine, startPlayback(engine, live.replay), { kind: 'TOGGLE' });
+    expect(applyPlaybackCommand(engine, paused, { kind: 'STEP' }).state.frame).toBe(0);
+    expect(applyPlaybackCommand(engine, paused, { kind: 'SPEED', speed: 10 }).speed).toBe(4);
+  });
+});
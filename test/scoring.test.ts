@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { detectTSpin, initialScoring, scoreLock } from "../src/scoring";
+import type { Point } from "../src/types";
+
+const lock = (lines: number, spin: 'NONE' | 'MINI' | 'FULL' = 'NONE', level = 1, perfectClear = false) =>
+  ({ lines, spin, perfectClear, level });
+
+describe("scoring", () => {
+  it("scores line clear tiers by level", () => {
+    expect(scoreLock(initialScoring, lock(1)).points).toBe(100);
+    expect(scoreLock(initialScoring, lock(4)).points).toBe(800);
+    expect(scoreLock(initialScoring, lock(4, 'NONE', 3)).points).toBe(2400);
+  });
+
+  it("labels T-spins and applies back-to-back", () => {
+    const first = scoreLock(initialScoring, lock(4));
+    const second = scoreLock({ ...first.scoring, combo: -1 }, lock(2, 'FULL'));
+    expect(second.event?.label).toBe("B2B T-SPIN DOUBLE");
+    expect(second.points).toBe(1200 * 1.5);
+  });
+
+  it("breaks back-to-back on an easy clear", () => {
+    const tetris = scoreLock(initialScoring, lock(4));
+    const single = scoreLock(tetris.scoring, lock(1));
+    expect(single.scoring.backToBack).toBe(false);
+    expect(single.event?.label).toBe("SINGLE");
+  });
+
+  it("builds combos and resets them on a lock without lines", () => {
+    const a = scoreLock(initialScoring, lock(1));
+    const b = scoreLock(a.scoring, lock(1));
+    expect(b.event?.combo).toBe(1);
+    expect(b.points).toBe(100 + 50);
+    expect(scoreLock(b.scoring, lock(0)).scoring.combo).toBe(-1);
+  });
+
+  it("awards perfect clears", () => {
+    expect(scoreLock(initialScoring, lock(4, 'NONE', 1, true)).event?.label).toBe("TETRIS PERFECT CLEAR");
+  });
+});
+
+describe("detectTSpin", () => {
+  // T pointing down (state 2) in a slot with both lower corners filled
+  const block: Point[] = [{ x: 3, y: 18 }, { x: 4, y: 18 }, { x: 5, y: 18 }, { x: 4, y: 19 }];
+  const filled = (cells: Point[]) => (p: Point) => p.y >= 20 || cells.some(c => c.x === p.x && c.y === p.y);
+
+  it("requires the last move to be a rotation", () => {
+    expect(detectTSpin(block, 'T', '2', null, filled([{ x: 3, y: 19 }, { x: 5, y: 19 }, { x: 3, y: 17 }]))).toBe('NONE');
+  });
+
+  it("detects a full T-spin when both front corners are filled", () => {
+    expect(detectTSpin(block, 'T', '2', 0, filled([{ x: 3, y: 19 }, { x: 5, y: 19 }, { x: 3, y: 17 }]))).toBe('FULL');
+  });
+
+  it("detects a mini T-spin when a front corner is open", () => {
+    expect(detectTSpin(block, 'T', '0', 0, filled([{ x: 3, y: 19 }, { x: 5, y: 19 }, { x: 3, y: 17 }]))).toBe('MINI');
+  });
+
+  it("ignores other pieces", () => {
+    expect(detectTSpin(block, 'L', '2', 0, () => true)).toBe('NONE');
+  });
+});
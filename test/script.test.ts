@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { parseScript } from "../src/script";
+
+describe("input scripts", () => {
+  it("reads actions, counts and waits", () => {
+    expect(parseScript("LEFT 2\n# a comment\n\nwait 3  # let it fall\nHARD_DROP")).toEqual({
+      actions: ['LEFT', 'LEFT', 'TICK', 'TICK', 'TICK', 'HARD_DROP'],
+    });
+  });
+
+  it("reports the first malformed line", () => {
+    expect(parseScript("LEFT\nJUMP")).toEqual({ error: 'Line 2: Unknown action "JUMP"' });
+    expect(parseScript("WAIT soon")).toEqual({ error: 'Line 1: Invalid count "WAIT soon"' });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { Action, recordStep, spawnBlock, startSession } from "../src/engine";
+import { createRandomizer, nextPiece } from "../src/randomizer";
+import { REPLAY_VERSION } from "../src/replay";
+import { SNAPSHOT_VERSION, clearSnapshot, loadSnapshot, parseSnapshot, saveSnapshot, serializeSnapshot } from "../src/snapshot";
+import type { KeyValueStore } from "../src/types";
+
+type Saved = Record<string, unknown>;
+
+const memoryStore = (): KeyValueStore => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+  };
+};
+
+const played = (actions: readonly Action[]) =>
+  actions.reduce(recordStep, startSession(99, { mode: 'MARATHON', randomizer: 'TGM', gravityCurve: 'NES', startLevel: 3, linesPerLevel: 5, softDropFactor: 20,
+    lineClearDelayMs: 0, entryDelayMs: 0, boardWidth: 10, boardHeight: 20, pieceSet: 'TETROMINO', puzzle: null,
+  }));
+
+/**
+ * Turns a saved new game back into the shape it had before the next queue: a single next block,
+ * with the randomizer having drawn only the falling block and that one.
+ */
+const beforeQueue = (state: Saved) => {
+  const { nextQueue, ...rest } = state;
+  const falling = nextPiece(createRandomizer('TGM', 99, ['I', 'O', 'T', 'S', 'Z', 'J', 'L']));
+  const drawn = nextPiece(falling.randomizer);
+  expect([falling.piece, drawn.piece]).toEqual([state.currentBlockType, (nextQueue as string[])[0]]);
+  return { ...rest, nextBlock: spawnBlock(drawn.piece, 10), nextBlockType: drawn.piece, randomizer: drawn.randomizer };
+};
+
+/**
+ * What a snapshot version added to saved games: fields of the settings and of the state, each with the value it
+ * holds in the games saved here (the value its migration gives older games), or undefined when that value varies.
+ */
+type Added = Readonly<{
+  version: number;
+  recordingVersion: number | null;
+  settings?: Readonly<Saved>;
+  state?: Readonly<Saved>;
+}>;
+
+/**
+ * What each snapshot version added, newest first, and the version of the recording before it (null when the
+ * recording did not change).
+ */
+const HISTORY: readonly Added[] = [
+  { version: 9, recordingVersion: 5, settings: { puzzle: null } },
+  { version: 8, recordingVersion: 4, settings: { boardWidth: 10, boardHeight: 20, pieceSet: 'TETROMINO' } },
+  { version: 7, recordingVersion: 3, settings: { lineClearDelayMs: 0, entryDelayMs: 0 }, state: { phase: 'FALLING', phaseTimer: undefined, lastLock: undefined } },
+  { version: 6, recordingVersion: null, state: { pieces: undefined } },
+  { version: 5, recordingVersion: null, state: { garbageRng: undefined, garbageTimer: 0, digRows: [] } },
+  { version: 4, recordingVersion: 2, settings: { mode: 'MARATHON' }, state: { completed: false } },
+];
+
+/**
+ * Removes the fields a version added, checking the values they hold.
+ */
+const without = (record: Saved, added: Readonly<Saved> = {}): Saved => {
+  Object.entries(added).filter(([, value]) => value !== undefined).forEach(([key, value]) => expect(record[key]).toEqual(value));
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !(key in added)));
+};
+
+/**
+ * Turns a saved game back into a snapshot of an older version, taking out what every later version added.
+ */
+const savedAs = (version: number, json: Saved): Saved =>
+  HISTORY.filter(added => added.version > version).reduce((old, added) => {
+    const state = old.state as Saved;
+    const recording = old.recording as Saved;
+    const settings = without(state.settings as Saved, added.settings);
+    return {
+      ...old,
+      version: added.version - 1,
+      state: { ...without(state, added.state), settings },
+      recording: added.recordingVersion === null ? recording : { ...recording, version: added.recordingVersion, settings },
+    };
+  }, json);
+
+describe("snapshot", () => {
+  const actions: Action[] = ['HARD_DROP', 'LEFT', 'HOLD', 'ROTATE_CW', 'TICK', 'TICK', 'HARD_DROP', 'PAUSE'];
+
+  it("restores a game that carries on exactly as the original", () => {
+    const session = played(actions);
+    const result = parseSnapshot(serializeSnapshot(session, 1234));
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.snapshot.savedAt).toBe(1234);
+    expect(result.snapshot.session).toEqual(session);
+
+    const more: Action[] = ['PAUSE', 'RIGHT', ...Array(200).fill('TICK'), 'HARD_DROP'];
+    expect(more.reduce(recordStep, result.snapshot.session)).toEqual(more.reduce(recordStep, session));
+  });
+
+  it("rejects unknown versions and invalid states", () => {
+    const json = JSON.parse(serializeSnapshot(played(actions), 0));
+
+    expect(parseSnapshot('{oops')).toEqual({ error: 'Not a saved game' });
+    expect(parseSnapshot(JSON.stringify({ ...json, version: SNAPSHOT_VERSION + 1 })))
+      .toEqual({ error: `Unsupported saved game version ${SNAPSHOT_VERSION + 1}` });
+    expect(parseSnapshot(JSON.stringify({ ...json, state: { ...json.state, grid: [[]] } })))
+      .toEqual({ error: 'Invalid game state' });
+    expect(parseSnapshot(JSON.stringify({ ...json, state: { ...json.state, currentBlockType: 'X' } })))
+      .toEqual({ error: 'Invalid game state' });
+    expect(parseSnapshot(JSON.stringify({ ...json, recording: { ...json.recording, actions: [[0, 'JUMP']] } })))
+      .toEqual({ error: 'Invalid action log' });
+  });
+
+  it("rejects snapshots of every version without a state, rather than throwing", () => {
+    Array.from({ length: SNAPSHOT_VERSION }, (_, i) => i + 1).forEach(version => {
+      expect(parseSnapshot(JSON.stringify({ version, savedAt: 0 }))).toEqual({ error: 'Invalid game state' });
+      expect(parseSnapshot(JSON.stringify({ version, savedAt: 0, state: null }))).toEqual({ error: 'Invalid game state' });
+    });
+  });
+
+  it("migrates snapshots saved before the soft drop factor was a setting", () => {
+    const session = played([]);
+    const json = savedAs(3, JSON.parse(serializeSnapshot(session, 0)));
+    const { softDropFactor, ...oldSettings } = (json.state as Saved).settings as Saved;
+    const old = {
+      ...json,
+      version: 1,
+      state: { ...beforeQueue(json.state as Saved), settings: oldSettings },
+      recording: { ...(json.recording as Saved), version: 1, settings: oldSettings },
+    };
+
+    expect(softDropFactor).toBe(20);
+    expect(parseSnapshot(JSON.stringify(old))).toEqual({ snapshot: { version: SNAPSHOT_VERSION, savedAt: 0, session } });
+  });
+
+  it("migrates snapshots saved before the next queue", () => {
+    const session = played([]);
+    const json = savedAs(3, JSON.parse(serializeSnapshot(session, 0)));
+    const result = parseSnapshot(JSON.stringify({ ...json, version: 2, state: beforeQueue(json.state as Saved) }));
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.snapshot.session).toEqual(session);
+    expect(actions.reduce(recordStep, result.snapshot.session)).toEqual(actions.reduce(recordStep, session));
+    expect(parseSnapshot(JSON.stringify({ ...json, version: 2, state: { ...beforeQueue(json.state as Saved), randomizer: null } })))
+      .toEqual({ error: 'Invalid game state' });
+  });
+
+  it("migrates snapshots saved before game modes", () => {
+    const session = played(actions);
+    expect(parseSnapshot(JSON.stringify(savedAs(3, JSON.parse(serializeSnapshot(session, 0))))))
+      .toEqual({ snapshot: { version: SNAPSHOT_VERSION, savedAt: 0, session: { ...session, state: { ...session.state, pieces: 0, lastLock: null } } } });
+  });
+
+  it("migrates snapshots saved before puzzles to games without one", () => {
+    const session = played(actions);
+    const result = parseSnapshot(JSON.stringify(savedAs(8, JSON.parse(serializeSnapshot(session, 0)))));
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.snapshot.session).toEqual(session);
+    expect(result.snapshot.session.recording.version).toBe(REPLAY_VERSION);
+  });
+
+  it("migrates snapshots saved before board sizes and piece sets to a 10 by 20 tetromino game", () => {
+    const session = played(actions);
+    const result = parseSnapshot(JSON.stringify(savedAs(7, JSON.parse(serializeSnapshot(session, 0)))));
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.snapshot.session).toEqual(session);
+    expect(result.snapshot.session.recording.version).toBe(REPLAY_VERSION);
+  });
+
+  it("migrates snapshots saved before the line clear and entry delays, which carry on without them", () => {
+    const session = played(actions);
+    const result = parseSnapshot(JSON.stringify(savedAs(6, JSON.parse(serializeSnapshot(session, 0)))));
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.snapshot.session).toEqual({ ...session, state: { ...session.state, lastLock: null } });
+    expect(result.snapshot.session.recording.version).toBe(REPLAY_VERSION);
+    const more: Action[] = ['PAUSE', 'HARD_DROP', 'LEFT'];
+    expect(more.reduce(recordStep, result.snapshot.session).state.block)
+      .toEqual(more.reduce(recordStep, session).state.block);
+  });
+
+  it("migrates snapshots saved before garbage rows and the count of blocks locked", () => {
+    const session = played([]);
+    expect(parseSnapshot(JSON.stringify(savedAs(4, JSON.parse(serializeSnapshot(session, 0))))))
+      .toEqual({ snapshot: { version: SNAPSHOT_VERSION, savedAt: 0, session } });
+  });
+
+  it("saves, loads and forgets a game", () => {
+    const store = memoryStore();
+    expect(loadSnapshot(store)).toBeNull();
+
+    expect(saveSnapshot(store, played(actions), 5)).toBe(true);
+    expect(loadSnapshot(store)).toEqual({ snapshot: { version: SNAPSHOT_VERSION, savedAt: 5, session: played(actions) } });
+
+    clearSnapshot(store);
+    expect(loadSnapshot(store)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { PieceKey } from "../src/pieces";
+import { nextRotationState, rotateWithKicks, Rotation, RotationState } from "../src/srs";
+import type { Block } from "../src/types";
+
+const T_SPAWN: Block = [{ x: 4, y: 0 }, { x: 3, y: 1 }, { x: 4, y: 1 }, { x: 5, y: 1 }];
+const I_SPAWN: Block = [{ x: 3, y: 0 }, { x: 4, y: 0 }, { x: 5, y: 0 }, { x: 6, y: 0 }];
+
+const inside = (block: Block) => block.every(p => p.x >= 0 && p.x < 10 && p.y < 20);
+
+/** Applies a sequence of rotations, failing the test if any of them is rejected. */
+const spin = (block: Block, kind: PieceKey, rotations: Rotation[]) =>
+  rotations.reduce<{ block: Block, rotation: RotationState }>((acc, r) => {
+    const result = rotateWithKicks(acc.block, kind, acc.rotation, r, inside);
+    expect(result).toBeDefined();
+    return result!;
+  }, { block, rotation: '0' });
+
+const sorted = (block: Block) => [...block].sort((a, b) => a.x - b.x || a.y - b.y);
+
+describe("srs", () => {
+  it("cycles through the rotation states", () => {
+    expect(nextRotationState('0', 'CW')).toBe('R');
+    expect(nextRotationState('0', 'CCW')).toBe('L');
+    expect(nextRotationState('R', '180')).toBe('L');
+  });
+
+  it.each([['T', T_SPAWN], ['I', I_SPAWN]] as const)("%s returns to its cells after four rotations", (kind, block) => {
+    const result = spin(block, kind, ['CW', 'CW', 'CW', 'CW']);
+    expect(result.rotation).toBe('0');
+    expect(sorted(result.block)).toEqual(sorted(block));
+  });
+
+  it("rotates T around its centre cell", () => {
+    const result = spin(T_SPAWN, 'T', ['CW']);
+    expect(sorted(result.block)).toEqual(sorted([{ x: 4, y: 0 }, { x: 4, y: 1 }, { x: 5, y: 1 }, { x: 4, y: 2 }]));
+  });
+
+  it("kicks a vertical I off the left wall", () => {
+    const vertical = spin(I_SPAWN, 'I', ['CCW']);
+    const againstWall = vertical.block.map(p => ({ x: 0, y: p.y + 2 }));
+    const result = rotateWithKicks(againstWall, 'I', 'L', 'CW', inside);
+    expect(result).toBeDefined();
+    expect(result!.kick).toBeGreaterThan(0);
+    expect(inside(result!.block)).toBe(true);
+  });
+
+  it("fails when no kick fits", () => {
+    expect(rotateWithKicks(T_SPAWN, 'T', '0', 'CW', () => false)).toBeUndefined();
+  });
+});
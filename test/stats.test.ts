@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { Action, Board, Cell, DEFAULT_SETTINGS, State, createGame, recordStep, spawnBlock, startSession, step } from "../src/engine";
+import type { Control } from "../src/input";
+import type { PieceKey } from "../src/pieces";
+import { emptyPuzzle } from "../src/puzzle";
+import { StatsState, finesseOf, initialStats, isStatsSummary, replayStats, statsRows, stepStats, summarizeStats } from "../src/stats";
+
+type Turn = readonly [action: Action, presses: readonly Control[]];
+
+/** A turn whose action the player pressed the control of, e.g. a move. */
+const press = (control: Control & Action): Turn => [control, [control]];
+
+/** A turn the player did not press anything for, e.g. a tick of the clock. */
+const just = (action: Action): Turn => [action, []];
+
+/** Plays turns from a state, following the statistics as the live game does. */
+const play = (s: State, turns: readonly Turn[], stats: StatsState = initialStats) =>
+  turns.reduce(({ s, stats }, [action, presses]) => {
+    const next = step(s, action);
+    return { s: next, stats: stepStats(stats, s, next, presses) };
+  }, { s, stats });
+
+const puzzleGame = (board: Board, queue: PieceKey[]) =>
+  createGame({
+    seed: 1,
+    settings: { mode: 'PUZZLE', puzzle: { board, queue, goal: { kind: 'NONE' } }, lineClearDelayMs: 0, entryDelayMs: 0 },
+  });
+
+/** A 10 by 20 board whose two bottom rows are full but for the four columns an I piece drops into from its spawn. */
+const wellBoard = (): Board =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x): Cell => (y >= 18 && (x < 3 || x > 6) ? 'GARBAGE' : 'EMPTY'))
+  );
+
+describe("stats", () => {
+  it("finds the fewest presses that place a piece", () => {
+    const shifted = (type: 'O' | 'T', dx: number) => spawnBlock(type, 10).map(p => ({ x: p.x + dx, y: p.y + 10 }));
+    expect(finesseOf('T', shifted('T', 0), 10, 20)).toBe(0);
+    expect(finesseOf('O', shifted('O', -4), 10, 20)).toBe(1);  // Held to the wall
+    expect(finesseOf('O', shifted('O', -2), 10, 20)).toBe(2);
+    expect(finesseOf('I', [0, 1, 2, 3].map(y => ({ x: 0, y: y + 16 })), 10, 20)).toBe(2);
+  });
+
+  it("counts the pieces placed, and the pieces placed with more presses than needed", () => {
+    const game = puzzleGame(emptyPuzzle(10, 20).board, ['T', 'T', 'O', 'S', 'Z']);
+    const { s, stats } = play(game, [
+      press('LEFT'), press('RIGHT'), just('HARD_DROP'),  // Back where it started: a fault
+      just('TICK'), just('HARD_DROP'),
+      press('LEFT'), press('LEFT'), press('LEFT'), press('LEFT'), just('HARD_DROP'),  // One press of auto shift would do
+      press('LEFT'),
+    ]);
+    expect(s.pieces).toBe(3);
+    expect(stats).toMatchObject({ distribution: { T: 2, O: 1 }, finesseFaults: 2, inputs: 1 });
+    expect(play(s, [just('HOLD')], stats).stats.inputs).toBe(0);
+  });
+
+  it("counts the clears of each tier, the longest combo and perfect clears", () => {
+    const { stats } = play(puzzleGame(wellBoard(), ['I', 'I', 'O']), [just('HARD_DROP'), just('HARD_DROP')]);
+    expect(stats).toMatchObject({ clears: { SINGLE: 2, DOUBLE: 0, TRIPLE: 0, TETRIS: 0 }, maxCombo: 1, perfectClears: 1, tSpins: 0 });
+  });
+
+  it("counts a replay the way the live game was counted, without judging finesse", () => {
+    const session = startSession(5, DEFAULT_SETTINGS);
+    const turns = Array.from({ length: 12 }, (_, i) => [press(i % 2 === 0 ? 'LEFT' : 'ROTATE_CW'), just('HARD_DROP'), ...Array<Turn>(20).fill(just('TICK'))]).flat();
+    const live = turns.reduce(({ session, stats }, [action, presses]) => {
+      const next = recordStep(session, action);
+      return { session: next, stats: stepStats(stats, session.state, next.state, presses) };
+    }, { session, stats: initialStats });
+
+    expect(replayStats(live.session.recording)).toEqual({ ...live.stats, finesseFaults: 0, inputs: null });
+    expect(replayStats(live.session.recording, 0)).toEqual({ ...initialStats, inputs: null });
+  });
+
+  it("sums up the statistics, lists them and checks them when they are read back", () => {
+    const { s, stats } = play(puzzleGame(wellBoard(), ['I', 'I', 'O']), [...Array<Turn>(125).fill(just('TICK')), just('HARD_DROP')]);
+    const summary = summarizeStats(stats, s);
+    expect(summary).toMatchObject({ pieces: 1, lines: 1, pps: 0.5, lpm: 30 });
+    expect(statsRows(summary, false).map(([label]) => label)).toEqual(
+      ['Pieces', 'Pieces per second', 'Lines per minute', 'T-spins', 'Max combo', 'Finesse faults']
+    );
+    expect(statsRows(summary, true)).toContainEqual(['Distribution', 'I 1']);
+
+    expect(isStatsSummary(JSON.parse(JSON.stringify(summary)))).toBe(true);
+    expect(isStatsSummary({ ...summary, pps: -1 })).toBe(false);
+    expect(isStatsSummary({ ...summary, clears: { SINGLE: 1 } })).toBe(false);
+    expect(isStatsSummary({ ...summary, distribution: { Q: 1 } })).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { Board, Cell } from "../src/engine";
+import { initialScoring, scoreLock } from "../src/scoring";
+import {
+  DEFAULT_VERSUS_BINDINGS, Match, MatchEvent, Player, PlayerIndex, attackOf, matchResult, playerControlFor, rebindPlayer,
+  startMatch, stepMatch
+} from "../src/versus";
+
+const handling = { das: 167, arr: 33 };
+
+const boardWith = (rows: number, holes: readonly number[]): Board =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x): Cell => y >= 20 - rows && !holes.includes(x) ? 'GARBAGE' : 'EMPTY')
+  );
+
+const clear = (lines: number, spin: 'NONE' | 'MINI' | 'FULL' = 'NONE', perfectClear = false) =>
+  scoreLock(initialScoring, { lines, spin, perfectClear, level: 1 }).event!;
+
+/**
+ * Changes one player of a match, e.g. to give them a board that is about to clear.
+ */
+const edit = (match: Match, index: PlayerIndex, change: (p: Player) => Player): Match => ({
+  players: index === 0 ? [change(match.players[0]), match.players[1]] : [match.players[0], change(match.players[1])],
+});
+
+const press = (player: PlayerIndex, control: 'HARD_DROP' | 'PAUSE' | 'RESTART'): MatchEvent[] =>
+  [{ kind: 'DOWN', player, control }, { kind: 'UP', player, control }];
+
+const play = (match: Match, events: readonly MatchEvent[]) => events.reduce((m, e) => stepMatch(m, e, handling), match);
+
+describe("versus", () => {
+  it("attacks with the guideline table", () => {
+    expect([1, 2, 3, 4].map(lines => attackOf(clear(lines)))).toEqual([0, 1, 2, 4]);
+    expect(attackOf(clear(2, 'FULL'))).toBe(4);
+    expect(attackOf(clear(1, 'MINI'))).toBe(0);
+    expect(attackOf({ ...clear(4), backToBack: true })).toBe(5);
+    expect(attackOf({ ...clear(1), combo: 4 })).toBe(2);
+    expect(attackOf(clear(2, 'NONE', true))).toBe(11);
+  });
+
+  it("sends the attack to the opponent, after cancelling the attacker's incoming garbage", () => {
+    const grid = boardWith(3, [1, 2, 3, 4, 5, 6, 7, 8, 9]).map((row, y) => (y < 18 ? row : boardWith(2, [4, 5])[y]));  // A double, leaving a cell behind
+    const ready = edit(startMatch(1), 0, p => ({ ...p, state: { ...p.state, grid } }));
+
+    const sent = play(ready, press(0, 'HARD_DROP'));
+    expect(sent.players.map(p => p.incoming)).toEqual([0, 1]);
+
+    const cancelled = play(edit(ready, 0, p => ({ ...p, incoming: 3 })), press(0, 'HARD_DROP'));
+    expect(cancelled.players.map(p => p.incoming)).toEqual([2, 0]);
+  });
+
+  it("lets the incoming garbage rise when a block locks without clearing", () => {
+    const match = play(edit(startMatch(1), 1, p => ({ ...p, incoming: 2 })), press(1, 'HARD_DROP'));
+    expect(match.players[1].incoming).toBe(0);
+    expect(match.players[1].state.grid.slice(18).every(row => row.filter(cell => cell === 'GARBAGE').length >= 7)).toBe(true);
+    expect(match.players[0].state.grid).toEqual(startMatch(1).players[0].state.grid);
+  });
+
+  it("pauses and restarts both boards, and ends when a player tops out", () => {
+    const paused = play(startMatch(1), press(1, 'PAUSE'));
+    expect(paused.players.map(p => p.state.gamePaused)).toEqual([true, true]);
+
+    const over = edit(startMatch(1), 0, p => ({ ...p, state: { ...p.state, gameEnd: true } }));
+    expect(matchResult(over)).toEqual({ over: true, winner: 1 });
+    expect(play(over, [{ kind: 'FRAME' }, ...press(1, 'HARD_DROP')])).toEqual(over);
+    expect(play(over, press(1, 'RESTART'))).toEqual(startMatch(1));
+  });
+
+  it("keeps each key to one control of one player", () => {
+    expect(playerControlFor(DEFAULT_VERSUS_BINDINGS, 'ArrowLeft')).toEqual({ player: 1, control: 'LEFT' });
+    expect(rebindPlayer(DEFAULT_VERSUS_BINDINGS, 0, 'HOLD', 'ArrowUp')).toEqual({ conflict: { player: 1, control: 'HARD_DROP' } });
+    const result = rebindPlayer(DEFAULT_VERSUS_BINDINGS, 0, 'HOLD', 'KeyC');
+    expect('bindings' in result && result.bindings[0].HOLD).toEqual(['KeyC']);
+  });
+});